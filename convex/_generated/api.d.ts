@@ -13,7 +13,24 @@ import type {
   FilterApi,
   FunctionReference,
 } from "convex/server";
+import type * as attachments from "../attachments.js";
+import type * as auth from "../auth.js";
+import type * as comments from "../comments.js";
+import type * as dependencies from "../dependencies.js";
+import type * as http from "../http.js";
+import type * as images from "../images.js";
+import type * as notifications from "../notifications.js";
+import type * as priorities from "../priorities.js";
+import type * as projects from "../projects.js";
+import type * as recurrence from "../recurrence.js";
+import type * as statuses from "../statuses.js";
+import type * as subtasks from "../subtasks.js";
+import type * as tags from "../tags.js";
 import type * as tasks from "../tasks.js";
+import type * as timeEntries from "../timeEntries.js";
+import type * as timeZones from "../timeZones.js";
+import type * as users from "../users.js";
+import type * as zonedTime from "../zonedTime.js";
 
 /**
  * A utility for referencing Convex functions in your app's API.
@@ -24,7 +41,24 @@ import type * as tasks from "../tasks.js";
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  attachments: typeof attachments;
+  auth: typeof auth;
+  comments: typeof comments;
+  dependencies: typeof dependencies;
+  http: typeof http;
+  images: typeof images;
+  notifications: typeof notifications;
+  priorities: typeof priorities;
+  projects: typeof projects;
+  recurrence: typeof recurrence;
+  statuses: typeof statuses;
+  subtasks: typeof subtasks;
+  tags: typeof tags;
   tasks: typeof tasks;
+  timeEntries: typeof timeEntries;
+  timeZones: typeof timeZones;
+  users: typeof users;
+  zonedTime: typeof zonedTime;
 }>;
 export declare const api: FilterApi<
   typeof fullApi,
@@ -0,0 +1,99 @@
+import { mutation, query, type MutationCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+import { requireActorId } from "./auth";
+import { getActiveTask } from "./tasks";
+
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+const MAX_ATTACHMENT_NAME_LENGTH = 200;
+
+function validateAttachmentName(value: string): string {
+  const name = value.trim();
+  if (!name) throw new Error("File name is required");
+  return name.slice(0, MAX_ATTACHMENT_NAME_LENGTH);
+}
+
+// Removes a task's files from storage along with their rows
+export async function deleteTaskAttachments(ctx: MutationCtx, taskId: Id<"tasks">) {
+  const attachments = await ctx.db
+    .query("attachments")
+    .withIndex("by_task", (q) => q.eq("taskId", taskId))
+    .collect();
+  await Promise.all(attachments.map(async (attachment) => {
+    await ctx.storage.delete(attachment.storageId);
+    await ctx.db.delete(attachment._id);
+  }));
+}
+
+export const generateUploadUrl = mutation({
+  handler: async (ctx) => {
+    await requireActorId(ctx);
+    return await ctx.storage.generateUploadUrl();
+  },
+});
+
+// A task's files, oldest first, with URLs to open them and whether they can be previewed as images
+export const listAttachments = query({
+  args: { taskId: v.id("tasks") },
+  handler: async (ctx, args) => {
+    const attachments = await ctx.db
+      .query("attachments")
+      .withIndex("by_task", (q) => q.eq("taskId", args.taskId))
+      .collect();
+    return await Promise.all(attachments.map(async (attachment) => ({
+      ...attachment,
+      url: await ctx.storage.getUrl(attachment.storageId),
+      isImage: attachment.contentType.startsWith("image/"),
+    })));
+  },
+});
+
+// Attaches a file uploaded to the URL from generateUploadUrl
+export const addAttachment = mutation({
+  args: {
+    taskId: v.id("tasks"),
+    storageId: v.id("_storage"),
+    name: v.string(), // Original file name, shown instead of the storage ID
+  },
+  handler: async (ctx, args) => {
+    const actorId = await requireActorId(ctx);
+    const file = await ctx.db.system.get(args.storageId);
+    if (!file) throw new Error("Uploaded file not found");
+    let name: string;
+    try {
+      await getActiveTask(ctx, args.taskId);
+      if (file.size > MAX_ATTACHMENT_BYTES) {
+        throw new Error(`Attachments must be at most ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`);
+      }
+      name = validateAttachmentName(args.name);
+    } catch (error) {
+      // Don't keep files nothing points at. Throwing would roll the delete back,
+      // so the rejection is returned instead.
+      await ctx.storage.delete(args.storageId);
+      return { error: error instanceof Error ? error.message : "Attachment rejected" };
+    }
+    const attachmentId = await ctx.db.insert("attachments", {
+      taskId: args.taskId,
+      storageId: args.storageId,
+      name,
+      contentType: file.contentType ?? "application/octet-stream",
+      size: file.size,
+      uploaderId: actorId,
+    });
+    await ctx.db.patch(args.taskId, { updatedAt: Date.now() });
+    return { attachment: await ctx.db.get(attachmentId) };
+  },
+});
+
+export const deleteAttachment = mutation({
+  args: { id: v.id("attachments") },
+  handler: async (ctx, args) => {
+    await requireActorId(ctx);
+    const attachment = await ctx.db.get(args.id);
+    if (!attachment) throw new Error("Attachment not found");
+    await getActiveTask(ctx, attachment.taskId);
+    await ctx.storage.delete(attachment.storageId);
+    await ctx.db.delete(args.id);
+    await ctx.db.patch(attachment.taskId, { updatedAt: Date.now() });
+  },
+});
@@ -0,0 +1,59 @@
+import { convexAuth, getAuthUserId } from "@convex-dev/auth/server";
+import { Password } from "@convex-dev/auth/providers/Password";
+import { ConvexCredentials } from "@convex-dev/auth/providers/ConvexCredentials";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { validateName } from "./users";
+
+// Signs in as a user picked by name without a password, creating the user on
+// first use. Only meant for local development (e.g. `npx convex dev --local`),
+// so it is rejected unless AUTH_DEV_LOGIN=true is set on the deployment.
+const DevLogin = ConvexCredentials({
+  id: "dev",
+  authorize: async (credentials, ctx) => {
+    if (process.env.AUTH_DEV_LOGIN !== "true") {
+      throw new Error("Dev login is disabled on this deployment");
+    }
+    if (typeof credentials.name !== "string") throw new Error("Name is required");
+    const userId: Id<"users"> = await ctx.runMutation(internal.users.getOrCreateDevUser, {
+      name: credentials.name,
+    });
+    return { userId };
+  },
+});
+
+export const { auth, signIn, signOut, store, isAuthenticated } = convexAuth({
+  providers: [
+    Password({
+      profile: (params) => ({
+        email: params.email as string,
+        name: params.name as string,
+      }),
+    }),
+    DevLogin,
+  ],
+  callbacks: {
+    async createOrUpdateUser(ctx, args) {
+      if (args.existingUserId) return args.existingUserId;
+      // New password accounts get their own row in the users table, so they
+      // show up as assignees just like users created from the admin screen
+      const name = await validateName(ctx, String(args.profile.name ?? ""));
+      return await ctx.db.insert("users", { name, email: args.profile.email });
+    },
+    async beforeSessionCreation(ctx, { userId }) {
+      const user = await ctx.db.get(userId);
+      if (user?.deactivatedAt !== undefined) throw new Error("This account is deactivated");
+    },
+  },
+});
+
+// Returns the signed-in user making the change, for mutations and history attribution
+export async function requireActorId(ctx: QueryCtx | MutationCtx): Promise<Id<"users">> {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) throw new Error("You must be signed in");
+  const user = await ctx.db.get(userId);
+  if (!user) throw new Error("You must be signed in");
+  if (user.deactivatedAt !== undefined) throw new Error("This account is deactivated");
+  return userId;
+}
@@ -0,0 +1,175 @@
+import { mutation, query, type MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+import { requireActorId } from "./auth";
+import { withAvatarUrls } from "./users";
+import { getActiveTask, recordHistory } from "./tasks";
+
+const MAX_COMMENT_LENGTH = 5000;
+// History entries keep the start of the comment so the feed can quote it
+const COMMENT_SNIPPET_LENGTH = 140;
+
+function validateCommentText(value: string): string {
+  const text = value.trim();
+  if (!text) throw new Error("Comment text is required");
+  if (text.length > MAX_COMMENT_LENGTH) {
+    throw new Error(`Comments must be at most ${MAX_COMMENT_LENGTH} characters`);
+  }
+  return text;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Users named in "@Name" mentions. Names can contain spaces, so each user's full name
+// is looked for, longest first so "@Sakura Haruno" isn't also read as "@Sakura".
+// Deactivated users can't be mentioned.
+async function resolveMentions(ctx: MutationCtx, text: string): Promise<Id<"users">[]> {
+  if (!text.includes("@")) return [];
+  const users = (await ctx.db.query("users").collect())
+    .filter((user) => user.deactivatedAt === undefined)
+    .sort((a, b) => b.name.length - a.name.length);
+  const mentioned: Id<"users">[] = [];
+  let remaining = text;
+  for (const user of users) {
+    const pattern = new RegExp(`(^|[^\\p{L}\\p{N}_])@${escapeRegExp(user.name)}(?![\\p{L}\\p{N}_])`, "giu");
+    if (pattern.test(remaining)) {
+      mentioned.push(user._id);
+      remaining = remaining.replace(pattern, "$1");
+    }
+  }
+  return mentioned;
+}
+
+// Lets mentioned users know, except the author and anyone already told about this comment
+async function notifyMentions(
+  ctx: MutationCtx,
+  comment: Doc<"comments">,
+  userIds: Id<"users">[],
+) {
+  for (const userId of userIds) {
+    if (userId === comment.authorId) continue;
+    await ctx.db.insert("notifications", {
+      userId,
+      taskId: comment.taskId,
+      type: "mention",
+      actorId: comment.authorId,
+      commentId: comment._id,
+    });
+  }
+}
+
+// Fetch a comment the signed-in user wrote, on a task that can still be changed
+async function getOwnComment(ctx: MutationCtx, id: Id<"comments">, actorId: Id<"users">) {
+  const comment = await ctx.db.get(id);
+  if (!comment) throw new Error("Comment not found");
+  if (comment.authorId !== actorId) throw new Error("Only the comment's author can change it");
+  await getActiveTask(ctx, comment.taskId);
+  return comment;
+}
+
+async function updateCommentCount(ctx: MutationCtx, taskId: Id<"tasks">, delta: number) {
+  const task = await ctx.db.get(taskId);
+  if (!task) return;
+  await ctx.db.patch(taskId, { commentCount: Math.max(0, (task.commentCount ?? 0) + delta) });
+}
+
+export async function deleteTaskComments(ctx: MutationCtx, taskId: Id<"tasks">) {
+  const comments = await ctx.db
+    .query("comments")
+    .withIndex("by_task", (q) => q.eq("taskId", taskId))
+    .collect();
+  await Promise.all(comments.map((comment) => ctx.db.delete(comment._id)));
+}
+
+// A task's thread, oldest first, with authors and mentioned users resolved
+export const listComments = query({
+  args: { taskId: v.id("tasks") },
+  handler: async (ctx, args) => {
+    const comments = await ctx.db
+      .query("comments")
+      .withIndex("by_task", (q) => q.eq("taskId", args.taskId))
+      .collect();
+    const userIds = new Set(comments.flatMap((comment) => [comment.authorId, ...comment.mentionedUserIds]));
+    const users = new Map<Id<"users">, { _id: Id<"users">; name: string; imageUrl: string | null }>();
+    await Promise.all([...userIds].map(async (id) => {
+      const user = await ctx.db.get(id);
+      if (!user) return;
+      const withUrls = await withAvatarUrls(ctx, user);
+      // Comments only show a small avatar, so prefer the thumbnail
+      users.set(id, { _id: id, name: user.name, imageUrl: withUrls.thumbnailUrl ?? withUrls.imageUrl });
+    }));
+    return comments.map((comment) => ({
+      ...comment,
+      author: users.get(comment.authorId) ?? null,
+      mentions: comment.mentionedUserIds.flatMap((id) => {
+        const user = users.get(id);
+        return user ? [{ _id: user._id, name: user.name }] : [];
+      }),
+    }));
+  },
+});
+
+// Posting is recorded in the task's history, so it shows up in the feed and stats
+export const addComment = mutation({
+  args: { taskId: v.id("tasks"), text: v.string() },
+  handler: async (ctx, args) => {
+    const actorId = await requireActorId(ctx);
+    await getActiveTask(ctx, args.taskId);
+    const text = validateCommentText(args.text);
+    const mentionedUserIds = await resolveMentions(ctx, text);
+    const commentId = await ctx.db.insert("comments", {
+      taskId: args.taskId,
+      authorId: actorId,
+      text,
+      mentionedUserIds,
+    });
+    const now = Date.now();
+    await updateCommentCount(ctx, args.taskId, 1);
+    await ctx.db.patch(args.taskId, { updatedAt: now });
+    await recordHistory(ctx, {
+      taskId: args.taskId,
+      changeType: "comment",
+      commentText: text.slice(0, COMMENT_SNIPPET_LENGTH),
+      actorId,
+      changedAt: now,
+    });
+    const comment = (await ctx.db.get(commentId))!;
+    await notifyMentions(ctx, comment, mentionedUserIds);
+    return comment;
+  },
+});
+
+// Only users mentioned for the first time are notified about an edit
+export const updateComment = mutation({
+  args: { id: v.id("comments"), text: v.string() },
+  handler: async (ctx, args) => {
+    const actorId = await requireActorId(ctx);
+    const comment = await getOwnComment(ctx, args.id, actorId);
+    const text = validateCommentText(args.text);
+    if (text === comment.text) return comment;
+    const mentionedUserIds = await resolveMentions(ctx, text);
+    await ctx.db.patch(args.id, { text, mentionedUserIds, editedAt: Date.now() });
+    const updated = (await ctx.db.get(args.id))!;
+    await notifyMentions(ctx, updated, mentionedUserIds.filter((id) => !comment.mentionedUserIds.includes(id)));
+    return updated;
+  },
+});
+
+// The "comment" history entry stays, like other history of things that are gone
+export const deleteComment = mutation({
+  args: { id: v.id("comments") },
+  handler: async (ctx, args) => {
+    const actorId = await requireActorId(ctx);
+    const comment = await getOwnComment(ctx, args.id, actorId);
+    const notifications = await ctx.db
+      .query("notifications")
+      .withIndex("by_task", (q) => q.eq("taskId", comment.taskId))
+      .filter((q) => q.eq(q.field("commentId"), args.id))
+      .collect();
+    await Promise.all(notifications.map((notification) => ctx.db.delete(notification._id)));
+    await ctx.db.delete(args.id);
+    await updateCommentCount(ctx, comment.taskId, -1);
+  },
+});
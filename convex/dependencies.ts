@@ -0,0 +1,141 @@
+import { mutation, query, type MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+import { requireActorId } from "./auth";
+import { getActiveTask, recordHistory } from "./tasks";
+
+// Dependency chains longer than this are refused rather than walked
+const MAX_DEPENDENCY_GRAPH_SIZE = 1000;
+
+// A blocker holds up the tasks depending on it until it's completed (or trashed)
+function isOpenBlocker(task: Doc<"tasks">): boolean {
+  return !task.isCompleted && task.deletedAt === undefined;
+}
+
+// Whether taskId can be reached from startId by following "blocked by" links,
+// i.e. whether startId already (indirectly) waits for taskId
+async function dependsOn(ctx: MutationCtx, startId: Id<"tasks">, taskId: Id<"tasks">): Promise<boolean> {
+  const visited = new Set<Id<"tasks">>([startId]);
+  const queue = [startId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    const edges = await ctx.db
+      .query("taskDependencies")
+      .withIndex("by_task", (q) => q.eq("taskId", current))
+      .collect();
+    for (const edge of edges) {
+      if (edge.blockedById === taskId) return true;
+      if (visited.has(edge.blockedById)) continue;
+      visited.add(edge.blockedById);
+      if (visited.size > MAX_DEPENDENCY_GRAPH_SIZE) throw new Error("Dependency chain is too long");
+      queue.push(edge.blockedById);
+    }
+  }
+  return false;
+}
+
+// Keeps openBlockerCount on the tasks a blocker holds up in sync when the blocker is
+// completed, reopened, trashed or restored. Tasks whose last open blocker was just
+// completed get an "unblocked" history entry.
+export async function updateDependents(
+  ctx: MutationCtx,
+  before: Doc<"tasks">,
+  after: Doc<"tasks">,
+  actorId: Id<"users"> | null,
+  now: number,
+) {
+  const wasOpen = isOpenBlocker(before);
+  const isOpen = isOpenBlocker(after);
+  if (wasOpen === isOpen) return;
+  const edges = await ctx.db
+    .query("taskDependencies")
+    .withIndex("by_blocker", (q) => q.eq("blockedById", after._id))
+    .collect();
+  for (const edge of edges) {
+    const dependent = await ctx.db.get(edge.taskId);
+    if (!dependent) continue;
+    const openBlockerCount = Math.max(0, (dependent.openBlockerCount ?? 0) + (isOpen ? 1 : -1));
+    await ctx.db.patch(dependent._id, { openBlockerCount });
+    if (openBlockerCount === 0 && after.isCompleted && actorId) {
+      await recordHistory(ctx, {
+        taskId: dependent._id,
+        changeType: "unblocked",
+        relatedTaskId: after._id,
+        actorId,
+        changedAt: now,
+      });
+    }
+  }
+}
+
+// Removes every link to or from a task that's being permanently deleted. It's in
+// the trash already, so it no longer counts as an open blocker anywhere.
+export async function deleteTaskDependencies(ctx: MutationCtx, taskId: Id<"tasks">) {
+  const [blockedBy, blocking] = await Promise.all([
+    ctx.db.query("taskDependencies").withIndex("by_task", (q) => q.eq("taskId", taskId)).collect(),
+    ctx.db.query("taskDependencies").withIndex("by_blocker", (q) => q.eq("blockedById", taskId)).collect(),
+  ]);
+  await Promise.all([...blockedBy, ...blocking].map((edge) => ctx.db.delete(edge._id)));
+}
+
+// The tasks a task waits for and the ones waiting for it, skipping trashed ones
+export const listDependencies = query({
+  args: { taskId: v.id("tasks") },
+  handler: async (ctx, args) => {
+    const [blockedByEdges, blockingEdges] = await Promise.all([
+      ctx.db.query("taskDependencies").withIndex("by_task", (q) => q.eq("taskId", args.taskId)).collect(),
+      ctx.db.query("taskDependencies").withIndex("by_blocker", (q) => q.eq("blockedById", args.taskId)).collect(),
+    ]);
+    const summarize = async (id: Id<"tasks">) => {
+      const task = await ctx.db.get(id);
+      if (!task || task.deletedAt !== undefined) return [];
+      return [{ _id: task._id, text: task.text, isCompleted: task.isCompleted }];
+    };
+    const [blockedBy, blocking] = await Promise.all([
+      Promise.all(blockedByEdges.map((edge) => summarize(edge.blockedById))),
+      Promise.all(blockingEdges.map((edge) => summarize(edge.taskId))),
+    ]);
+    return { blockedBy: blockedBy.flat(), blocking: blocking.flat() };
+  },
+});
+
+// Records that taskId can't start until blockedById is done
+export const addDependency = mutation({
+  args: { taskId: v.id("tasks"), blockedById: v.id("tasks") },
+  handler: async (ctx, args) => {
+    await requireActorId(ctx);
+    if (args.taskId === args.blockedById) throw new Error("A task can't depend on itself");
+    const task = await getActiveTask(ctx, args.taskId);
+    const blocker = await getActiveTask(ctx, args.blockedById);
+    const existing = await ctx.db
+      .query("taskDependencies")
+      .withIndex("by_task", (q) => q.eq("taskId", args.taskId).eq("blockedById", args.blockedById))
+      .unique();
+    if (existing) return;
+    if (await dependsOn(ctx, args.blockedById, args.taskId)) {
+      throw new Error(`"${blocker.text}" already depends on "${task.text}"`);
+    }
+    await ctx.db.insert("taskDependencies", { taskId: args.taskId, blockedById: args.blockedById });
+    if (isOpenBlocker(blocker)) {
+      await ctx.db.patch(args.taskId, { openBlockerCount: (task.openBlockerCount ?? 0) + 1 });
+    }
+  },
+});
+
+export const removeDependency = mutation({
+  args: { taskId: v.id("tasks"), blockedById: v.id("tasks") },
+  handler: async (ctx, args) => {
+    await requireActorId(ctx);
+    const task = await getActiveTask(ctx, args.taskId);
+    const edge = await ctx.db
+      .query("taskDependencies")
+      .withIndex("by_task", (q) => q.eq("taskId", args.taskId).eq("blockedById", args.blockedById))
+      .unique();
+    if (!edge) return;
+    await ctx.db.delete(edge._id);
+    const blocker = await ctx.db.get(args.blockedById);
+    if (blocker && isOpenBlocker(blocker)) {
+      await ctx.db.patch(args.taskId, { openBlockerCount: Math.max(0, (task.openBlockerCount ?? 0) - 1) });
+    }
+  },
+});
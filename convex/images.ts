@@ -0,0 +1,41 @@
+"use node";
+
+import { internalAction } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { Jimp } from "jimp";
+
+const THUMBNAIL_SIZE = 64;
+
+export const generateThumbnail = internalAction({
+  args: { userId: v.id("users"), imageId: v.id("_storage") },
+  handler: async (ctx, args) => {
+    const blob = await ctx.storage.get(args.imageId);
+    if (!blob) return;
+
+    const image = await Jimp.read(Buffer.from(await blob.arrayBuffer()));
+    image.cover({ w: THUMBNAIL_SIZE, h: THUMBNAIL_SIZE });
+    const thumbnail = await image.getBuffer("image/jpeg");
+
+    const thumbnailId = await ctx.storage.store(new Blob([new Uint8Array(thumbnail)], { type: "image/jpeg" }));
+    await ctx.runMutation(internal.users.attachThumbnail, {
+      id: args.userId,
+      imageId: args.imageId,
+      thumbnailId,
+    });
+  },
+});
+
+// One-off migration for avatars written as base64 strings (e.g. by the old
+// backfill-user-images.js script). Run with `npx convex run images:migrateBase64Images`.
+export const migrateBase64Images = internalAction({
+  handler: async (ctx): Promise<{ migrated: number }> => {
+    const users = await ctx.runQuery(internal.users.listUsersWithBase64Image);
+    for (const user of users) {
+      const bytes = Buffer.from(user.image, "base64");
+      const imageId = await ctx.storage.store(new Blob([new Uint8Array(bytes)], { type: "image/jpeg" }));
+      await ctx.runMutation(internal.users.attachImage, { id: user._id, imageId });
+    }
+    return { migrated: users.length };
+  },
+});
@@ -0,0 +1,106 @@
+import { internalMutation, mutation, query, type MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { requireActorId } from "./auth";
+
+const NOTIFICATION_LIST_LIMIT = 50;
+
+// How long before a task is due its assignee gets reminded
+export const DUE_REMINDER_LEAD_MS = 60 * 60 * 1000;
+
+// (Re)schedules the due date reminder for a task, replacing any pending one.
+// Tasks without a due date, or already past the reminder time, get none.
+export async function scheduleDueReminder(ctx: MutationCtx, task: Doc<"tasks">) {
+  await cancelDueReminder(ctx, task);
+  if (task.dueAt === undefined || task.deletedAt !== undefined) return;
+  const remindAt = task.dueAt - DUE_REMINDER_LEAD_MS;
+  if (remindAt <= Date.now()) return;
+  const dueReminderId = await ctx.scheduler.runAt(remindAt, internal.notifications.sendDueReminder, {
+    taskId: task._id,
+    dueAt: task.dueAt,
+  });
+  await ctx.db.patch(task._id, { dueReminderId });
+}
+
+export async function cancelDueReminder(ctx: MutationCtx, task: Doc<"tasks">) {
+  if (!task.dueReminderId) return;
+  const scheduled = await ctx.db.system.get(task.dueReminderId);
+  if (scheduled?.state.kind === "pending") {
+    await ctx.scheduler.cancel(task.dueReminderId);
+  }
+  await ctx.db.patch(task._id, { dueReminderId: undefined });
+}
+
+export async function deleteTaskNotifications(ctx: MutationCtx, taskId: Id<"tasks">) {
+  const notifications = await ctx.db
+    .query("notifications")
+    .withIndex("by_task", (q) => q.eq("taskId", taskId))
+    .collect();
+  await Promise.all(notifications.map((notification) => ctx.db.delete(notification._id)));
+}
+
+// Runs when a task's due date approaches. Finished, trashed and unassigned tasks
+// don't need a reminder any more; neither does one whose due date moved since.
+export const sendDueReminder = internalMutation({
+  args: { taskId: v.id("tasks"), dueAt: v.number() },
+  handler: async (ctx, args) => {
+    const task = await ctx.db.get(args.taskId);
+    if (!task || task.dueAt !== args.dueAt) return;
+    await ctx.db.patch(task._id, { dueReminderId: undefined });
+    if (task.isCompleted || task.deletedAt !== undefined || !task.userId) return;
+    await ctx.db.insert("notifications", {
+      userId: task.userId,
+      taskId: task._id,
+      type: "due",
+      dueAt: args.dueAt,
+    });
+  },
+});
+
+// The signed-in user's latest notifications, newest first
+export const listNotifications = query({
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+    const notifications = await ctx.db
+      .query("notifications")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .order("desc")
+      .take(NOTIFICATION_LIST_LIMIT);
+    return await Promise.all(notifications.map(async (notification) => {
+      const task = await ctx.db.get(notification.taskId);
+      const actor = notification.actorId ? await ctx.db.get(notification.actorId) : null;
+      return {
+        ...notification,
+        task: task ? { _id: task._id, text: task.text } : null,
+        actor: actor ? { _id: actor._id, name: actor.name } : null,
+      };
+    }));
+  },
+});
+
+export const markNotificationRead = mutation({
+  args: { id: v.id("notifications") },
+  handler: async (ctx, args) => {
+    const actorId = await requireActorId(ctx);
+    const notification = await ctx.db.get(args.id);
+    if (!notification || notification.userId !== actorId) throw new Error("Notification not found");
+    if (notification.readAt === undefined) {
+      await ctx.db.patch(args.id, { readAt: Date.now() });
+    }
+  },
+});
+
+export const markAllNotificationsRead = mutation({
+  handler: async (ctx) => {
+    const actorId = await requireActorId(ctx);
+    const unread = await ctx.db
+      .query("notifications")
+      .withIndex("by_user_read", (q) => q.eq("userId", actorId).eq("readAt", undefined))
+      .collect();
+    const now = Date.now();
+    await Promise.all(unread.map((notification) => ctx.db.patch(notification._id, { readAt: now })));
+  },
+});
@@ -0,0 +1,15 @@
+import type { Doc } from "./_generated/dataModel";
+import { v, type Infer } from "convex/values";
+
+// P0 is the most urgent, P3 the least. P0 and P1 are the important levels.
+export const priorityValidator = v.union(v.literal(0), v.literal(1), v.literal(2), v.literal(3));
+export type Priority = Infer<typeof priorityValidator>;
+
+export const DEFAULT_PRIORITY: Priority = 2;
+// Tasks marked important before priorities existed start out at this level
+export const IMPORTANT_PRIORITY: Priority = 1;
+
+// Level of a task, counting tasks not migrated yet by their old isImportant flag
+export function getPriority(task: Doc<"tasks">): Priority {
+  return task.priority ?? (task.isImportant ? IMPORTANT_PRIORITY : DEFAULT_PRIORITY);
+}
@@ -0,0 +1,115 @@
+import { mutation, query, type MutationCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+import { requireActorId } from "./auth";
+import { validateColor } from "./users";
+import { ensureWorkflow } from "./statuses";
+
+const MAX_PROJECT_NAME_LENGTH = 50;
+const DEFAULT_PROJECT_COLOR = "#3B82F6";
+
+async function validateProjectName(ctx: MutationCtx, value: string, currentProjectId?: Id<"projects">): Promise<string> {
+  const name = value.trim();
+  if (!name) throw new Error("Project name is required");
+  if (name.length > MAX_PROJECT_NAME_LENGTH) {
+    throw new Error(`Project name must be at most ${MAX_PROJECT_NAME_LENGTH} characters`);
+  }
+  const existing = await ctx.db
+    .query("projects")
+    .withIndex("by_name", (q) => q.eq("name", name))
+    .first();
+  if (existing && existing._id !== currentProjectId) {
+    throw new Error(`A project named "${name}" already exists`);
+  }
+  return name;
+}
+
+// Fetch a project the signed-in user may change
+export async function getOwnedProject(ctx: MutationCtx, id: Id<"projects">, actorId: Id<"users">) {
+  const project = await ctx.db.get(id);
+  if (!project) throw new Error("Project not found");
+  if (project.ownerId !== actorId) throw new Error("Only the project's owner can change it");
+  return project;
+}
+
+// Fetch a project tasks can be added to or moved into
+export async function getOpenProject(ctx: MutationCtx, id: Id<"projects">) {
+  const project = await ctx.db.get(id);
+  if (!project) throw new Error("Project not found");
+  if (project.archivedAt !== undefined) throw new Error(`"${project.name}" is archived`);
+  return project;
+}
+
+// Projects by name, with archived ones last
+export const listProjects = query({
+  args: { includeArchived: v.optional(v.boolean()) },
+  handler: async (ctx, args) => {
+    const projects = await ctx.db.query("projects").collect();
+    return projects
+      .filter((project) => args.includeArchived || project.archivedAt === undefined)
+      .sort((a, b) => Number(a.archivedAt !== undefined) - Number(b.archivedAt !== undefined)
+        || a.name.localeCompare(b.name));
+  },
+});
+
+export const createProject = mutation({
+  args: {
+    name: v.string(),
+    color: v.optional(v.string()), // Hex color code
+  },
+  handler: async (ctx, args) => {
+    const actorId = await requireActorId(ctx);
+    const name = await validateProjectName(ctx, args.name);
+    const projectId = await ctx.db.insert("projects", {
+      name,
+      color: validateColor(args.color ?? DEFAULT_PROJECT_COLOR),
+      ownerId: actorId,
+    });
+    await ensureWorkflow(ctx, projectId);
+    return await ctx.db.get(projectId);
+  },
+});
+
+export const updateProject = mutation({
+  args: {
+    id: v.id("projects"),
+    name: v.optional(v.string()),
+    color: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const actorId = await requireActorId(ctx);
+    await getOwnedProject(ctx, args.id, actorId);
+
+    const patch: { name?: string; color?: string } = {};
+    if (args.name !== undefined) {
+      patch.name = await validateProjectName(ctx, args.name, args.id);
+    }
+    if (args.color !== undefined) {
+      patch.color = validateColor(args.color);
+    }
+    await ctx.db.patch(args.id, patch);
+    return await ctx.db.get(args.id);
+  },
+});
+
+// Archiving keeps the project's tasks where they are; they just can't be joined by new ones
+export const archiveProject = mutation({
+  args: { id: v.id("projects") },
+  handler: async (ctx, args) => {
+    const actorId = await requireActorId(ctx);
+    const project = await getOwnedProject(ctx, args.id, actorId);
+    if (project.archivedAt !== undefined) return project;
+    await ctx.db.patch(args.id, { archivedAt: Date.now() });
+    return await ctx.db.get(args.id);
+  },
+});
+
+export const unarchiveProject = mutation({
+  args: { id: v.id("projects") },
+  handler: async (ctx, args) => {
+    const actorId = await requireActorId(ctx);
+    await getOwnedProject(ctx, args.id, actorId);
+    await ctx.db.patch(args.id, { archivedAt: undefined });
+    return await ctx.db.get(args.id);
+  },
+});
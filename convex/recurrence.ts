@@ -0,0 +1,122 @@
+import { v, type Infer } from "convex/values";
+import { getZonedParts, zonedTimeToTimestamp } from "./zonedTime";
+
+// Recurring tasks store an RRULE subset plus the zone its days are counted in:
+//   FREQ=DAILY|WEEKLY|MONTHLY        required
+//   INTERVAL=n                       every n days/weeks/months, 1 to 365 (default 1)
+//   BYDAY=MO,TU,...                  WEEKLY only: weekdays to repeat on (default: the due date's)
+//   BYMONTHDAY=d                     MONTHLY only: day of month, 1 to 31 (default: the due date's)
+// Without BYMONTHDAY a task due on the 31st moves to the 30th after a 30-day month and stays there.
+export const recurrenceValidator = v.object({
+  rule: v.string(),
+  timeZone: v.string(),
+});
+export type Recurrence = Infer<typeof recurrenceValidator>;
+
+type Frequency = "DAILY" | "WEEKLY" | "MONTHLY";
+
+type ParsedRule = {
+  freq: Frequency;
+  interval: number;
+  byDay?: number[]; // 0 = Monday ... 6 = Sunday
+  byMonthDay?: number;
+};
+
+const MAX_INTERVAL = 365;
+const WEEKDAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"];
+
+function parseRule(rule: string): ParsedRule {
+  const parts = new Map<string, string>();
+  for (const part of rule.trim().replace(/^RRULE:/i, "").split(";")) {
+    if (!part) continue;
+    const [key, value] = part.split("=");
+    if (!key || value === undefined) throw new Error(`Invalid recurrence rule part: ${part}`);
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = parts.get("FREQ");
+  if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY") {
+    throw new Error("Recurrence must repeat DAILY, WEEKLY or MONTHLY");
+  }
+  const parsed: ParsedRule = { freq, interval: 1 };
+
+  for (const [key, value] of parts) {
+    if (key === "FREQ") continue;
+    if (key === "INTERVAL") {
+      const interval = Number(value);
+      if (!Number.isInteger(interval) || interval < 1 || interval > MAX_INTERVAL) {
+        throw new Error(`INTERVAL must be a whole number between 1 and ${MAX_INTERVAL}`);
+      }
+      parsed.interval = interval;
+    } else if (key === "BYDAY" && freq === "WEEKLY") {
+      const days = value.split(",").map((day) => WEEKDAYS.indexOf(day));
+      if (days.length === 0 || days.includes(-1)) {
+        throw new Error("BYDAY must list weekdays as MO, TU, WE, TH, FR, SA or SU");
+      }
+      parsed.byDay = [...new Set(days)].sort((a, b) => a - b);
+    } else if (key === "BYMONTHDAY" && freq === "MONTHLY") {
+      const day = Number(value);
+      if (!Number.isInteger(day) || day < 1 || day > 31) {
+        throw new Error("BYMONTHDAY must be a day of the month between 1 and 31");
+      }
+      parsed.byMonthDay = day;
+    } else {
+      throw new Error(`${key} isn't supported for ${freq} recurrence`);
+    }
+  }
+  return parsed;
+}
+
+// Checks the rule and writes it in a canonical form, e.g. "FREQ=WEEKLY;BYDAY=MO,FR"
+export function normalizeRule(rule: string): string {
+  const parsed = parseRule(rule);
+  const parts = [`FREQ=${parsed.freq}`];
+  if (parsed.interval !== 1) parts.push(`INTERVAL=${parsed.interval}`);
+  if (parsed.byDay) parts.push(`BYDAY=${parsed.byDay.map((day) => WEEKDAYS[day]).join(",")}`);
+  if (parsed.byMonthDay !== undefined) parts.push(`BYMONTHDAY=${parsed.byMonthDay}`);
+  return parts.join(";");
+}
+
+// Weekday of a calendar date, 0 = Monday
+function weekdayOf(year: number, month: number, day: number): number {
+  return (new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7;
+}
+
+// The occurrence after dueAt, at the same wall-clock time in the rule's zone.
+// Monthly days past the end of a shorter month fall on its last day.
+function occurrenceAfter(dueAt: number, rule: ParsedRule, timeZone: string): number {
+  const due = getZonedParts(dueAt, timeZone);
+
+  if (rule.freq === "DAILY") {
+    return zonedTimeToTimestamp({ ...due, day: due.day + rule.interval }, timeZone);
+  }
+
+  if (rule.freq === "WEEKLY") {
+    const days = rule.byDay ?? [weekdayOf(due.year, due.month, due.day)];
+    const dueWeekday = weekdayOf(due.year, due.month, due.day);
+    // Later weekdays in the same week come first, then the first one in the next active week
+    const laterThisWeek = days.find((day) => day > dueWeekday);
+    const offset = laterThisWeek !== undefined
+      ? laterThisWeek - dueWeekday
+      : 7 * rule.interval - dueWeekday + days[0];
+    return zonedTimeToTimestamp({ ...due, day: due.day + offset }, timeZone);
+  }
+
+  const targetDay = rule.byMonthDay ?? due.day;
+  const monthIndex = due.month - 1 + rule.interval;
+  const year = due.year + Math.floor(monthIndex / 12);
+  const month = (monthIndex % 12) + 1;
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return zonedTimeToTimestamp({ ...due, year, month, day: Math.min(targetDay, daysInMonth) }, timeZone);
+}
+
+// Due date of the next occurrence: the first one after the current due date that
+// is still in the future, so finishing a task late doesn't leave it overdue again
+export function nextOccurrence(dueAt: number, recurrence: Recurrence, now: number): number {
+  const rule = parseRule(recurrence.rule);
+  let next = occurrenceAfter(dueAt, rule, recurrence.timeZone);
+  while (next <= now) {
+    next = occurrenceAfter(next, rule, recurrence.timeZone);
+  }
+  return next;
+}
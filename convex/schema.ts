@@ -1,27 +1,196 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
+import { authTables } from "@convex-dev/auth/server";
+import { recurrenceValidator } from "./recurrence";
+import { priorityValidator } from "./priorities";
 
 export default defineSchema({
+  ...authTables,
+  // Replaces the users table from authTables; sign-in accounts link to these rows
   users: defineTable({
     name: v.string(),
-    image: v.optional(v.string()), // Base64-encoded image
+    email: v.optional(v.string()), // Set for users who sign in with a password
+    image: v.optional(v.string()), // Legacy base64-encoded image, cleared by images:migrateBase64Images
+    imageId: v.optional(v.id("_storage")), // Original avatar in file storage
+    thumbnailId: v.optional(v.id("_storage")), // Small avatar generated from imageId
     color: v.optional(v.string()), // Hex color code
-  }),
+    deactivatedAt: v.optional(v.number()), // Deactivated users keep their tasks but can't be assigned new ones
+    timeZone: v.optional(v.string()), // IANA zone dates are shown and bucketed in; UTC when unset
+  }).index("by_name", ["name"])
+    .index("email", ["email"]),
   tasks: defineTable({
     text: v.string(),
     description: v.optional(v.string()),
     isCompleted: v.boolean(),
-    isImportant: v.optional(v.boolean()),
+    isImportant: v.optional(v.boolean()), // Replaced by priority; cleared by tasks:migratePriorities
+    priority: v.optional(priorityValidator), // 0 (P0, most urgent) to 3 (P3); unset only on tasks not migrated yet
     createdAt: v.optional(v.number()),
     updatedAt: v.optional(v.number()),
     duration: v.optional(v.number()), // Duration in minutes
     userId: v.optional(v.id("users")), // Optional for backward compatibility
-  }).index("by_user", ["userId"]),
+    deletedAt: v.optional(v.number()), // Set when the task is moved to the trash
+    historyCount: v.optional(v.number()), // Number of taskHistory entries, kept in sync by recordHistory
+    lastChangedAt: v.optional(v.number()), // changedAt of the latest taskHistory entry
+    dueAt: v.optional(v.number()), // When the task is due, in ms
+    dueReminderId: v.optional(v.id("_scheduled_functions")), // Pending reminder for dueAt
+    recurrence: v.optional(recurrenceValidator), // Repeat rule; completing the task creates the next occurrence
+    nextOccurrenceId: v.optional(v.id("tasks")), // Occurrence created when this one was completed
+    subtaskCount: v.optional(v.number()), // Number of checklist items, kept in sync by subtasks.ts
+    completedSubtaskCount: v.optional(v.number()), // Number of those that are checked off
+    openBlockerCount: v.optional(v.number()), // Tasks this one depends on that aren't done yet; blocked while above 0
+    projectId: v.optional(v.id("projects")), // Project the task belongs to; unset for tasks outside any project
+    commentCount: v.optional(v.number()), // Number of comments, kept in sync by comments.ts
+    trackedMs: v.optional(v.number()), // Time in finished timeEntries, kept in sync by timeEntries.ts
+    actualDuration: v.optional(v.number()), // Minutes the task actually took, recorded when it's completed; compare with duration
+    statusId: v.optional(v.id("statuses")), // Step of the project's workflow; isCompleted mirrors its isDone. Unset only on tasks not migrated yet
+  }).index("by_user", ["userId"])
+    .index("by_status", ["statusId"])
+    .index("by_deleted_at", ["deletedAt"])
+    .index("by_updated_at", ["deletedAt", "updatedAt"])
+    .index("by_created_at", ["deletedAt", "createdAt"])
+    .index("by_duration", ["deletedAt", "duration"])
+    .index("by_history_count", ["deletedAt", "historyCount"])
+    .index("by_due_at", ["deletedAt", "dueAt"])
+    .index("by_priority", ["deletedAt", "priority", "isImportant"]) // isImportant orders tasks not migrated to priorities yet
+    .searchIndex("search_text", {
+      searchField: "text",
+      filterFields: ["userId", "isCompleted", "deletedAt", "projectId"],
+    })
+    .searchIndex("search_description", {
+      searchField: "description",
+      filterFields: ["userId", "isCompleted", "deletedAt", "projectId"],
+    }),
   taskHistory: defineTable({
     taskId: v.id("tasks"),
-    changeType: v.optional(v.string()), // "completion" or "importance"
-    changedTo: v.boolean(), // true = completed/important, false = incomplete/not-important
+    changeType: v.optional(v.string()), // "created", "completion", "importance", "edit", "assignment", "recurrence", "subtask", "unblocked", "comment", "priority" or "status"
+    changedTo: v.optional(v.boolean()), // true = completed/important/checked off/priority raised, false = incomplete/not-important/unchecked/priority lowered (unset for other change types)
+    changes: v.optional(v.array(v.object({
+      field: v.string(), // "text", "description", "duration", "dueAt", "recurrence" or "project" (project names)
+      from: v.optional(v.union(v.string(), v.number())),
+      to: v.optional(v.union(v.string(), v.number())),
+    }))), // Per-field before/after values for "edit" entries
+    fromUserId: v.optional(v.id("users")), // Previous assignee for "assignment" entries
+    toUserId: v.optional(v.id("users")), // New assignee for "assignment" entries
+    fromPriority: v.optional(priorityValidator), // Previous level for "priority" entries
+    toPriority: v.optional(priorityValidator), // New level for "priority" entries
+    fromStatus: v.optional(v.string()), // Previous status name for "status" and "completion" entries
+    toStatus: v.optional(v.string()), // New status name for "status" and "completion" entries
+    subtaskText: v.optional(v.string()), // Checklist item's text at the time, for "subtask" entries
+    commentText: v.optional(v.string()), // Start of the comment as posted, for "comment" entries
+    relatedTaskId: v.optional(v.id("tasks")), // Next occurrence for "recurrence" entries; previous one for "created" entries of occurrences; completed blocker for "unblocked" entries
+    actorId: v.optional(v.id("users")), // Signed-in user who made the change (unset for entries recorded before sign-in existed)
+    taskUserId: v.optional(v.id("users")), // Copy of the task's current assignee, so the feed can filter by it
+    taskDeletedAt: v.optional(v.number()), // Copy of the task's deletedAt, so the feed can skip trashed tasks
+    taskProjectId: v.optional(v.id("projects")), // Copy of the task's current project, so the feed can be scoped to it
     changedAt: v.number(),
   }).index("by_task", ["taskId"])
-    .index("by_changed_at", ["changedAt"]),
-});
\ No newline at end of file
+    .index("by_actor", ["actorId", "changedAt"])
+    .index("by_change_type", ["changeType", "changedAt"])
+    // Latest changes feed: one index per project/change-type combination, all ordered by changedAt
+    .index("by_feed", ["taskDeletedAt", "changedAt"])
+    .index("by_feed_change_type", ["taskDeletedAt", "changeType", "changedTo", "changedAt"])
+    .index("by_feed_project", ["taskDeletedAt", "taskProjectId", "changedAt"])
+    .index("by_feed_project_change_type", ["taskDeletedAt", "taskProjectId", "changeType", "changedTo", "changedAt"]),
+  // Lists that group tasks, e.g. per team or client
+  projects: defineTable({
+    name: v.string(),
+    color: v.string(), // Hex color code
+    ownerId: v.id("users"), // Only the owner can rename or archive the project
+    archivedAt: v.optional(v.number()), // Archived projects are hidden from the switcher and take no new tasks
+  }).index("by_name", ["name"]),
+  // Steps of a project's workflow, e.g. To do → In progress → Done. Tasks outside any project
+  // share the workflow without a projectId. Each workflow has at least one open and one done status.
+  statuses: defineTable({
+    projectId: v.optional(v.id("projects")),
+    name: v.string(),
+    color: v.string(), // Hex color code
+    isDone: v.boolean(), // Tasks in this status count as completed
+    order: v.number(), // Position within the workflow; not necessarily contiguous
+  }).index("by_project_order", ["projectId", "order"]),
+  // Labels that can be put on any number of tasks
+  tags: defineTable({
+    name: v.string(),
+    color: v.string(), // Hex color code
+  }).index("by_name", ["name"]),
+  // Which tasks carry which tags
+  taskTags: defineTable({
+    taskId: v.id("tasks"),
+    tagId: v.id("tags"),
+  }).index("by_task", ["taskId", "tagId"])
+    .index("by_tag", ["tagId"]),
+  // Checklist items of a task, in the order they're shown
+  subtasks: defineTable({
+    taskId: v.id("tasks"),
+    text: v.string(),
+    isCompleted: v.boolean(),
+    order: v.number(), // Position within the task's checklist; not necessarily contiguous
+  }).index("by_task_order", ["taskId", "order"]),
+  // "taskId can't start until blockedById is done". Links never form a cycle.
+  taskDependencies: defineTable({
+    taskId: v.id("tasks"),
+    blockedById: v.id("tasks"),
+  }).index("by_task", ["taskId", "blockedById"])
+    .index("by_blocker", ["blockedById"]),
+  // Discussion on a task, in markdown. Mentions are "@Name" of users in the users table.
+  comments: defineTable({
+    taskId: v.id("tasks"),
+    authorId: v.id("users"),
+    text: v.string(),
+    mentionedUserIds: v.array(v.id("users")), // Users the text @mentions, resolved when it was last saved
+    editedAt: v.optional(v.number()),
+  }).index("by_task", ["taskId"]),
+  // Files attached to a task. The file itself is in storage; it's deleted with the row.
+  attachments: defineTable({
+    taskId: v.id("tasks"),
+    storageId: v.id("_storage"),
+    name: v.string(), // File name as uploaded
+    contentType: v.string(), // MIME type; "image/*" files get a preview
+    size: v.number(), // In bytes
+    uploaderId: v.id("users"),
+  }).index("by_task", ["taskId"]),
+  // Time actually spent on a task, tracked with the start/stop timer or entered by hand.
+  // Each user has at most one running entry at a time.
+  timeEntries: defineTable({
+    taskId: v.id("tasks"),
+    userId: v.id("users"), // Who spent the time
+    startedAt: v.number(),
+    endedAt: v.optional(v.number()), // Unset while the timer is running
+  }).index("by_task", ["taskId", "startedAt"])
+    .index("by_user", ["userId", "endedAt"]),
+  // Finished time each user tracked per project, kept in sync by timeEntries.ts.
+  // Tasks in the trash don't count.
+  timeTotals: defineTable({
+    userId: v.id("users"), // Who spent the time
+    projectId: v.optional(v.id("projects")), // Project of the tasks; unset for tasks outside any project
+    trackedMs: v.number(),
+  }).index("by_project_user", ["projectId", "userId"]),
+  // Per-day change counts for the activity chart, kept in sync with taskHistory.
+  // Days start at midnight in the row's zone, so the rollup is kept once per zone.
+  dailyActivity: defineTable({
+    timeZone: v.optional(v.string()), // IANA zone; unset for UTC
+    day: v.number(), // Start of the day (midnight in timeZone) in ms
+    userId: v.id("users"), // Owner of the changed tasks
+    changeType: v.string(), // Same values as taskHistory.changeType
+    projectId: v.optional(v.id("projects")), // Project of the changed tasks; unset for tasks outside any project
+    count: v.number(),
+  }).index("by_zone_day", ["timeZone", "day"])
+    .index("by_zone_user_day", ["timeZone", "userId", "day", "changeType", "projectId"])
+    .index("by_zone_project_day", ["timeZone", "projectId", "day"]),
+  // Zones besides UTC that users have picked and dailyActivity is kept in
+  activityTimeZones: defineTable({
+    timeZone: v.string(),
+    backfilledAt: v.optional(v.number()), // Unset until history from before the zone was picked is counted
+  }).index("by_time_zone", ["timeZone"]),
+  // In-app notifications, e.g. reminders that a task is about to be due
+  notifications: defineTable({
+    userId: v.id("users"), // Recipient
+    taskId: v.id("tasks"),
+    type: v.union(v.literal("due"), v.literal("mention")),
+    dueAt: v.optional(v.number()), // Due date the "due" reminder was sent for
+    actorId: v.optional(v.id("users")), // Who wrote the comment, for "mention" notifications
+    commentId: v.optional(v.id("comments")), // Comment the recipient was mentioned in
+    readAt: v.optional(v.number()),
+  }).index("by_user", ["userId"])
+    .index("by_user_read", ["userId", "readAt"])
+    .index("by_task", ["taskId"]),
+});
@@ -0,0 +1,196 @@
+import { mutation, query, type MutationCtx, type QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+import { requireActorId } from "./auth";
+import { validateColor } from "./users";
+import { getOwnedProject } from "./projects";
+
+const MAX_STATUS_NAME_LENGTH = 30;
+const DEFAULT_STATUS_COLOR = "#737373";
+
+// Every workflow starts out with these
+const DEFAULT_STATUSES = [
+  { name: "To do", color: "#737373", isDone: false },
+  { name: "In progress", color: "#3B82F6", isDone: false },
+  { name: "In review", color: "#A855F7", isDone: false },
+  { name: "Done", color: "#22C55E", isDone: true },
+];
+
+async function validateStatusName(
+  ctx: MutationCtx,
+  value: string,
+  projectId: Id<"projects"> | undefined,
+  currentStatusId?: Id<"statuses">,
+): Promise<string> {
+  const name = value.trim();
+  if (!name) throw new Error("Status name is required");
+  if (name.length > MAX_STATUS_NAME_LENGTH) {
+    throw new Error(`Status name must be at most ${MAX_STATUS_NAME_LENGTH} characters`);
+  }
+  const workflow = await getWorkflow(ctx, projectId);
+  const existing = workflow.find((status) => status.name.toLowerCase() === name.toLowerCase());
+  if (existing && existing._id !== currentStatusId) {
+    throw new Error(`A status named "${existing.name}" already exists`);
+  }
+  return name;
+}
+
+// Only a project's owner can change its workflow; anyone signed in can change the one shared by tasks outside projects
+async function getEditableStatus(ctx: MutationCtx, id: Id<"statuses">, actorId: Id<"users">) {
+  const status = await ctx.db.get(id);
+  if (!status) throw new Error("Status not found");
+  if (status.projectId) await getOwnedProject(ctx, status.projectId, actorId);
+  return status;
+}
+
+// Throws unless the workflow would still have an open and a done status without this one
+async function checkKeepsBothKinds(ctx: MutationCtx, status: Doc<"statuses">) {
+  const workflow = await getWorkflow(ctx, status.projectId);
+  if (!workflow.some((other) => other._id !== status._id && other.isDone === status.isDone)) {
+    throw new Error(`A workflow needs at least one ${status.isDone ? "done" : "open"} status`);
+  }
+}
+
+async function countTasksInStatus(ctx: QueryCtx, statusId: Id<"statuses">) {
+  const tasks = await ctx.db
+    .query("tasks")
+    .withIndex("by_status", (q) => q.eq("statusId", statusId))
+    .collect();
+  return tasks.length;
+}
+
+// A project's statuses in order; tasks outside any project use the ones without a projectId
+export async function getWorkflow(ctx: QueryCtx, projectId: Id<"projects"> | undefined) {
+  return await ctx.db
+    .query("statuses")
+    .withIndex("by_project_order", (q) => q.eq("projectId", projectId))
+    .collect();
+}
+
+// Same, first giving workflows that have no statuses yet the default ones
+export async function ensureWorkflow(ctx: MutationCtx, projectId: Id<"projects"> | undefined) {
+  const workflow = await getWorkflow(ctx, projectId);
+  if (workflow.length > 0) return workflow;
+  for (const [order, status] of DEFAULT_STATUSES.entries()) {
+    await ctx.db.insert("statuses", { ...status, projectId, order });
+  }
+  return await getWorkflow(ctx, projectId);
+}
+
+// Where tasks go when they're created, checked off or reopened: the workflow's first open or done status
+export async function getDefaultStatus(ctx: MutationCtx, projectId: Id<"projects"> | undefined, isDone: boolean) {
+  const workflow = await ensureWorkflow(ctx, projectId);
+  const status = workflow.find((s) => s.isDone === isDone);
+  if (!status) throw new Error(`Workflow has no ${isDone ? "done" : "open"} status`);
+  return status;
+}
+
+// Status for a task moving to another project: the one with the same name, else the first
+// that's just as done, so moving never completes or reopens the task
+export async function getMatchingStatus(ctx: MutationCtx, task: Doc<"tasks">, projectId: Id<"projects"> | undefined) {
+  const current = task.statusId ? await ctx.db.get(task.statusId) : null;
+  const workflow = await ensureWorkflow(ctx, projectId);
+  return workflow.find((s) => s.name === current?.name && s.isDone === task.isCompleted)
+    ?? await getDefaultStatus(ctx, projectId, task.isCompleted);
+}
+
+// Statuses in workflow order. projectId null gives the workflow of tasks outside projects;
+// leaving it out gives every workflow's.
+export const listStatuses = query({
+  args: { projectId: v.optional(v.union(v.id("projects"), v.null())) },
+  handler: async (ctx, args) => {
+    if (args.projectId !== undefined) {
+      return await getWorkflow(ctx, args.projectId ?? undefined);
+    }
+    return await ctx.db.query("statuses").withIndex("by_project_order").collect();
+  },
+});
+
+export const createStatus = mutation({
+  args: {
+    projectId: v.union(v.id("projects"), v.null()), // null for the workflow of tasks outside projects
+    name: v.string(),
+    color: v.optional(v.string()), // Hex color code
+    isDone: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const actorId = await requireActorId(ctx);
+    const projectId = args.projectId ?? undefined;
+    if (projectId) await getOwnedProject(ctx, projectId, actorId);
+    const workflow = await ensureWorkflow(ctx, projectId);
+    const statusId = await ctx.db.insert("statuses", {
+      projectId,
+      name: await validateStatusName(ctx, args.name, projectId),
+      color: validateColor(args.color ?? DEFAULT_STATUS_COLOR),
+      isDone: args.isDone,
+      order: workflow[workflow.length - 1].order + 1,
+    });
+    return await ctx.db.get(statusId);
+  },
+});
+
+// Renaming a status leaves history entries with the name they were recorded with
+export const updateStatus = mutation({
+  args: {
+    id: v.id("statuses"),
+    name: v.optional(v.string()),
+    color: v.optional(v.string()),
+    isDone: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const actorId = await requireActorId(ctx);
+    const status = await getEditableStatus(ctx, args.id, actorId);
+
+    const patch: { name?: string; color?: string; isDone?: boolean } = {};
+    if (args.name !== undefined) {
+      patch.name = await validateStatusName(ctx, args.name, status.projectId, args.id);
+    }
+    if (args.color !== undefined) {
+      patch.color = validateColor(args.color);
+    }
+    if (args.isDone !== undefined && args.isDone !== status.isDone) {
+      // Tasks in the status would silently be completed or reopened
+      const taskCount = await countTasksInStatus(ctx, args.id);
+      if (taskCount > 0) {
+        throw new Error(`Move the ${taskCount} task${taskCount === 1 ? "" : "s"} in "${status.name}" to another status first`);
+      }
+      await checkKeepsBothKinds(ctx, status);
+      patch.isDone = args.isDone;
+    }
+    await ctx.db.patch(args.id, patch);
+    return await ctx.db.get(args.id);
+  },
+});
+
+export const moveStatus = mutation({
+  args: { id: v.id("statuses"), direction: v.union(v.literal("up"), v.literal("down")) },
+  handler: async (ctx, args) => {
+    const actorId = await requireActorId(ctx);
+    const status = await getEditableStatus(ctx, args.id, actorId);
+    const neighbour = await ctx.db
+      .query("statuses")
+      .withIndex("by_project_order", (q) => args.direction === "up"
+        ? q.eq("projectId", status.projectId).lt("order", status.order)
+        : q.eq("projectId", status.projectId).gt("order", status.order))
+      .order(args.direction === "up" ? "desc" : "asc")
+      .first();
+    if (!neighbour) return;
+    await ctx.db.patch(status._id, { order: neighbour.order });
+    await ctx.db.patch(neighbour._id, { order: status.order });
+  },
+});
+
+// Only empty statuses can be deleted, counting tasks in the trash
+export const deleteStatus = mutation({
+  args: { id: v.id("statuses") },
+  handler: async (ctx, args) => {
+    const actorId = await requireActorId(ctx);
+    const status = await getEditableStatus(ctx, args.id, actorId);
+    const taskCount = await countTasksInStatus(ctx, args.id);
+    if (taskCount > 0) {
+      throw new Error(`Move the ${taskCount} task${taskCount === 1 ? "" : "s"} in "${status.name}" to another status first`);
+    }
+    await checkKeepsBothKinds(ctx, status);
+    await ctx.db.delete(args.id);
+  },
+});
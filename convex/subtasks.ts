@@ -0,0 +1,163 @@
+import { mutation, query, type MutationCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+import { requireActorId } from "./auth";
+import { getActiveTask, recordHistory } from "./tasks";
+
+const MAX_SUBTASK_TEXT_LENGTH = 200;
+const MAX_SUBTASKS_PER_TASK = 100;
+
+function validateSubtaskText(value: string): string {
+  const text = value.trim();
+  if (!text) throw new Error("Checklist item text is required");
+  if (text.length > MAX_SUBTASK_TEXT_LENGTH) {
+    throw new Error(`Checklist item text must be at most ${MAX_SUBTASK_TEXT_LENGTH} characters`);
+  }
+  return text;
+}
+
+async function getTaskSubtasks(ctx: MutationCtx, taskId: Id<"tasks">) {
+  return await ctx.db
+    .query("subtasks")
+    .withIndex("by_task_order", (q) => q.eq("taskId", taskId))
+    .collect();
+}
+
+// Fetch a subtask whose task can still be changed
+async function getActiveSubtask(ctx: MutationCtx, id: Id<"subtasks">) {
+  const subtask = await ctx.db.get(id);
+  if (!subtask) throw new Error("Checklist item not found");
+  const task = await getActiveTask(ctx, subtask.taskId);
+  return { subtask, task };
+}
+
+// Recounts the task's checklist so the progress shown on cards stays in sync
+async function updateSubtaskCounts(ctx: MutationCtx, taskId: Id<"tasks">, now: number) {
+  const subtasks = await getTaskSubtasks(ctx, taskId);
+  await ctx.db.patch(taskId, {
+    subtaskCount: subtasks.length,
+    completedSubtaskCount: subtasks.filter((subtask) => subtask.isCompleted).length,
+    updatedAt: now,
+  });
+}
+
+// Gives a new occurrence of a recurring task the same checklist, all unchecked
+export async function copySubtasks(ctx: MutationCtx, fromTaskId: Id<"tasks">, toTaskId: Id<"tasks">) {
+  const subtasks = await getTaskSubtasks(ctx, fromTaskId);
+  for (const subtask of subtasks) {
+    await ctx.db.insert("subtasks", {
+      taskId: toTaskId,
+      text: subtask.text,
+      isCompleted: false,
+      order: subtask.order,
+    });
+  }
+  if (subtasks.length > 0) {
+    await ctx.db.patch(toTaskId, { subtaskCount: subtasks.length, completedSubtaskCount: 0 });
+  }
+}
+
+export async function deleteTaskSubtasks(ctx: MutationCtx, taskId: Id<"tasks">) {
+  const subtasks = await getTaskSubtasks(ctx, taskId);
+  await Promise.all(subtasks.map((subtask) => ctx.db.delete(subtask._id)));
+}
+
+export const listSubtasks = query({
+  args: { taskId: v.id("tasks") },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("subtasks")
+      .withIndex("by_task_order", (q) => q.eq("taskId", args.taskId))
+      .collect();
+  },
+});
+
+export const addSubtask = mutation({
+  args: { taskId: v.id("tasks"), text: v.string() },
+  handler: async (ctx, args) => {
+    await requireActorId(ctx);
+    const task = await getActiveTask(ctx, args.taskId);
+    const text = validateSubtaskText(args.text);
+    if ((task.subtaskCount ?? 0) >= MAX_SUBTASKS_PER_TASK) {
+      throw new Error(`A task can have at most ${MAX_SUBTASKS_PER_TASK} checklist items`);
+    }
+    const last = await ctx.db
+      .query("subtasks")
+      .withIndex("by_task_order", (q) => q.eq("taskId", args.taskId))
+      .order("desc")
+      .first();
+    const id = await ctx.db.insert("subtasks", {
+      taskId: args.taskId,
+      text,
+      isCompleted: false,
+      order: (last?.order ?? -1) + 1,
+    });
+    await updateSubtaskCounts(ctx, args.taskId, Date.now());
+    return await ctx.db.get(id);
+  },
+});
+
+export const updateSubtask = mutation({
+  args: { id: v.id("subtasks"), text: v.string() },
+  handler: async (ctx, args) => {
+    await requireActorId(ctx);
+    const { subtask } = await getActiveSubtask(ctx, args.id);
+    const text = validateSubtaskText(args.text);
+    if (text === subtask.text) return subtask;
+    await ctx.db.patch(args.id, { text });
+    await ctx.db.patch(subtask.taskId, { updatedAt: Date.now() });
+    return await ctx.db.get(args.id);
+  },
+});
+
+// Checking items off is recorded in the task's history, so it shows up in the feed and stats
+export const toggleSubtask = mutation({
+  args: { id: v.id("subtasks") },
+  handler: async (ctx, args) => {
+    const actorId = await requireActorId(ctx);
+    const { subtask } = await getActiveSubtask(ctx, args.id);
+    const now = Date.now();
+    const newStatus = !subtask.isCompleted;
+    await ctx.db.patch(args.id, { isCompleted: newStatus });
+    await updateSubtaskCounts(ctx, subtask.taskId, now);
+    await recordHistory(ctx, {
+      taskId: subtask.taskId,
+      changeType: "subtask",
+      changedTo: newStatus,
+      subtaskText: subtask.text,
+      actorId,
+      changedAt: now,
+    });
+    return await ctx.db.get(args.id);
+  },
+});
+
+// Swaps the item with its neighbour above or below
+export const moveSubtask = mutation({
+  args: { id: v.id("subtasks"), direction: v.union(v.literal("up"), v.literal("down")) },
+  handler: async (ctx, args) => {
+    await requireActorId(ctx);
+    const { subtask } = await getActiveSubtask(ctx, args.id);
+    const neighbour = await ctx.db
+      .query("subtasks")
+      .withIndex("by_task_order", (q) => args.direction === "up"
+        ? q.eq("taskId", subtask.taskId).lt("order", subtask.order)
+        : q.eq("taskId", subtask.taskId).gt("order", subtask.order))
+      .order(args.direction === "up" ? "desc" : "asc")
+      .first();
+    if (!neighbour) return;
+    await ctx.db.patch(subtask._id, { order: neighbour.order });
+    await ctx.db.patch(neighbour._id, { order: subtask.order });
+    await ctx.db.patch(subtask.taskId, { updatedAt: Date.now() });
+  },
+});
+
+export const deleteSubtask = mutation({
+  args: { id: v.id("subtasks") },
+  handler: async (ctx, args) => {
+    await requireActorId(ctx);
+    const { subtask } = await getActiveSubtask(ctx, args.id);
+    await ctx.db.delete(args.id);
+    await updateSubtaskCounts(ctx, subtask.taskId, Date.now());
+  },
+});
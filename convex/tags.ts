@@ -0,0 +1,188 @@
+import { mutation, query, type MutationCtx, type QueryCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+import { requireActorId } from "./auth";
+import { validateColor } from "./users";
+import { getActiveTask } from "./tasks";
+
+const MAX_TAG_NAME_LENGTH = 30;
+const DEFAULT_TAG_COLOR = "#808080";
+
+async function validateTagName(ctx: MutationCtx, value: string, currentTagId?: Id<"tags">): Promise<string> {
+  const name = value.trim();
+  if (!name) throw new Error("Tag name is required");
+  if (name.length > MAX_TAG_NAME_LENGTH) {
+    throw new Error(`Tag name must be at most ${MAX_TAG_NAME_LENGTH} characters`);
+  }
+  const existing = await ctx.db
+    .query("tags")
+    .withIndex("by_name", (q) => q.eq("name", name))
+    .first();
+  if (existing && existing._id !== currentTagId) {
+    throw new Error(`A tag named "${name}" already exists`);
+  }
+  return name;
+}
+
+// Tags on a task, for chips on cards and in the drawer
+export async function getTaskTags(ctx: QueryCtx, taskId: Id<"tasks">) {
+  const links = await ctx.db
+    .query("taskTags")
+    .withIndex("by_task", (q) => q.eq("taskId", taskId))
+    .collect();
+  const tags = await Promise.all(links.map((link) => ctx.db.get(link.tagId)));
+  return tags
+    .filter((tag) => tag !== null)
+    .map((tag) => ({ _id: tag._id, name: tag.name, color: tag.color }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Whether the task carries any of the tags
+export async function hasAnyTag(ctx: QueryCtx, taskId: Id<"tasks">, tagIds: Id<"tags">[]): Promise<boolean> {
+  for (const tagId of tagIds) {
+    const link = await ctx.db
+      .query("taskTags")
+      .withIndex("by_task", (q) => q.eq("taskId", taskId).eq("tagId", tagId))
+      .first();
+    if (link) return true;
+  }
+  return false;
+}
+
+// Gives a new occurrence of a recurring task the same tags
+export async function copyTaskTags(ctx: MutationCtx, fromTaskId: Id<"tasks">, toTaskId: Id<"tasks">) {
+  const links = await ctx.db
+    .query("taskTags")
+    .withIndex("by_task", (q) => q.eq("taskId", fromTaskId))
+    .collect();
+  for (const link of links) {
+    await ctx.db.insert("taskTags", { taskId: toTaskId, tagId: link.tagId });
+  }
+}
+
+export async function deleteTaskTags(ctx: MutationCtx, taskId: Id<"tasks">) {
+  const links = await ctx.db
+    .query("taskTags")
+    .withIndex("by_task", (q) => q.eq("taskId", taskId))
+    .collect();
+  await Promise.all(links.map((link) => ctx.db.delete(link._id)));
+}
+
+export const listTags = query({
+  handler: async (ctx) => {
+    const tags = await ctx.db.query("tags").collect();
+    return tags.sort((a, b) => a.name.localeCompare(b.name));
+  },
+});
+
+// Per-tag task counts for the Stats tab; tasks in the trash aren't counted
+export const getTagStats = query({
+  handler: async (ctx) => {
+    const tags = await ctx.db.query("tags").collect();
+    const stats = await Promise.all(tags.map(async (tag) => {
+      const links = await ctx.db
+        .query("taskTags")
+        .withIndex("by_tag", (q) => q.eq("tagId", tag._id))
+        .collect();
+      const tasks = (await Promise.all(links.map((link) => ctx.db.get(link.taskId))))
+        .filter((task) => task !== null && task.deletedAt === undefined);
+      const completed = tasks.filter((task) => task!.isCompleted).length;
+      return {
+        _id: tag._id,
+        name: tag.name,
+        color: tag.color,
+        total: tasks.length,
+        completed,
+        incomplete: tasks.length - completed,
+      };
+    }));
+    return stats.sort((a, b) => b.total - a.total || a.name.localeCompare(b.name));
+  },
+});
+
+export const createTag = mutation({
+  args: {
+    name: v.string(),
+    color: v.optional(v.string()), // Hex color code
+  },
+  handler: async (ctx, args) => {
+    await requireActorId(ctx);
+    const name = await validateTagName(ctx, args.name);
+    const tagId = await ctx.db.insert("tags", {
+      name,
+      color: validateColor(args.color ?? DEFAULT_TAG_COLOR),
+    });
+    return await ctx.db.get(tagId);
+  },
+});
+
+export const updateTag = mutation({
+  args: {
+    id: v.id("tags"),
+    name: v.optional(v.string()),
+    color: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await requireActorId(ctx);
+    const tag = await ctx.db.get(args.id);
+    if (!tag) throw new Error("Tag not found");
+
+    const patch: { name?: string; color?: string } = {};
+    if (args.name !== undefined) {
+      patch.name = await validateTagName(ctx, args.name, args.id);
+    }
+    if (args.color !== undefined) {
+      patch.color = validateColor(args.color);
+    }
+    await ctx.db.patch(args.id, patch);
+    return await ctx.db.get(args.id);
+  },
+});
+
+// Deleting a tag takes it off every task
+export const deleteTag = mutation({
+  args: { id: v.id("tags") },
+  handler: async (ctx, args) => {
+    await requireActorId(ctx);
+    const tag = await ctx.db.get(args.id);
+    if (!tag) throw new Error("Tag not found");
+    const links = await ctx.db
+      .query("taskTags")
+      .withIndex("by_tag", (q) => q.eq("tagId", args.id))
+      .collect();
+    await Promise.all(links.map((link) => ctx.db.delete(link._id)));
+    await ctx.db.delete(args.id);
+  },
+});
+
+export const addTagToTask = mutation({
+  args: { taskId: v.id("tasks"), tagId: v.id("tags") },
+  handler: async (ctx, args) => {
+    await requireActorId(ctx);
+    await getActiveTask(ctx, args.taskId);
+    const tag = await ctx.db.get(args.tagId);
+    if (!tag) throw new Error("Tag not found");
+    const existing = await ctx.db
+      .query("taskTags")
+      .withIndex("by_task", (q) => q.eq("taskId", args.taskId).eq("tagId", args.tagId))
+      .unique();
+    if (existing) return;
+    await ctx.db.insert("taskTags", { taskId: args.taskId, tagId: args.tagId });
+    await ctx.db.patch(args.taskId, { updatedAt: Date.now() });
+  },
+});
+
+export const removeTagFromTask = mutation({
+  args: { taskId: v.id("tasks"), tagId: v.id("tags") },
+  handler: async (ctx, args) => {
+    await requireActorId(ctx);
+    await getActiveTask(ctx, args.taskId);
+    const link = await ctx.db
+      .query("taskTags")
+      .withIndex("by_task", (q) => q.eq("taskId", args.taskId).eq("tagId", args.tagId))
+      .unique();
+    if (!link) return;
+    await ctx.db.delete(link._id);
+    await ctx.db.patch(args.taskId, { updatedAt: Date.now() });
+  },
+});
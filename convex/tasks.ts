@@ -1,89 +1,1157 @@
-import { mutation, query } from "./_generated/server";
-import { v } from "convex/values";
+import { internalMutation, mutation, query, type MutationCtx, type QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { DataModel, Doc, Id } from "./_generated/dataModel";
+import { withAvatarUrls } from "./users";
+import { DEFAULT_TIME_ZONE, activityZoneKey, getActivityTimeZones, resolveActivityTimeZone } from "./timeZones";
+import { nextDayInZone, startOfDayInZone } from "./zonedTime";
+import { requireActorId } from "./auth";
+import { cancelDueReminder, deleteTaskNotifications, scheduleDueReminder } from "./notifications";
+import { nextOccurrence, normalizeRule, type Recurrence } from "./recurrence";
+import { copySubtasks, deleteTaskSubtasks } from "./subtasks";
+import { deleteTaskDependencies, updateDependents } from "./dependencies";
+import { copyTaskTags, deleteTaskTags, getTaskTags, hasAnyTag } from "./tags";
+import { getOpenProject } from "./projects";
+import { ensureWorkflow, getDefaultStatus, getMatchingStatus } from "./statuses";
+import { DEFAULT_PRIORITY, IMPORTANT_PRIORITY, getPriority, priorityValidator } from "./priorities";
+import { deleteTaskComments } from "./comments";
+import { deleteTaskAttachments } from "./attachments";
+import { adjustTaskTimeTotals, deleteTaskTimeEntries, stopTaskTimers } from "./timeEntries";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { paginationOptsValidator, type ExpressionOrValue, type FilterBuilder, type NamedTableInfo, type WithoutSystemFields } from "convex/server";
+import { v, type Infer } from "convex/values";
 
 export const getAllUsers = query({
   handler: async (ctx) => {
-    return await ctx.db.query("users").collect();
+    const users = await ctx.db.query("users").collect();
+    return await Promise.all(users.map((user) => withAvatarUrls(ctx, user)));
   },
 });
 
+// Search results are ranked by relevance, so only the best matches are needed
+const SEARCH_RESULT_LIMIT = 256;
+
+// Full-text search over title and description. Title matches rank above
+// description-only matches; each group keeps the search index's relevance order.
+async function searchTasks(
+  ctx: QueryCtx,
+  searchQuery: string,
+  filters: { userId?: Id<"users">; projectId?: Id<"projects"> } = {},
+) {
+  const [textMatches, descriptionMatches] = await Promise.all([
+    ctx.db
+      .query("tasks")
+      .withSearchIndex("search_text", (q) => {
+        let search = q.search("text", searchQuery).eq("deletedAt", undefined);
+        if (filters.userId) search = search.eq("userId", filters.userId);
+        if (filters.projectId) search = search.eq("projectId", filters.projectId);
+        return search;
+      })
+      .take(SEARCH_RESULT_LIMIT),
+    ctx.db
+      .query("tasks")
+      .withSearchIndex("search_description", (q) => {
+        let search = q.search("description", searchQuery).eq("deletedAt", undefined);
+        if (filters.userId) search = search.eq("userId", filters.userId);
+        if (filters.projectId) search = search.eq("projectId", filters.projectId);
+        return search;
+      })
+      .take(SEARCH_RESULT_LIMIT),
+  ]);
+  const seen = new Set(textMatches.map((task) => task._id));
+  return [...textMatches, ...descriptionMatches.filter((task) => !seen.has(task._id))];
+}
+
 export const listAllWithHistoryCount = query({
   args: { 
     searchQuery: v.optional(v.string()),
-    userIds: v.optional(v.array(v.id("users")))
+    userIds: v.optional(v.array(v.id("users"))),
+    projectId: v.optional(v.id("projects")),
   },
   handler: async (ctx, args) => {
-    let tasks = await ctx.db.query("tasks").collect();
+    const searchQuery = args.searchQuery?.trim();
+    const userIds = args.userIds && args.userIds.length > 0 ? args.userIds : null;
+
+    let tasks;
+    if (searchQuery) {
+      // A single selected user can be filtered inside the search index
+      tasks = await searchTasks(ctx, searchQuery, {
+        userId: userIds?.length === 1 ? userIds[0] : undefined,
+        projectId: args.projectId,
+      });
+    } else {
+      // Tasks in the trash have deletedAt set, so only fetch the ones without it
+      tasks = await ctx.db
+        .query("tasks")
+        .withIndex("by_deleted_at", (q) => q.eq("deletedAt", undefined))
+        .collect();
+    }
     
     // Filter by user IDs if provided
-    if (args.userIds && args.userIds.length > 0) {
-      tasks = tasks.filter(task => task.userId && args.userIds!.includes(task.userId));
+    if (userIds) {
+      tasks = tasks.filter(task => task.userId && userIds.includes(task.userId));
+    }
+    if (args.projectId) {
+      tasks = tasks.filter(task => task.projectId === args.projectId);
     }
     
-    // Filter by search query if provided
-    if (args.searchQuery && args.searchQuery.trim()) {
-      const query = args.searchQuery.toLowerCase().trim();
-      tasks = tasks.filter(task => {
-        const titleMatch = task.text.toLowerCase().includes(query);
-        const descriptionMatch = task.description?.toLowerCase().includes(query) ?? false;
-        return titleMatch || descriptionMatch;
+    return await Promise.all(tasks.map((task) => withTaskDetails(ctx, task)));
+  },
+});
+
+// Adds what task cards show besides the task's own fields: its history count,
+// whether it's waiting for other tasks to be done and its tags
+async function withTaskDetails(ctx: QueryCtx, task: Doc<"tasks">) {
+  const isBlocked = (task.openBlockerCount ?? 0) > 0;
+  const tags = await getTaskTags(ctx, task._id);
+  if (task.historyCount !== undefined) {
+    return { ...task, historyCount: task.historyCount, isBlocked, tags };
+  }
+  // Tasks written before the counter existed, until backfillHistoryCounts has run
+  const history = await ctx.db
+    .query("taskHistory")
+    .withIndex("by_task", (q) => q.eq("taskId", task._id))
+    .collect();
+  return { ...task, historyCount: history.length, isBlocked, tags };
+}
+
+// Tasks up to this many minutes count as "quick", longer ones as "long"
+const QUICK_TASK_MAX_MINUTES = 15;
+
+const taskFiltersValidator = v.object({
+  // Tasks in any of these statuses; every status when unset or empty. Tasks not migrated
+  // to statuses yet match by isCompleted if that's set, and not at all otherwise.
+  statusIds: v.optional(v.array(v.id("statuses"))),
+  // Only done or only open tasks, e.g. for the Completed tab. Works before any status exists.
+  isCompleted: v.optional(v.boolean()),
+  durationFilter: v.union(v.literal("all"), v.literal("quick"), v.literal("long")),
+  priorities: v.optional(v.array(priorityValidator)), // Tasks at any of these levels; every level when unset or empty
+  dueFilter: v.union(v.literal("all"), v.literal("overdue"), v.literal("today")),
+  blockedFilter: v.union(v.literal("all"), v.literal("blocked"), v.literal("unblocked")),
+  userIds: v.optional(v.array(v.id("users"))),
+  // Tasks with any of these tags. These lists are read off the tags' links, most recently
+  // tagged first and one tag after another, instead of in the chosen sort.
+  tagIds: v.optional(v.array(v.id("tags"))),
+  projectId: v.optional(v.id("projects")), // Tasks in this project; every project when unset
+});
+type TaskFilters = Infer<typeof taskFiltersValidator>;
+
+// Reference points for the due date filters. "Today" is the viewer's calendar day.
+type DueBounds = { now: number; todayStart: number; tomorrowStart: number };
+
+// What the filters are checked against besides the task itself. Tags live in their
+// own table, so they're checked separately: see listTasksByTags.
+type FilterContext = { due: DueBounds };
+
+async function getDueBounds(ctx: QueryCtx): Promise<DueBounds> {
+  const viewerId = await getAuthUserId(ctx);
+  const viewer = viewerId ? await ctx.db.get(viewerId) : null;
+  const timeZone = viewer?.timeZone ?? DEFAULT_TIME_ZONE;
+  const now = Date.now();
+  const todayStart = startOfDayInZone(now, timeZone);
+  return { now, todayStart, tomorrowStart: nextDayInZone(todayStart, timeZone) };
+}
+
+const taskSortValidator = v.union(
+  v.literal("latest"),
+  v.literal("inactive"),
+  v.literal("newest"),
+  v.literal("oldest"),
+  v.literal("frequent"),
+  v.literal("unfrequent"),
+  v.literal("quickest"),
+  v.literal("longest"),
+  v.literal("due"),
+  v.literal("priority"),
+);
+
+// Every sort is read straight off an index, as [index, order]
+const INDEXED_SORTS = {
+  latest: ["by_updated_at", "desc"],
+  inactive: ["by_updated_at", "asc"],
+  newest: ["by_created_at", "desc"],
+  oldest: ["by_created_at", "asc"],
+  quickest: ["by_duration", "asc"],
+  longest: ["by_duration", "desc"],
+  frequent: ["by_history_count", "desc"],
+  unfrequent: ["by_history_count", "asc"],
+  due: ["by_due_at", "asc"],
+  priority: ["by_priority", "asc"], // Most urgent first
+} as const;
+
+// Tag-filtered lists go through the selected tags one at a time. Their cursors start
+// with the position of the tag they continue, e.g. "tag1:".
+const TAG_CURSOR_PREFIX = "tag";
+
+// The "due" sort lists tasks with a due date first, soonest first, then the rest.
+// Its cursors say which of the two ranges they continue.
+const UNDATED_CURSOR_PREFIX = "undated:";
+const DATED_CURSOR_PREFIX = "dated:";
+
+// The "priority" sort lists tasks with a priority first, most urgent first, then the ones
+// not migrated to priorities yet. Its cursors say which of the two ranges they continue.
+const PRIORITIZED_CURSOR_PREFIX = "prioritized:";
+const UNPRIORITIZED_CURSOR_PREFIX = "unprioritized:";
+
+function matchesTaskFilters(task: Doc<"tasks">, filters: TaskFilters, { due }: FilterContext): boolean {
+  if (filters.isCompleted !== undefined && task.isCompleted !== filters.isCompleted) return false;
+  if (filters.statusIds && filters.statusIds.length > 0) {
+    if (task.statusId ? !filters.statusIds.includes(task.statusId) : filters.isCompleted === undefined) return false;
+  }
+  const duration = task.duration ?? 0;
+  if (filters.durationFilter === "quick" && duration > QUICK_TASK_MAX_MINUTES) return false;
+  if (filters.durationFilter === "long" && duration <= QUICK_TASK_MAX_MINUTES) return false;
+  if (filters.priorities && filters.priorities.length > 0 && !filters.priorities.includes(getPriority(task))) return false;
+  // Finished tasks aren't overdue
+  if (filters.dueFilter === "overdue" && (task.isCompleted || task.dueAt === undefined || task.dueAt >= due.now)) return false;
+  if (filters.dueFilter === "today" && (task.dueAt === undefined || task.dueAt < due.todayStart || task.dueAt >= due.tomorrowStart)) return false;
+  const isBlocked = (task.openBlockerCount ?? 0) > 0;
+  if (filters.blockedFilter === "blocked" && !isBlocked) return false;
+  if (filters.blockedFilter === "unblocked" && isBlocked) return false;
+  if (filters.userIds && filters.userIds.length > 0) {
+    if (!task.userId || !filters.userIds.includes(task.userId)) return false;
+  }
+  if (filters.projectId && task.projectId !== filters.projectId) return false;
+  return true;
+}
+
+// Same rules as matchesTaskFilters, expressed as a database filter so they can
+// be applied while paginating an index
+function taskFilterExpression(filters: TaskFilters, { due }: FilterContext) {
+  return (q: FilterBuilder<NamedTableInfo<DataModel, "tasks">>) => {
+    const conditions: ExpressionOrValue<boolean>[] = [];
+    if (filters.isCompleted !== undefined) {
+      conditions.push(q.eq(q.field("isCompleted"), filters.isCompleted));
+    }
+    if (filters.statusIds && filters.statusIds.length > 0) {
+      conditions.push(q.or(
+        ...filters.statusIds.map((statusId) => q.eq(q.field("statusId"), statusId)),
+        // isCompleted is checked above
+        ...(filters.isCompleted !== undefined ? [q.eq(q.field("statusId"), undefined)] : []),
+      ));
+    }
+    if (filters.durationFilter === "quick") {
+      // Tasks without a duration count as quick
+      conditions.push(q.or(
+        q.eq(q.field("duration"), undefined),
+        q.lte(q.field("duration"), QUICK_TASK_MAX_MINUTES),
+      ));
+    } else if (filters.durationFilter === "long") {
+      conditions.push(q.gt(q.field("duration"), QUICK_TASK_MAX_MINUTES));
+    }
+    if (filters.priorities && filters.priorities.length > 0) {
+      const unmigrated = q.eq(q.field("priority"), undefined);
+      conditions.push(q.or(
+        ...filters.priorities.map((priority) => q.eq(q.field("priority"), priority)),
+        // Tasks not migrated yet count by their isImportant flag, like in getPriority
+        ...(filters.priorities.includes(IMPORTANT_PRIORITY) ? [q.and(unmigrated, q.eq(q.field("isImportant"), true))] : []),
+        ...(filters.priorities.includes(DEFAULT_PRIORITY) ? [q.and(unmigrated, q.neq(q.field("isImportant"), true))] : []),
+      ));
+    }
+    // Missing due dates sort below every number, so rule them out explicitly
+    if (filters.dueFilter === "overdue") {
+      conditions.push(
+        q.eq(q.field("isCompleted"), false),
+        q.neq(q.field("dueAt"), undefined),
+        q.lt(q.field("dueAt"), due.now),
+      );
+    } else if (filters.dueFilter === "today") {
+      conditions.push(
+        q.gte(q.field("dueAt"), due.todayStart),
+        q.lt(q.field("dueAt"), due.tomorrowStart),
+      );
+    }
+    if (filters.blockedFilter === "blocked") {
+      conditions.push(q.gt(q.field("openBlockerCount"), 0));
+    } else if (filters.blockedFilter === "unblocked") {
+      conditions.push(q.or(
+        q.eq(q.field("openBlockerCount"), undefined),
+        q.eq(q.field("openBlockerCount"), 0),
+      ));
+    }
+    if (filters.userIds && filters.userIds.length > 0) {
+      conditions.push(q.or(...filters.userIds.map((userId) => q.eq(q.field("userId"), userId))));
+    }
+    if (filters.projectId) {
+      conditions.push(q.eq(q.field("projectId"), filters.projectId));
+    }
+    return conditions.length > 0 ? q.and(...conditions) : true;
+  };
+}
+
+export const listTasks = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+    filters: taskFiltersValidator,
+    sort: taskSortValidator,
+    searchQuery: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { filters } = args;
+    const tagIds = filters.tagIds && filters.tagIds.length > 0 ? filters.tagIds : null;
+    const context: FilterContext = { due: await getDueBounds(ctx) };
+    const searchQuery = args.searchQuery?.trim();
+    if (searchQuery) {
+      // Search results are ranked by relevance and already capped, so they come back as a single page
+      const matches = await searchTasks(ctx, searchQuery, {
+        userId: filters.userIds?.length === 1 ? filters.userIds[0] : undefined,
+        projectId: filters.projectId,
       });
+      const page = [];
+      for (const task of matches) {
+        if (!matchesTaskFilters(task, filters, context)) continue;
+        if (tagIds && !await hasAnyTag(ctx, task._id, tagIds)) continue;
+        page.push(task);
+      }
+      return {
+        page: await Promise.all(page.map((task) => withTaskDetails(ctx, task))),
+        isDone: true,
+        continueCursor: "",
+      };
     }
-    
-    const tasksWithCount = await Promise.all(
-      tasks.map(async (task) => {
-        const history = await ctx.db
-          .query("taskHistory")
-          .withIndex("by_task", (q) => q.eq("taskId", task._id))
-          .collect();
-        return { ...task, historyCount: history.length };
-      })
-    );
-    return tasksWithCount;
+
+    // Tag-filtered lists page through the tag links, so they ignore the sort
+    if (tagIds) {
+      return await listTasksByTags(ctx, args.paginationOpts, filters, context, tagIds);
+    }
+
+    if (args.sort === "due") {
+      return await listTasksByDueDate(ctx, args.paginationOpts, filters, context);
+    }
+    if (args.sort === "priority") {
+      return await listTasksByPriority(ctx, args.paginationOpts, filters, context);
+    }
+
+    const [index, order] = INDEXED_SORTS[args.sort];
+    const result = await ctx.db
+      .query("tasks")
+      .withIndex(index, (q) => q.eq("deletedAt", undefined))
+      .order(order)
+      .filter(taskFilterExpression(filters, context))
+      .paginate(args.paginationOpts);
+    return {
+      ...result,
+      page: await Promise.all(result.page.map((task) => withTaskDetails(ctx, task))),
+    };
   },
 });
 
-export const toggleCompleted = mutation({
+// Missing due dates sort first in the index, so the dated range is read before the
+// undated one. A query can only paginate once, so the page that finishes the dated
+// range ends there and the next page starts on the undated range.
+async function listTasksByDueDate(
+  ctx: QueryCtx,
+  paginationOpts: Infer<typeof paginationOptsValidator>,
+  filters: TaskFilters,
+  context: FilterContext,
+) {
+  const cursor = paginationOpts.cursor;
+  const undated = cursor?.startsWith(UNDATED_CURSOR_PREFIX) ?? false;
+  const prefix = undated ? UNDATED_CURSOR_PREFIX : DATED_CURSOR_PREFIX;
+  const innerCursor = cursor?.slice(prefix.length) || null;
+
+  const result = await ctx.db
+    .query("tasks")
+    .withIndex("by_due_at", (q) => undated
+      ? q.eq("deletedAt", undefined).eq("dueAt", undefined)
+      : q.eq("deletedAt", undefined).gt("dueAt", 0))
+    .filter(taskFilterExpression(filters, context))
+    .paginate({ ...paginationOpts, cursor: innerCursor });
+
+  const page = await Promise.all(result.page.map((task) => withTaskDetails(ctx, task)));
+  if (!undated && result.isDone) {
+    // Only "overdue" and "today" need a due date, so there's nothing undated to add
+    const isDone = filters.dueFilter !== "all";
+    return { page, isDone, continueCursor: UNDATED_CURSOR_PREFIX };
+  }
+  return { page, isDone: result.isDone, continueCursor: prefix + result.continueCursor };
+}
+
+// Tasks not migrated yet have no priority, which the index puts above P0, so the range with
+// a priority is read first and the unset one after it, important tasks first like getPriority
+// ranks them. A query can only paginate once, so the page that finishes the first range
+// ends there and the next page starts on the second.
+async function listTasksByPriority(
+  ctx: QueryCtx,
+  paginationOpts: Infer<typeof paginationOptsValidator>,
+  filters: TaskFilters,
+  context: FilterContext,
+) {
+  const cursor = paginationOpts.cursor;
+  const unprioritized = cursor?.startsWith(UNPRIORITIZED_CURSOR_PREFIX) ?? false;
+  const prefix = unprioritized ? UNPRIORITIZED_CURSOR_PREFIX : PRIORITIZED_CURSOR_PREFIX;
+  const innerCursor = cursor?.slice(prefix.length) || null;
+
+  const result = await ctx.db
+    .query("tasks")
+    .withIndex("by_priority", (q) => unprioritized
+      ? q.eq("deletedAt", undefined).eq("priority", undefined)
+      : q.eq("deletedAt", undefined).gte("priority", 0))
+    // Most urgent first; for unset priorities, isImportant true before false or unset
+    .order(unprioritized ? "desc" : "asc")
+    .filter(taskFilterExpression(filters, context))
+    .paginate({ ...paginationOpts, cursor: innerCursor });
+
+  const page = await Promise.all(result.page.map((task) => withTaskDetails(ctx, task)));
+  if (!unprioritized && result.isDone) {
+    return { page, isDone: false, continueCursor: UNPRIORITIZED_CURSOR_PREFIX };
+  }
+  return { page, isDone: result.isDone, continueCursor: prefix + result.continueCursor };
+}
+
+// Pages through the links of each selected tag in turn, newest first, so the work per page
+// doesn't grow with the number of tagged tasks. A task with several of the selected tags
+// is listed under the first of them only.
+async function listTasksByTags(
+  ctx: QueryCtx,
+  paginationOpts: Infer<typeof paginationOptsValidator>,
+  filters: TaskFilters,
+  context: FilterContext,
+  tagIds: Id<"tags">[],
+) {
+  const cursor = paginationOpts.cursor;
+  const separator = cursor?.indexOf(":") ?? -1;
+  const tagIndex = cursor?.startsWith(TAG_CURSOR_PREFIX) && separator > 0
+    ? Number(cursor.slice(TAG_CURSOR_PREFIX.length, separator))
+    : 0;
+  const innerCursor = separator > 0 ? cursor!.slice(separator + 1) || null : null;
+  const prefix = `${TAG_CURSOR_PREFIX}${tagIndex}:`;
+  if (!(tagIndex < tagIds.length)) return { page: [], isDone: true, continueCursor: "" };
+
+  const result = await ctx.db
+    .query("taskTags")
+    .withIndex("by_tag", (q) => q.eq("tagId", tagIds[tagIndex]))
+    .order("desc")
+    .paginate({ ...paginationOpts, cursor: innerCursor });
+
+  const page = [];
+  for (const link of result.page) {
+    const task = await ctx.db.get(link.taskId);
+    if (!task || task.deletedAt !== undefined || !matchesTaskFilters(task, filters, context)) continue;
+    if (await hasAnyTag(ctx, task._id, tagIds.slice(0, tagIndex))) continue;
+    page.push(await withTaskDetails(ctx, task));
+  }
+  if (result.isDone && tagIndex < tagIds.length - 1) {
+    return { page, isDone: false, continueCursor: `${TAG_CURSOR_PREFIX}${tagIndex + 1}:` };
+  }
+  return { page, isDone: result.isDone, continueCursor: prefix + result.continueCursor };
+}
+
+export const getTask = query({
   args: { id: v.id("tasks") },
   handler: async (ctx, args) => {
     const task = await ctx.db.get(args.id);
-    if (!task) throw new Error("Task not found");
+    if (!task || task.deletedAt !== undefined) return null;
+    return await withTaskDetails(ctx, task);
+  },
+});
+
+const MAX_TEXT_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 2000;
+const MAX_DURATION_MINUTES = 7 * 24 * 60; // One week
+
+function validateText(value: string): string {
+  const text = value.trim();
+  if (!text) throw new Error("Task text is required");
+  if (text.length > MAX_TEXT_LENGTH) {
+    throw new Error(`Task text must be at most ${MAX_TEXT_LENGTH} characters`);
+  }
+  return text;
+}
+
+function validateDescription(value: string | undefined): string | undefined {
+  const description = value?.trim() || undefined;
+  if (description && description.length > MAX_DESCRIPTION_LENGTH) {
+    throw new Error(`Description must be at most ${MAX_DESCRIPTION_LENGTH} characters`);
+  }
+  return description;
+}
+
+function validateDueAt(value: number | undefined): number | undefined {
+  if (value !== undefined && (!Number.isInteger(value) || value <= 0)) {
+    throw new Error("Due date must be a valid timestamp");
+  }
+  return value;
+}
+
+function validateDuration(value: number | undefined): number | undefined {
+  if (value !== undefined) {
+    if (!Number.isInteger(value) || value <= 0 || value > MAX_DURATION_MINUTES) {
+      throw new Error(`Duration must be a whole number of minutes between 1 and ${MAX_DURATION_MINUTES}`);
+    }
+  }
+  return value;
+}
+
+// Repeat rules are counted in the zone of whoever sets them, so a daily task
+// stays due at the same local time across DST changes
+async function validateRecurrence(
+  ctx: MutationCtx,
+  actorId: Id<"users">,
+  rule: string | undefined,
+): Promise<Recurrence | undefined> {
+  if (!rule?.trim()) return undefined;
+  const actor = await ctx.db.get(actorId);
+  return { rule: normalizeRule(rule), timeZone: actor?.timeZone ?? DEFAULT_TIME_ZONE };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Adds delta to the dailyActivity rollup for each entry, attributed to the task's owner
+// and project. Unassigned tasks aren't charted, so their changes aren't rolled up either.
+// Every tracked zone is updated unless timeZones narrows it down.
+async function adjustDailyActivity(
+  ctx: MutationCtx,
+  { userId, projectId }: { userId?: Id<"users">; projectId?: Id<"projects"> },
+  entries: { changeType?: string; changedAt: number }[],
+  delta: number,
+  timeZones?: string[],
+) {
+  if (!userId || entries.length === 0) return;
+
+  const buckets = new Map<string, { timeZone: string; day: number; changeType: string; count: number }>();
+  for (const timeZone of timeZones ?? await getActivityTimeZones(ctx)) {
+    for (const entry of entries) {
+      const day = startOfDayInZone(entry.changedAt, timeZone);
+      // Entries from before change types existed are completion toggles
+      const changeType = entry.changeType ?? "completion";
+      const key = `${timeZone}:${day}:${changeType}`;
+      const bucket = buckets.get(key) ?? { timeZone, day, changeType, count: 0 };
+      bucket.count += delta;
+      buckets.set(key, bucket);
+    }
+  }
+
+  for (const { timeZone, day, changeType, count } of buckets.values()) {
+    const zoneKey = activityZoneKey(timeZone);
+    const row = await ctx.db
+      .query("dailyActivity")
+      .withIndex("by_zone_user_day", (q) => q
+        .eq("timeZone", zoneKey)
+        .eq("userId", userId)
+        .eq("day", day)
+        .eq("changeType", changeType)
+        .eq("projectId", projectId))
+      .unique();
+    if (row) {
+      const newCount = row.count + count;
+      if (newCount > 0) {
+        await ctx.db.patch(row._id, { count: newCount });
+      } else {
+        await ctx.db.delete(row._id);
+      }
+    } else if (count > 0) {
+      await ctx.db.insert("dailyActivity", { timeZone: zoneKey, day, userId, changeType, projectId, count });
+    }
+  }
+}
+
+async function getHistoryEntries(ctx: MutationCtx, taskId: Id<"tasks">) {
+  return await ctx.db
+    .query("taskHistory")
+    .withIndex("by_task", (q) => q.eq("taskId", taskId))
+    .collect();
+}
+
+// Every history write goes through here so the counters on the task and the
+// dailyActivity rollup stay in sync
+export async function recordHistory(
+  ctx: MutationCtx,
+  entry: Omit<WithoutSystemFields<Doc<"taskHistory">>, "taskUserId" | "taskDeletedAt" | "taskProjectId">,
+) {
+  const task = await ctx.db.get(entry.taskId);
+  if (!task) return;
+  await ctx.db.insert("taskHistory", {
+    ...entry,
+    taskUserId: task.userId,
+    taskDeletedAt: task.deletedAt,
+    taskProjectId: task.projectId,
+  });
+  await ctx.db.patch(entry.taskId, {
+    historyCount: (task.historyCount ?? 0) + 1,
+    lastChangedAt: entry.changedAt,
+  });
+  if (task.deletedAt === undefined) {
+    await adjustDailyActivity(ctx, task, [entry], 1);
+  }
+}
+
+// Fetch a task that can still be changed, i.e. one that exists and isn't in the trash
+export async function getActiveTask(ctx: MutationCtx, id: Id<"tasks">) {
+  const task = await ctx.db.get(id);
+  if (!task || task.deletedAt !== undefined) throw new Error("Task not found");
+  return task;
+}
+
+export const createTask = mutation({
+  args: {
+    text: v.string(),
+    description: v.optional(v.string()),
+    duration: v.optional(v.number()), // Duration in minutes
+    priority: v.optional(priorityValidator), // P2 when unset
+    userId: v.optional(v.id("users")),
+    dueAt: v.optional(v.number()),
+    recurrence: v.optional(v.string()), // RRULE subset, see recurrence.ts
+    projectId: v.optional(v.id("projects")),
+  },
+  handler: async (ctx, args) => {
+    const actorId = await requireActorId(ctx);
+    const text = validateText(args.text);
+    const description = validateDescription(args.description);
+    const duration = validateDuration(args.duration);
+    const dueAt = validateDueAt(args.dueAt);
+    const recurrence = await validateRecurrence(ctx, actorId, args.recurrence);
+    if (recurrence && dueAt === undefined) throw new Error("Recurring tasks need a due date");
+
+    if (args.userId) {
+      const user = await ctx.db.get(args.userId);
+      if (!user) throw new Error("User not found");
+      if (user.deactivatedAt !== undefined) throw new Error("Can't assign tasks to a deactivated user");
+    }
+    if (args.projectId) await getOpenProject(ctx, args.projectId);
+    const status = await getDefaultStatus(ctx, args.projectId, false);
+
+    const now = Date.now();
+    const taskId = await ctx.db.insert("tasks", {
+      text,
+      description,
+      isCompleted: false,
+      statusId: status._id,
+      priority: args.priority ?? DEFAULT_PRIORITY,
+      duration,
+      userId: args.userId,
+      dueAt,
+      recurrence,
+      projectId: args.projectId,
+      createdAt: now,
+      updatedAt: now,
+      historyCount: 0,
+    });
+    // Record history
+    await recordHistory(ctx, {
+      taskId,
+      changeType: "created",
+      actorId,
+      changedAt: now,
+    });
+    await scheduleDueReminder(ctx, (await ctx.db.get(taskId))!);
+    return await ctx.db.get(taskId);
+  },
+});
+
+export const updateTask = mutation({
+  args: {
+    id: v.id("tasks"),
+    text: v.optional(v.string()),
+    description: v.optional(v.string()), // Empty string clears the description
+    duration: v.optional(v.union(v.number(), v.null())), // null clears the duration
+    dueAt: v.optional(v.union(v.number(), v.null())), // null clears the due date
+    recurrence: v.optional(v.union(v.string(), v.null())), // RRULE subset; null stops the task repeating
+    projectId: v.optional(v.union(v.id("projects"), v.null())), // null takes the task out of its project
+  },
+  handler: async (ctx, args) => {
+    const actorId = await requireActorId(ctx);
+    const task = await getActiveTask(ctx, args.id);
+
+    const changes: { field: string; from?: string | number; to?: string | number }[] = [];
+    const patch: {
+      text?: string;
+      description?: string;
+      duration?: number;
+      dueAt?: number;
+      recurrence?: Recurrence;
+      projectId?: Id<"projects">;
+      statusId?: Id<"statuses">;
+    } = {};
+
+    if (args.text !== undefined) {
+      const text = validateText(args.text);
+      if (text !== task.text) {
+        changes.push({ field: "text", from: task.text, to: text });
+        patch.text = text;
+      }
+    }
+    if (args.description !== undefined) {
+      const description = validateDescription(args.description);
+      if (description !== task.description) {
+        changes.push({ field: "description", from: task.description, to: description });
+        patch.description = description;
+      }
+    }
+    if (args.duration !== undefined) {
+      const duration = validateDuration(args.duration ?? undefined);
+      if (duration !== task.duration) {
+        changes.push({ field: "duration", from: task.duration, to: duration });
+        patch.duration = duration;
+      }
+    }
+    if (args.dueAt !== undefined) {
+      const dueAt = validateDueAt(args.dueAt ?? undefined);
+      if (dueAt !== task.dueAt) {
+        changes.push({ field: "dueAt", from: task.dueAt, to: dueAt });
+        patch.dueAt = dueAt;
+      }
+    }
+    if (args.recurrence !== undefined) {
+      const recurrence = await validateRecurrence(ctx, actorId, args.recurrence ?? undefined);
+      if (recurrence?.rule !== task.recurrence?.rule) {
+        changes.push({ field: "recurrence", from: task.recurrence?.rule, to: recurrence?.rule });
+        patch.recurrence = recurrence;
+      }
+    }
+    if (args.projectId !== undefined) {
+      const projectId = args.projectId ?? undefined;
+      if (projectId !== task.projectId) {
+        // History keeps the names, like it keeps the old title of a renamed task
+        const from = task.projectId ? await ctx.db.get(task.projectId) : null;
+        const to = projectId ? await getOpenProject(ctx, projectId) : null;
+        changes.push({ field: "project", from: from?.name, to: to?.name });
+        patch.projectId = projectId;
+        // Each project has its own workflow, so the task takes the matching status there
+        const fromStatus = task.statusId ? await ctx.db.get(task.statusId) : null;
+        const toStatus = await getMatchingStatus(ctx, task, projectId);
+        if (fromStatus?.name !== toStatus.name) {
+          changes.push({ field: "status", from: fromStatus?.name, to: toStatus.name });
+        }
+        patch.statusId = toStatus._id;
+      }
+    }
+    const repeats = "recurrence" in patch ? patch.recurrence !== undefined : task.recurrence !== undefined;
+    const hasDueDate = "dueAt" in patch ? patch.dueAt !== undefined : task.dueAt !== undefined;
+    if (repeats && !hasDueDate) throw new Error("Recurring tasks need a due date");
+
+    // Nothing actually changed, so don't touch updatedAt or history
+    if (changes.length === 0) return task;
+
+    if ("projectId" in patch) {
+      // The task's past changes move to the new project in the feed and the activity chart
+      const history = await getHistoryEntries(ctx, args.id);
+      await adjustDailyActivity(ctx, task, history, -1);
+      await adjustDailyActivity(ctx, { ...task, projectId: patch.projectId }, history, 1);
+      await Promise.all(history.map((entry) => ctx.db.patch(entry._id, { taskProjectId: patch.projectId })));
+      await adjustTaskTimeTotals(ctx, task, -1);
+      await adjustTaskTimeTotals(ctx, { ...task, projectId: patch.projectId }, 1);
+    }
+
     const now = Date.now();
-    const newStatus = !task.isCompleted;
-    await ctx.db.patch(args.id, { isCompleted: newStatus, updatedAt: now });
+    await ctx.db.patch(args.id, { ...patch, updatedAt: now });
     // Record history
-    await ctx.db.insert("taskHistory", {
+    await recordHistory(ctx, {
       taskId: args.id,
-      changeType: "completion",
-      changedTo: newStatus,
+      changeType: "edit",
+      changes,
+      actorId,
       changedAt: now,
     });
+    if ("dueAt" in patch) {
+      await scheduleDueReminder(ctx, (await ctx.db.get(args.id))!);
+    }
     return await ctx.db.get(args.id);
   },
 });
 
-export const toggleImportant = mutation({
-  args: { id: v.id("tasks") },
+// Minutes a task completed at completedAt actually took: the time tracked with the timer, else
+// the time since work on it first started (its first time entry or move out of the status it
+// started in). Unknown for tasks that went straight to done, since the time they waited
+// before that isn't effort.
+async function measureActualDuration(ctx: MutationCtx, task: Doc<"tasks">, completedAt: number) {
+  if (task.trackedMs) return Math.max(1, Math.round(task.trackedMs / 60 / 1000));
+  const history = await getHistoryEntries(ctx, task._id);
+  const firstEntry = await ctx.db
+    .query("timeEntries")
+    .withIndex("by_task", (q) => q.eq("taskId", task._id))
+    .first();
+  const starts = history
+    .filter((entry) => entry.changeType === "status")
+    .map((entry) => entry.changedAt)
+    .concat(firstEntry ? [firstEntry.startedAt] : [])
+    .filter((startedAt) => startedAt <= completedAt);
+  if (starts.length === 0) return undefined;
+  return Math.max(1, Math.round((completedAt - Math.min(...starts)) / 60 / 1000));
+}
+
+// Moves a task to another status of its workflow. Moves that finish or reopen it are
+// recorded as "completion" entries and do what completing does; the rest as "status" entries.
+// Finishing records the actual effort: actualDuration if given, else measureActualDuration's.
+async function changeStatus(
+  ctx: MutationCtx,
+  task: Doc<"tasks">,
+  status: Doc<"statuses">,
+  actorId: Id<"users">,
+  now: number,
+  actualDuration?: number,
+) {
+  const fromStatus = task.statusId ? await ctx.db.get(task.statusId) : null;
+  const isCompleted = status.isDone;
+  const completionChanged = isCompleted !== task.isCompleted;
+  if (actualDuration !== undefined && !(completionChanged && isCompleted)) {
+    throw new Error("Actual time can only be entered when completing a task");
+  }
+  const patch: Partial<Doc<"tasks">> = { statusId: status._id, isCompleted, updatedAt: now };
+  if (completionChanged && isCompleted) {
+    // Time spent on a finished task is done being tracked, and its running timers count
+    await stopTaskTimers(ctx, task, now);
+    patch.actualDuration = actualDuration ?? await measureActualDuration(ctx, (await ctx.db.get(task._id))!, now);
+  } else if (completionChanged) {
+    // Reopened tasks are measured again when they're finished
+    patch.actualDuration = undefined;
+  }
+  await ctx.db.patch(task._id, patch);
+  // Record history
+  await recordHistory(ctx, {
+    taskId: task._id,
+    changeType: completionChanged ? "completion" : "status",
+    changedTo: completionChanged ? isCompleted : undefined,
+    fromStatus: fromStatus?.name,
+    toStatus: status.name,
+    actorId,
+    changedAt: now,
+  });
+  if (!completionChanged) return;
+  await updateDependents(ctx, task, { ...task, isCompleted }, actorId, now);
+  // Only the first completion repeats the task; reopening and finishing it again doesn't
+  if (isCompleted && task.recurrence && task.dueAt !== undefined && !task.nextOccurrenceId) {
+    await createNextOccurrence(ctx, task, task.recurrence, task.dueAt, actorId, now);
+  }
+}
+
+// Checks a task off into its workflow's first done status, or reopens it into the first open one.
+// actualDuration is the minutes the task took, when whoever completes it enters them.
+export const toggleCompleted = mutation({
+  args: { id: v.id("tasks"), actualDuration: v.optional(v.number()) },
   handler: async (ctx, args) => {
-    const task = await ctx.db.get(args.id);
-    if (!task) throw new Error("Task not found");
+    const actorId = await requireActorId(ctx);
+    const task = await getActiveTask(ctx, args.id);
+    const status = await getDefaultStatus(ctx, task.projectId, !task.isCompleted);
+    await changeStatus(ctx, task, status, actorId, Date.now(), validateDuration(args.actualDuration));
+    return await ctx.db.get(args.id);
+  },
+});
+
+export const setStatus = mutation({
+  args: { id: v.id("tasks"), statusId: v.id("statuses"), actualDuration: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const actorId = await requireActorId(ctx);
+    const task = await getActiveTask(ctx, args.id);
+    const status = await ctx.db.get(args.statusId);
+    if (!status) throw new Error("Status not found");
+    if (status.projectId !== task.projectId) throw new Error("Status belongs to another project's workflow");
+    if (status._id === task.statusId) return task;
+    await changeStatus(ctx, task, status, actorId, Date.now(), validateDuration(args.actualDuration));
+    return await ctx.db.get(args.id);
+  },
+});
+
+// Copies a completed recurring task into a new one due at its next occurrence,
+// with history entries on both pointing at each other. Tags carry over and the
+// checklist starts over unchecked.
+async function createNextOccurrence(
+  ctx: MutationCtx,
+  task: Doc<"tasks">,
+  recurrence: Recurrence,
+  dueAt: number,
+  actorId: Id<"users">,
+  now: number,
+) {
+  const status = await getDefaultStatus(ctx, task.projectId, false);
+  const nextId = await ctx.db.insert("tasks", {
+    text: task.text,
+    description: task.description,
+    isCompleted: false,
+    statusId: status._id,
+    priority: getPriority(task),
+    duration: task.duration,
+    userId: task.userId,
+    dueAt: nextOccurrence(dueAt, recurrence, now),
+    recurrence,
+    projectId: task.projectId,
+    createdAt: now,
+    updatedAt: now,
+    historyCount: 0,
+  });
+  await copySubtasks(ctx, task._id, nextId);
+  await copyTaskTags(ctx, task._id, nextId);
+  await recordHistory(ctx, {
+    taskId: nextId,
+    changeType: "created",
+    relatedTaskId: task._id,
+    actorId,
+    changedAt: now,
+  });
+  await ctx.db.patch(task._id, { nextOccurrenceId: nextId });
+  await recordHistory(ctx, {
+    taskId: task._id,
+    changeType: "recurrence",
+    relatedTaskId: nextId,
+    actorId,
+    changedAt: now,
+  });
+  await scheduleDueReminder(ctx, (await ctx.db.get(nextId))!);
+}
+
+// The history entry keeps both levels; changedTo says whether the priority went up,
+// so the feed can filter raised and lowered priorities like it does importance changes
+export const setPriority = mutation({
+  args: { id: v.id("tasks"), priority: priorityValidator },
+  handler: async (ctx, args) => {
+    const actorId = await requireActorId(ctx);
+    const task = await getActiveTask(ctx, args.id);
+    const fromPriority = getPriority(task);
+    if (fromPriority === args.priority) return task;
     const now = Date.now();
-    const newStatus = !task.isImportant;
-    await ctx.db.patch(args.id, { 
-      isImportant: newStatus, 
-      updatedAt: now 
+    await ctx.db.patch(args.id, {
+      priority: args.priority,
+      isImportant: undefined,
+      updatedAt: now,
     });
+    await recordHistory(ctx, {
+      taskId: args.id,
+      changeType: "priority",
+      changedTo: args.priority < fromPriority,
+      fromPriority,
+      toPriority: args.priority,
+      actorId,
+      changedAt: now,
+    });
+    return await ctx.db.get(args.id);
+  },
+});
+
+export const reassignTask = mutation({
+  args: {
+    id: v.id("tasks"),
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    const actorId = await requireActorId(ctx);
+    const task = await getActiveTask(ctx, args.id);
+    const user = await ctx.db.get(args.userId);
+    if (!user) throw new Error("User not found");
+    if (user.deactivatedAt !== undefined) throw new Error("Can't assign tasks to a deactivated user");
+    if (task.userId === args.userId) return task;
+
+    // Activity is charted per task owner, so the task's past changes move to the new owner
+    const history = await getHistoryEntries(ctx, args.id);
+    await adjustDailyActivity(ctx, task, history, -1);
+    await adjustDailyActivity(ctx, { ...task, userId: args.userId }, history, 1);
+    await Promise.all(history.map((entry) => ctx.db.patch(entry._id, { taskUserId: args.userId })));
+
+    const now = Date.now();
+    await ctx.db.patch(args.id, { userId: args.userId, updatedAt: now });
     // Record history
-    await ctx.db.insert("taskHistory", {
+    await recordHistory(ctx, {
       taskId: args.id,
-      changeType: "importance",
-      changedTo: newStatus,
+      changeType: "assignment",
+      fromUserId: task.userId,
+      toUserId: args.userId,
+      actorId,
       changedAt: now,
     });
     return await ctx.db.get(args.id);
   },
 });
 
+export const getAssignmentStats = query({
+  args: { projectId: v.optional(v.id("projects")) },
+  handler: async (ctx, args) => {
+    const assignments = await ctx.db
+      .query("taskHistory")
+      .withIndex("by_change_type", (q) => q.eq("changeType", "assignment"))
+      .filter((q) => args.projectId ? q.eq(q.field("taskProjectId"), args.projectId) : true)
+      .collect();
+
+    // Count hand-offs per user: tasks they received and tasks they passed on
+    const stats: Record<string, { received: number; handedOff: number }> = {};
+    for (const entry of assignments) {
+      if (entry.toUserId) {
+        stats[entry.toUserId] ??= { received: 0, handedOff: 0 };
+        stats[entry.toUserId].received++;
+      }
+      if (entry.fromUserId) {
+        stats[entry.fromUserId] ??= { received: 0, handedOff: 0 };
+        stats[entry.fromUserId].handedOff++;
+      }
+    }
+    return stats;
+  },
+});
+
+export const getActorStats = query({
+  args: { projectId: v.optional(v.id("projects")) },
+  handler: async (ctx, args) => {
+    const users = await ctx.db.query("users").collect();
+
+    // Count changes each user made themselves, regardless of whose task it was
+    const stats: Record<string, { changesMade: number; onOthersTasks: number }> = {};
+    await Promise.all(users.map(async (user) => {
+      const entries = await ctx.db
+        .query("taskHistory")
+        .withIndex("by_actor", (q) => q.eq("actorId", user._id))
+        .filter((q) => args.projectId ? q.eq(q.field("taskProjectId"), args.projectId) : true)
+        .collect();
+      if (entries.length === 0) return;
+      const tasks = await Promise.all([...new Set(entries.map((entry) => entry.taskId))].map((id) => ctx.db.get(id)));
+      const ownerByTask = new Map(tasks.filter((task) => task !== null).map((task) => [task._id, task.userId]));
+      stats[user._id] = {
+        changesMade: entries.length,
+        onOthersTasks: entries.filter((entry) => {
+          const ownerId = ownerByTask.get(entry.taskId);
+          return ownerId !== undefined && ownerId !== user._id;
+        }).length,
+      };
+    }));
+    return stats;
+  },
+});
+
+// Actual time over estimate: above ON_TARGET_MAX_RATIO the task was underestimated,
+// below ON_TARGET_MIN_RATIO overestimated
+const ON_TARGET_MIN_RATIO = 0.8;
+const ON_TARGET_MAX_RATIO = 1.25;
+
+// Bars of the estimate accuracy distribution, by actual/estimate ratio
+const ACCURACY_RANGES = [
+  { label: "≤0.5×", maxRatio: 0.5 },
+  { label: "0.5–0.8×", maxRatio: ON_TARGET_MIN_RATIO },
+  { label: "0.8–1.25×", maxRatio: ON_TARGET_MAX_RATIO },
+  { label: "1.25–2×", maxRatio: 2 },
+  { label: ">2×", maxRatio: Infinity },
+];
+
+type AccuracySummary = {
+  count: number;
+  estimated: number; // Minutes
+  actual: number; // Minutes
+  overestimated: number; // Tasks that took less than estimated
+  underestimated: number; // Tasks that took more
+};
+
+function addToSummary(summary: AccuracySummary | undefined, estimated: number, actual: number): AccuracySummary {
+  const ratio = actual / estimated;
+  return {
+    count: (summary?.count ?? 0) + 1,
+    estimated: (summary?.estimated ?? 0) + estimated,
+    actual: (summary?.actual ?? 0) + actual,
+    overestimated: (summary?.overestimated ?? 0) + (ratio < ON_TARGET_MIN_RATIO ? 1 : 0),
+    underestimated: (summary?.underestimated ?? 0) + (ratio > ON_TARGET_MAX_RATIO ? 1 : 0),
+  };
+}
+
+// Estimated duration vs. actual time of completed tasks that have both, per task, per
+// assignee and per duration bucket, plus how the actual/estimate ratios are distributed
+export const getEstimateStats = query({
+  args: {
+    projectId: v.optional(v.id("projects")),
+    userIds: v.optional(v.array(v.id("users"))),
+  },
+  handler: async (ctx, args) => {
+    const completed = await ctx.db
+      .query("tasks")
+      .withIndex("by_deleted_at", (q) => q.eq("deletedAt", undefined))
+      .filter((q) => q.eq(q.field("isCompleted"), true))
+      .collect();
+    const tasks = completed
+      // Legacy tasks estimated at 0 minutes have no ratio to compare
+      .filter((task) => !!task.duration && task.actualDuration !== undefined)
+      .filter((task) => !args.projectId || task.projectId === args.projectId)
+      .filter((task) => !args.userIds || (task.userId !== undefined && args.userIds.includes(task.userId)))
+      .map((task) => ({
+        _id: task._id,
+        text: task.text,
+        userId: task.userId,
+        estimated: task.duration!,
+        actual: task.actualDuration!,
+        ratio: task.actualDuration! / task.duration!,
+        bucket: task.duration! <= QUICK_TASK_MAX_MINUTES ? "quick" as const : "long" as const,
+      }))
+      // Worst estimates first, whichever way they were off
+      .sort((a, b) => Math.abs(Math.log(b.ratio)) - Math.abs(Math.log(a.ratio)));
+
+    let overall: AccuracySummary | undefined;
+    const byUser: Record<string, AccuracySummary> = {};
+    const byBucket: Partial<Record<"quick" | "long", AccuracySummary>> = {};
+    const distribution = ACCURACY_RANGES.map((range) => ({ label: range.label, quick: 0, long: 0 }));
+    for (const task of tasks) {
+      overall = addToSummary(overall, task.estimated, task.actual);
+      if (task.userId) byUser[task.userId] = addToSummary(byUser[task.userId], task.estimated, task.actual);
+      byBucket[task.bucket] = addToSummary(byBucket[task.bucket], task.estimated, task.actual);
+      distribution[ACCURACY_RANGES.findIndex((range) => task.ratio <= range.maxRatio)][task.bucket]++;
+    }
+    const onTarget = { minRatio: ON_TARGET_MIN_RATIO, maxRatio: ON_TARGET_MAX_RATIO };
+    return { tasks, overall, byUser, byBucket, distribution, onTarget };
+  },
+});
+
+export const deleteTask = mutation({
+  args: { id: v.id("tasks") },
+  handler: async (ctx, args) => {
+    await requireActorId(ctx);
+    const task = await getActiveTask(ctx, args.id);
+    const deletedAt = Date.now();
+    // Running timers are stopped while the task still counts, then its time leaves the totals
+    await stopTaskTimers(ctx, task, deletedAt);
+    await adjustTaskTimeTotals(ctx, task, -1);
+    await ctx.db.patch(args.id, { deletedAt });
+    // Changes to tasks in the trash don't count towards activity or show up in the feed
+    const history = await getHistoryEntries(ctx, args.id);
+    await adjustDailyActivity(ctx, task, history, -1);
+    await Promise.all(history.map((entry) => ctx.db.patch(entry._id, { taskDeletedAt: deletedAt })));
+    await cancelDueReminder(ctx, task);
+    await updateDependents(ctx, task, { ...task, deletedAt }, null, deletedAt);
+  },
+});
+
+export const restoreTask = mutation({
+  args: { id: v.id("tasks") },
+  handler: async (ctx, args) => {
+    await requireActorId(ctx);
+    const task = await ctx.db.get(args.id);
+    if (!task) throw new Error("Task not found");
+    if (task.deletedAt === undefined) throw new Error("Task is not in the trash");
+    await ctx.db.patch(args.id, { deletedAt: undefined });
+    const history = await getHistoryEntries(ctx, args.id);
+    await adjustDailyActivity(ctx, task, history, 1);
+    await Promise.all(history.map((entry) => ctx.db.patch(entry._id, { taskDeletedAt: undefined })));
+    await adjustTaskTimeTotals(ctx, { ...task, deletedAt: undefined }, 1);
+    await scheduleDueReminder(ctx, (await ctx.db.get(args.id))!);
+    await updateDependents(ctx, task, { ...task, deletedAt: undefined }, null, Date.now());
+    return await ctx.db.get(args.id);
+  },
+});
+
+export const purgeTask = mutation({
+  args: { id: v.id("tasks") },
+  handler: async (ctx, args) => {
+    await requireActorId(ctx);
+    const task = await ctx.db.get(args.id);
+    if (!task) throw new Error("Task not found");
+    if (task.deletedAt === undefined) throw new Error("Only tasks in the trash can be permanently deleted");
+    // Remove the history first so no entries are left pointing at a missing task
+    // (its activity was already taken out of the rollup when it was trashed)
+    const history = await getHistoryEntries(ctx, args.id);
+    await Promise.all(history.map((entry) => ctx.db.delete(entry._id)));
+    await deleteTaskNotifications(ctx, args.id);
+    await deleteTaskSubtasks(ctx, args.id);
+    await deleteTaskDependencies(ctx, args.id);
+    await deleteTaskTags(ctx, args.id);
+    await deleteTaskComments(ctx, args.id);
+    await deleteTaskAttachments(ctx, args.id);
+    await deleteTaskTimeEntries(ctx, args.id);
+    await ctx.db.delete(args.id);
+  },
+});
+
+export const listDeleted = query({
+  args: { projectId: v.optional(v.id("projects")) },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("tasks")
+      .withIndex("by_deleted_at", (q) => q.gt("deletedAt", 0))
+      .order("desc")
+      .filter((q) => args.projectId ? q.eq(q.field("projectId"), args.projectId) : true)
+      .collect();
+  },
+});
+
 export const getTaskHistory = query({
   args: { taskId: v.id("tasks") },
   handler: async (ctx, args) => {
@@ -95,127 +1163,122 @@ export const getTaskHistory = query({
   },
 });
 
+// A user matches a feed entry as the task's assignee, the user who made the change,
+// or either side of a hand-off
+function feedUserExpression(q: FilterBuilder<NamedTableInfo<DataModel, "taskHistory">>, userIds: Id<"users">[]) {
+  return q.or(...userIds.flatMap((userId) => [
+    q.eq(q.field("taskUserId"), userId),
+    q.eq(q.field("actorId"), userId),
+    q.eq(q.field("fromUserId"), userId),
+    q.eq(q.field("toUserId"), userId),
+  ]));
+}
+
+// The feed pages through the one index that fits the selected project and change type,
+// newest first, and checks the filters the index doesn't cover row by row
 export const getLatestChanges = query({
-  args: { 
-    limit: v.optional(v.number()),
-    cursor: v.optional(v.number()), // changedAt timestamp for pagination
+  args: {
+    paginationOpts: paginationOptsValidator,
     userIds: v.optional(v.array(v.id("users"))),
     showCompleted: v.optional(v.boolean()),
     showIncomplete: v.optional(v.boolean()),
-    showImportant: v.optional(v.boolean()),
-    showNotImportant: v.optional(v.boolean())
+    showPriorityRaised: v.optional(v.boolean()), // Also matches tasks marked important before priorities existed
+    showPriorityLowered: v.optional(v.boolean()),
+    showStatusChanges: v.optional(v.boolean()), // Moves between statuses that don't finish or reopen the task
+    projectId: v.optional(v.id("projects")),
   },
   handler: async (ctx, args) => {
-    const limit = args.limit ?? 20;
-    const cursor = args.cursor ?? Date.now();
-    const hasAnyFilter = args.showCompleted !== undefined || args.showIncomplete !== undefined || 
-                         args.showImportant !== undefined || args.showNotImportant !== undefined;
-    const hasUserFilter = args.userIds && args.userIds.length > 0;
-    
-    // Build a set of allowed user IDs for quick lookup
-    const allowedUserIds = hasUserFilter ? new Set(args.userIds) : null;
-    
-    // Query history directly using the changedAt index (much more efficient)
-    // Fetch more than needed to account for filtering
-    const fetchMultiplier = (hasAnyFilter || hasUserFilter) ? 10 : 2;
-    const historyEntries = await ctx.db
-      .query("taskHistory")
-      .withIndex("by_changed_at", (q) => q.lt("changedAt", cursor))
+    const userIds = args.userIds && args.userIds.length > 0 ? args.userIds : null;
+    const projectId = args.projectId;
+
+    // Change-type filters map to (changeType, changedTo) pairs
+    const changeTypeFilters: [string, boolean | undefined][] = [];
+    if (args.showCompleted) changeTypeFilters.push(["completion", true]);
+    if (args.showIncomplete) changeTypeFilters.push(["completion", false]);
+    if (args.showPriorityRaised) changeTypeFilters.push(["priority", true], ["importance", true]);
+    if (args.showPriorityLowered) changeTypeFilters.push(["priority", false], ["importance", false]);
+    if (args.showStatusChanges) changeTypeFilters.push(["status", undefined]);
+    // A single pair is read from an index; several are checked row by row
+    const indexedChangeType = changeTypeFilters.length === 1 ? changeTypeFilters[0] : null;
+
+    const history = ctx.db.query("taskHistory");
+    const indexed = projectId && indexedChangeType
+      ? history.withIndex("by_feed_project_change_type", (q) => q
+        .eq("taskDeletedAt", undefined)
+        .eq("taskProjectId", projectId)
+        .eq("changeType", indexedChangeType[0])
+        .eq("changedTo", indexedChangeType[1]))
+      : projectId
+        ? history.withIndex("by_feed_project", (q) => q.eq("taskDeletedAt", undefined).eq("taskProjectId", projectId))
+        : indexedChangeType
+          ? history.withIndex("by_feed_change_type", (q) => q
+            .eq("taskDeletedAt", undefined)
+            .eq("changeType", indexedChangeType[0])
+            .eq("changedTo", indexedChangeType[1]))
+          : history.withIndex("by_feed", (q) => q.eq("taskDeletedAt", undefined));
+
+    const result = await indexed
       .order("desc")
-      .take(limit * fetchMultiplier);
-    
-    if (historyEntries.length === 0) {
-      return { changes: [], nextCursor: null, hasMore: false };
-    }
-    
-    // Batch fetch all unique tasks referenced by these history entries
-    const taskIds = [...new Set(historyEntries.map(e => e.taskId))];
-    const tasks = await Promise.all(taskIds.map(id => ctx.db.get(id)));
-    const taskMap = new Map(tasks.filter(t => t !== null).map(t => [t!._id, t!]));
-    
-    // Filter history entries
-    let filteredEntries = historyEntries.filter(entry => {
-      const task = taskMap.get(entry.taskId);
-      if (!task) return false;
-      
-      // Filter by user if needed
-      if (allowedUserIds && (!task.userId || !allowedUserIds.has(task.userId))) {
-        return false;
-      }
-      
-      // Filter by change type if filters are provided
-      if (hasAnyFilter) {
-        const isCompletionChange = !entry.changeType || entry.changeType === "completion";
-        const isImportanceChange = entry.changeType === "importance";
-        
-        if (isCompletionChange) {
-          if (args.showCompleted && entry.changedTo) return true;
-          if (args.showIncomplete && !entry.changedTo) return true;
-        }
-        
-        if (isImportanceChange) {
-          if (args.showImportant && entry.changedTo) return true;
-          if (args.showNotImportant && !entry.changedTo) return true;
+      .filter((q) => {
+        const conditions: ExpressionOrValue<boolean>[] = [];
+        if (changeTypeFilters.length > 1) {
+          conditions.push(q.or(...changeTypeFilters.map(([changeType, changedTo]) => q.and(
+            q.eq(q.field("changeType"), changeType),
+            q.eq(q.field("changedTo"), changedTo),
+          ))));
         }
-        
-        return false;
-      }
-      
-      return true;
-    });
-    
-    // Take only what we need
-    const pageHistory = filteredEntries.slice(0, limit);
-    
-    // Batch fetch users for the final results
-    const userIdsNeeded = new Set<string>();
-    pageHistory.forEach(entry => {
+        if (userIds) conditions.push(feedUserExpression(q, userIds));
+        return conditions.length > 0 ? q.and(...conditions) : true;
+      })
+      .paginate(args.paginationOpts);
+    const pageHistory = result.page;
+
+    // Batch fetch tasks and users for the page
+    const taskIds = [...new Set(pageHistory.map((entry) => entry.taskId))];
+    const tasks = await Promise.all(taskIds.map((id) => ctx.db.get(id)));
+    const taskMap = new Map(tasks.filter((task) => task !== null).map((task) => [task._id, task]));
+
+    const userIdsNeeded = new Set<Id<"users">>();
+    pageHistory.forEach((entry) => {
       const task = taskMap.get(entry.taskId);
-      if (task?.userId) {
-        userIdsNeeded.add(task.userId);
-      }
+      if (task?.userId) userIdsNeeded.add(task.userId);
+      if (entry.fromUserId) userIdsNeeded.add(entry.fromUserId);
+      if (entry.toUserId) userIdsNeeded.add(entry.toUserId);
+      if (entry.actorId) userIdsNeeded.add(entry.actorId);
     });
-    
-    const usersData = await Promise.all([...userIdsNeeded].map(id => ctx.db.get(id as any)));
-    const usersMap = new Map<string, { _id: string; name: string; image?: string }>();
-    usersData.forEach(u => {
+    const usersMap = new Map<string, { _id: Id<"users">; name: string; imageUrl: string | null }>();
+    await Promise.all([...userIdsNeeded].map(async (id) => {
+      const u = await ctx.db.get(id);
       if (u) {
-        const user = u as any;
-        usersMap.set(user._id, { _id: user._id, name: user.name, image: user.image });
+        const user = await withAvatarUrls(ctx, u);
+        // Feed rows only render a small avatar, so prefer the thumbnail
+        usersMap.set(user._id, { _id: user._id, name: user.name, imageUrl: user.thumbnailUrl ?? user.imageUrl });
       }
-    });
-    
-    // Build the result
-    const changesWithTasks = pageHistory.map((entry) => {
+    }));
+
+    const page = pageHistory.flatMap((entry) => {
       const task = taskMap.get(entry.taskId);
-      if (!task) return null;
-      
+      if (!task) return [];
+
       const user = task.userId ? usersMap.get(task.userId) : null;
-      
-      return {
+      const fromUser = entry.fromUserId ? usersMap.get(entry.fromUserId) : null;
+      const toUser = entry.toUserId ? usersMap.get(entry.toUserId) : null;
+      const actor = entry.actorId ? usersMap.get(entry.actorId) : null;
+
+      return [{
         ...entry,
         task: {
           _id: task._id,
           text: task.text,
         },
-        user: user ? {
-          _id: user._id,
-          name: user.name,
-          image: user.image,
-        } : null,
-      };
-    }).filter(change => change !== null);
-    
-    // Calculate next cursor
-    const nextCursor = pageHistory.length === limit && pageHistory.length > 0
-      ? pageHistory[pageHistory.length - 1].changedAt
-      : null;
-    
-    return {
-      changes: changesWithTasks,
-      nextCursor,
-      hasMore: nextCursor !== null,
-    };
+        user: user ?? null,
+        fromUser: fromUser ? { _id: fromUser._id, name: fromUser.name } : null,
+        toUser: toUser ? { _id: toUser._id, name: toUser.name } : null,
+        actor: actor ? { _id: actor._id, name: actor.name } : null,
+      }];
+    });
+
+    return { ...result, page };
   },
 });
 
@@ -223,63 +1286,244 @@ export const getChangesOverTime = query({
   args: {
     userIds: v.optional(v.array(v.id("users"))),
     days: v.optional(v.number()), // Number of days to look back (default 5)
+    timeZone: v.optional(v.string()), // IANA zone to bucket days in (default: the viewer's)
+    projectId: v.optional(v.id("projects")),
   },
   handler: async (ctx, args) => {
     const days = args.days ?? 5;
-    const startTime = Date.now() - (days * 24 * 60 * 60 * 1000);
-    const endTime = Date.now();
+    const viewerId = await getAuthUserId(ctx);
+    const viewer = viewerId ? await ctx.db.get(viewerId) : null;
+    // Zones picked after the fact are served in UTC until their backfill finishes
+    const timeZone = await resolveActivityTimeZone(ctx, args.timeZone ?? viewer?.timeZone ?? DEFAULT_TIME_ZONE);
+    const zoneKey = activityZoneKey(timeZone);
+    const now = Date.now();
+    const startDay = startOfDayInZone(now - days * DAY_MS, timeZone);
+    const endDay = startOfDayInZone(now, timeZone);
     const hasUserFilter = args.userIds && args.userIds.length > 0;
-    const allowedUserIds = hasUserFilter ? new Set(args.userIds!.map(id => id.toString())) : null;
-    
-    // Query history directly using the changedAt index (single indexed query)
-    const historyEntries = await ctx.db
-      .query("taskHistory")
-      .withIndex("by_changed_at", (q) => q.gte("changedAt", startTime).lte("changedAt", endTime))
-      .collect();
-    
-    // Batch fetch all unique tasks referenced by these history entries
-    const taskIds = [...new Set(historyEntries.map(e => e.taskId))];
-    const tasks = await Promise.all(taskIds.map(id => ctx.db.get(id)));
-    const taskMap = new Map<string, { userId?: string }>();
-    tasks.forEach(t => {
-      if (t) taskMap.set(t._id, { userId: t.userId });
-    });
-    
-    // Initialize all days in the range
+    const projectId = args.projectId;
+
+    // Read the pre-aggregated rollup instead of scanning taskHistory
+    const rows = hasUserFilter
+      ? (await Promise.all(args.userIds!.map((userId) =>
+          ctx.db
+            .query("dailyActivity")
+            .withIndex("by_zone_user_day", (q) => q.eq("timeZone", zoneKey).eq("userId", userId).gte("day", startDay))
+            .filter((q) => projectId ? q.eq(q.field("projectId"), projectId) : true)
+            .collect()
+        ))).flat()
+      : projectId
+        ? await ctx.db
+            .query("dailyActivity")
+            .withIndex("by_zone_project_day", (q) => q.eq("timeZone", zoneKey).eq("projectId", projectId).gte("day", startDay))
+            .collect()
+        : await ctx.db
+            .query("dailyActivity")
+            .withIndex("by_zone_day", (q) => q.eq("timeZone", zoneKey).gte("day", startDay))
+            .collect();
+
+    // Initialize all days in the range; DST makes some of them 23 or 25 hours long
     const dailyData: Record<string, Record<string, number>> = {};
-    const startDate = new Date(startTime);
-    const endDate = new Date(endTime);
-    for (let d = new Date(startDate); d <= endDate; d.setDate(d.getDate() + 1)) {
-      const dayStart = new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
-      const dayKey = dayStart.toString();
-      dailyData[dayKey] = {};
+    for (let day = startDay; day <= endDay; day = nextDayInZone(day, timeZone)) {
+      dailyData[day.toString()] = {};
     }
-    
-    // Count changes per day per user
-    for (const entry of historyEntries) {
-      const task = taskMap.get(entry.taskId);
-      if (!task?.userId) continue;
-      
-      // Filter by user if needed
-      if (allowedUserIds && !allowedUserIds.has(task.userId.toString())) continue;
-      
-      // Get start of day (midnight) for this entry
-      const entryDate = new Date(entry.changedAt);
-      const dayStart = new Date(entryDate.getFullYear(), entryDate.getMonth(), entryDate.getDate()).getTime();
-      const dayKey = dayStart.toString();
-      
+
+    // Sum the change types per day per user
+    for (const row of rows) {
+      const dayKey = row.day.toString();
       if (!dailyData[dayKey]) {
         dailyData[dayKey] = {};
       }
-      dailyData[dayKey][task.userId] = (dailyData[dayKey][task.userId] || 0) + 1;
+      dailyData[dayKey][row.userId] = (dailyData[dayKey][row.userId] || 0) + row.count;
     }
-    
+
     // Convert to array format, including all days in range
-    const result = Object.entries(dailyData).map(([time, userCounts]) => ({
+    const points = Object.entries(dailyData).map(([time, userCounts]) => ({
       time: parseInt(time),
       ...userCounts,
     }));
-    
-    return result.sort((a, b) => a.time - b.time);
+
+    return { timeZone, points: points.sort((a, b) => a.time - b.time) };
+  },
+});
+
+const BACKFILL_BATCH_SIZE = 100;
+
+// Fills in historyCount/lastChangedAt for tasks created before the counters
+// existed. Processes one batch and schedules itself for the next one.
+// Run with `npx convex run tasks:backfillHistoryCounts`.
+export const backfillHistoryCounts = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args) => {
+    const { page, isDone, continueCursor } = await ctx.db
+      .query("tasks")
+      .paginate({ numItems: BACKFILL_BATCH_SIZE, cursor: args.cursor ?? null });
+
+    for (const task of page) {
+      const history = await getHistoryEntries(ctx, task._id);
+      await ctx.db.patch(task._id, {
+        historyCount: history.length,
+        lastChangedAt: history.length > 0 ? Math.max(...history.map((entry) => entry.changedAt)) : undefined,
+      });
+    }
+
+    if (!isDone) {
+      await ctx.scheduler.runAfter(0, internal.tasks.backfillHistoryCounts, { cursor: continueCursor });
+    }
+  },
+});
+
+// Rebuilds the dailyActivity rollup of one zone from taskHistory. For UTC this is for
+// history recorded before the rollup existed and expects no UTC rows yet. Other zones
+// are backfilled when a user first picks them; only history from before then is
+// counted, since later changes were rolled up as they happened. Processes one batch
+// of tasks and schedules itself for the next one.
+// Run with `npx convex run tasks:backfillDailyActivity`.
+export const backfillDailyActivity = internalMutation({
+  args: {
+    timeZone: v.optional(v.string()),
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const timeZone = args.timeZone ?? DEFAULT_TIME_ZONE;
+    const zone = timeZone === DEFAULT_TIME_ZONE ? null : await ctx.db
+      .query("activityTimeZones")
+      .withIndex("by_time_zone", (q) => q.eq("timeZone", timeZone))
+      .unique();
+    if (timeZone !== DEFAULT_TIME_ZONE && !zone) {
+      throw new Error(`${timeZone} is not tracked; pick it as a user's time zone first`);
+    }
+    if (!zone && !args.cursor) {
+      const existing = await ctx.db
+        .query("dailyActivity")
+        .withIndex("by_zone_day", (q) => q.eq("timeZone", undefined))
+        .first();
+      if (existing !== null) {
+        throw new Error("dailyActivity already has UTC rows; clear them before rebuilding");
+      }
+    }
+
+    const { page, isDone, continueCursor } = await ctx.db
+      .query("tasks")
+      .paginate({ numItems: BACKFILL_BATCH_SIZE, cursor: args.cursor ?? null });
+
+    for (const task of page) {
+      if (task.deletedAt !== undefined) continue;
+      const history = await getHistoryEntries(ctx, task._id);
+      const entries = zone ? history.filter((entry) => entry._creationTime < zone._creationTime) : history;
+      await adjustDailyActivity(ctx, task, entries, 1, [timeZone]);
+    }
+
+    if (!isDone) {
+      await ctx.scheduler.runAfter(0, internal.tasks.backfillDailyActivity, { timeZone: args.timeZone, cursor: continueCursor });
+    } else if (zone) {
+      await ctx.db.patch(zone._id, { backfilledAt: Date.now() });
+    }
+  },
+});
+
+// Copies each task's assignee, trash state and project onto its history entries and fills in
+// the change type of entries from before change types existed, so the latest changes
+// feed indexes cover them. Processes one batch of tasks and schedules itself for the next.
+// Run with `npx convex run tasks:backfillHistoryFeedFields`.
+export const backfillHistoryFeedFields = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args) => {
+    const { page, isDone, continueCursor } = await ctx.db
+      .query("tasks")
+      .paginate({ numItems: BACKFILL_BATCH_SIZE, cursor: args.cursor ?? null });
+
+    for (const task of page) {
+      const history = await getHistoryEntries(ctx, task._id);
+      await Promise.all(history.map((entry) => ctx.db.patch(entry._id, {
+        changeType: entry.changeType ?? "completion",
+        taskUserId: task.userId,
+        taskDeletedAt: task.deletedAt,
+        taskProjectId: task.projectId,
+      })));
+    }
+
+    if (!isDone) {
+      await ctx.scheduler.runAfter(0, internal.tasks.backfillHistoryFeedFields, { cursor: continueCursor });
+    }
+  },
+});
+
+// Sets priority on tasks from before priorities existed, from their isImportant flag
+// (important tasks become P1, the rest P2), and clears the flag. Processes one batch
+// and schedules itself for the next one.
+// Run with `npx convex run tasks:migratePriorities`.
+export const migratePriorities = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args) => {
+    const { page, isDone, continueCursor } = await ctx.db
+      .query("tasks")
+      .paginate({ numItems: BACKFILL_BATCH_SIZE, cursor: args.cursor ?? null });
+
+    for (const task of page) {
+      if (task.priority !== undefined && task.isImportant === undefined) continue;
+      await ctx.db.patch(task._id, { priority: getPriority(task), isImportant: undefined });
+    }
+
+    if (!isDone) {
+      await ctx.scheduler.runAfter(0, internal.tasks.migratePriorities, { cursor: continueCursor });
+    }
+  },
+});
+
+// Gives every workflow the default statuses and puts each task from before statuses existed
+// in its workflow's first done or open status, depending on isCompleted. Processes one
+// batch and schedules itself for the next one.
+// Run with `npx convex run tasks:migrateStatuses`.
+export const migrateStatuses = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args) => {
+    if (!args.cursor) {
+      // Projects without tasks get their workflow too
+      await ensureWorkflow(ctx, undefined);
+      for (const project of await ctx.db.query("projects").collect()) {
+        await ensureWorkflow(ctx, project._id);
+      }
+    }
+
+    const { page, isDone, continueCursor } = await ctx.db
+      .query("tasks")
+      .paginate({ numItems: BACKFILL_BATCH_SIZE, cursor: args.cursor ?? null });
+
+    for (const task of page) {
+      if (task.statusId !== undefined) continue;
+      const status = await getDefaultStatus(ctx, task.projectId, task.isCompleted);
+      await ctx.db.patch(task._id, { statusId: status._id });
+    }
+
+    if (!isDone) {
+      await ctx.scheduler.runAfter(0, internal.tasks.migrateStatuses, { cursor: continueCursor });
+    }
+  },
+});
+
+// Records the actual effort of tasks completed before it was recorded, measured from their
+// tracked time or history up to their latest completion. Processes one batch and schedules
+// itself for the next one.
+// Run with `npx convex run tasks:migrateActualDurations`.
+export const migrateActualDurations = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args) => {
+    const { page, isDone, continueCursor } = await ctx.db
+      .query("tasks")
+      .paginate({ numItems: BACKFILL_BATCH_SIZE, cursor: args.cursor ?? null });
+
+    for (const task of page) {
+      if (!task.isCompleted || task.actualDuration !== undefined) continue;
+      const completions = (await getHistoryEntries(ctx, task._id))
+        .filter((entry) => entry.changeType === "completion" && entry.changedTo === true);
+      if (completions.length === 0) continue;
+      const completedAt = Math.max(...completions.map((entry) => entry.changedAt));
+      const actualDuration = await measureActualDuration(ctx, task, completedAt);
+      if (actualDuration !== undefined) await ctx.db.patch(task._id, { actualDuration });
+    }
+
+    if (!isDone) {
+      await ctx.scheduler.runAfter(0, internal.tasks.migrateActualDurations, { cursor: continueCursor });
+    }
   },
 });
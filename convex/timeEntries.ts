@@ -0,0 +1,277 @@
+import { internalMutation, mutation, query, type MutationCtx, type QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { requireActorId } from "./auth";
+import { getActiveTask } from "./tasks";
+
+function validateRange(startedAt: number, endedAt: number | undefined, now: number) {
+  if (startedAt > now) throw new Error("Time entries can't start in the future");
+  if (endedAt !== undefined) {
+    if (endedAt <= startedAt) throw new Error("A time entry has to end after it starts");
+    if (endedAt > now) throw new Error("Time entries can't end in the future");
+  }
+}
+
+function entryMs(entry: Doc<"timeEntries">) {
+  return entry.endedAt === undefined ? 0 : entry.endedAt - entry.startedAt;
+}
+
+// Adds time to the user's total for the task's project, unless the task is in the trash
+async function adjustTimeTotal(ctx: MutationCtx, task: Doc<"tasks"> | null, userId: Id<"users">, deltaMs: number) {
+  if (deltaMs === 0 || !task || task.deletedAt !== undefined) return;
+  const row = await ctx.db
+    .query("timeTotals")
+    .withIndex("by_project_user", (q) => q.eq("projectId", task.projectId).eq("userId", userId))
+    .unique();
+  if (row) {
+    const trackedMs = row.trackedMs + deltaMs;
+    if (trackedMs > 0) {
+      await ctx.db.patch(row._id, { trackedMs });
+    } else {
+      await ctx.db.delete(row._id);
+    }
+  } else if (deltaMs > 0) {
+    await ctx.db.insert("timeTotals", { userId, projectId: task.projectId, trackedMs: deltaMs });
+  }
+}
+
+// Recounts the finished entries on a task; running timers count once they're stopped
+async function updateTrackedTime(ctx: MutationCtx, taskId: Id<"tasks">) {
+  const entries = await ctx.db
+    .query("timeEntries")
+    .withIndex("by_task", (q) => q.eq("taskId", taskId))
+    .collect();
+  const trackedMs = entries.reduce(
+    (sum, entry) => entry.endedAt === undefined ? sum : sum + entry.endedAt - entry.startedAt,
+    0,
+  );
+  await ctx.db.patch(taskId, { trackedMs });
+}
+
+async function getRunningEntry(ctx: QueryCtx, userId: Id<"users">) {
+  return await ctx.db
+    .query("timeEntries")
+    .withIndex("by_user", (q) => q.eq("userId", userId).eq("endedAt", undefined))
+    .first();
+}
+
+// Fetch an entry the signed-in user may change: only the user who tracked the time can
+async function getOwnEntry(ctx: MutationCtx, id: Id<"timeEntries">, actorId: Id<"users">) {
+  const entry = await ctx.db.get(id);
+  if (!entry) throw new Error("Time entry not found");
+  if (entry.userId !== actorId) throw new Error("Only the user who tracked the time can change it");
+  const task = await getActiveTask(ctx, entry.taskId);
+  return { entry, task };
+}
+
+// Stops a running entry, counting its time towards the task and the user's total
+async function stopEntry(ctx: MutationCtx, task: Doc<"tasks"> | null, entry: Doc<"timeEntries">, now: number) {
+  const endedAt = Math.max(now, entry.startedAt + 1);
+  await ctx.db.patch(entry._id, { endedAt });
+  await adjustTimeTotal(ctx, task, entry.userId, endedAt - entry.startedAt);
+}
+
+// Stops every timer still running on a task, e.g. when it's completed or moved to the trash
+export async function stopTaskTimers(ctx: MutationCtx, task: Doc<"tasks">, now: number) {
+  const entries = await ctx.db
+    .query("timeEntries")
+    .withIndex("by_task", (q) => q.eq("taskId", task._id))
+    .collect();
+  const running = entries.filter((entry) => entry.endedAt === undefined);
+  if (running.length === 0) return;
+  for (const entry of running) {
+    await stopEntry(ctx, task, entry, now);
+  }
+  await updateTrackedTime(ctx, task._id);
+}
+
+// Adds (delta 1) or removes (delta -1) a task's time from the totals, e.g. when
+// it's moved to the trash or to another project
+export async function adjustTaskTimeTotals(ctx: MutationCtx, task: Doc<"tasks">, delta: number) {
+  const entries = await ctx.db
+    .query("timeEntries")
+    .withIndex("by_task", (q) => q.eq("taskId", task._id))
+    .collect();
+  const byUser = new Map<Id<"users">, number>();
+  for (const entry of entries) {
+    byUser.set(entry.userId, (byUser.get(entry.userId) ?? 0) + entryMs(entry));
+  }
+  for (const [userId, trackedMs] of byUser) {
+    await adjustTimeTotal(ctx, task, userId, delta * trackedMs);
+  }
+}
+
+export async function deleteTaskTimeEntries(ctx: MutationCtx, taskId: Id<"tasks">) {
+  const entries = await ctx.db
+    .query("timeEntries")
+    .withIndex("by_task", (q) => q.eq("taskId", taskId))
+    .collect();
+  await Promise.all(entries.map((entry) => ctx.db.delete(entry._id)));
+}
+
+// A task's entries, newest first, with the name of whoever tracked them
+export const listTimeEntries = query({
+  args: { taskId: v.id("tasks") },
+  handler: async (ctx, args) => {
+    const entries = await ctx.db
+      .query("timeEntries")
+      .withIndex("by_task", (q) => q.eq("taskId", args.taskId))
+      .order("desc")
+      .collect();
+    return await Promise.all(entries.map(async (entry) => {
+      const user = await ctx.db.get(entry.userId);
+      return { ...entry, userName: user?.name ?? "Unknown" };
+    }));
+  },
+});
+
+// The signed-in user's running timer and the task it's on, or null
+export const getRunningTimer = query({
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return null;
+    const entry = await getRunningEntry(ctx, userId);
+    if (!entry) return null;
+    const task = await ctx.db.get(entry.taskId);
+    return task ? { ...entry, task: { _id: task._id, text: task.text } } : null;
+  },
+});
+
+// Time each user tracked on tasks that aren't in the trash, in ms
+export const getTimeStats = query({
+  args: { projectId: v.optional(v.id("projects")) },
+  handler: async (ctx, args) => {
+    const totals = args.projectId
+      ? await ctx.db
+        .query("timeTotals")
+        .withIndex("by_project_user", (q) => q.eq("projectId", args.projectId))
+        .collect()
+      : await ctx.db.query("timeTotals").collect();
+
+    const stats: Record<string, { trackedMs: number }> = {};
+    for (const total of totals) {
+      stats[total.userId] ??= { trackedMs: 0 };
+      stats[total.userId].trackedMs += total.trackedMs;
+    }
+    return stats;
+  },
+});
+
+// Starting a timer stops the one the user already has running, so there's never more than one
+export const startTimer = mutation({
+  args: { taskId: v.id("tasks") },
+  handler: async (ctx, args) => {
+    const actorId = await requireActorId(ctx);
+    await getActiveTask(ctx, args.taskId);
+    const now = Date.now();
+    const running = await getRunningEntry(ctx, actorId);
+    if (running) {
+      if (running.taskId === args.taskId) return running;
+      await stopEntry(ctx, await ctx.db.get(running.taskId), running, now);
+      await updateTrackedTime(ctx, running.taskId);
+    }
+    const entryId = await ctx.db.insert("timeEntries", {
+      taskId: args.taskId,
+      userId: actorId,
+      startedAt: now,
+    });
+    return await ctx.db.get(entryId);
+  },
+});
+
+// Stops the signed-in user's running timer, if there is one
+export const stopTimer = mutation({
+  handler: async (ctx) => {
+    const actorId = await requireActorId(ctx);
+    const running = await getRunningEntry(ctx, actorId);
+    if (!running) return null;
+    await stopEntry(ctx, await ctx.db.get(running.taskId), running, Date.now());
+    await updateTrackedTime(ctx, running.taskId);
+    return await ctx.db.get(running._id);
+  },
+});
+
+// Records time spent without the timer
+export const addTimeEntry = mutation({
+  args: {
+    taskId: v.id("tasks"),
+    startedAt: v.number(),
+    endedAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const actorId = await requireActorId(ctx);
+    const task = await getActiveTask(ctx, args.taskId);
+    validateRange(args.startedAt, args.endedAt, Date.now());
+    const entryId = await ctx.db.insert("timeEntries", {
+      taskId: args.taskId,
+      userId: actorId,
+      startedAt: args.startedAt,
+      endedAt: args.endedAt,
+    });
+    await adjustTimeTotal(ctx, task, actorId, args.endedAt - args.startedAt);
+    await updateTrackedTime(ctx, args.taskId);
+    return await ctx.db.get(entryId);
+  },
+});
+
+// A running entry's start can be corrected, but it ends by being stopped
+export const updateTimeEntry = mutation({
+  args: {
+    id: v.id("timeEntries"),
+    startedAt: v.optional(v.number()),
+    endedAt: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const actorId = await requireActorId(ctx);
+    const { entry, task } = await getOwnEntry(ctx, args.id, actorId);
+    if (entry.endedAt === undefined && args.endedAt !== undefined) {
+      throw new Error("Stop the timer to end this entry");
+    }
+    const startedAt = args.startedAt ?? entry.startedAt;
+    const endedAt = args.endedAt ?? entry.endedAt;
+    validateRange(startedAt, endedAt, Date.now());
+    await ctx.db.patch(args.id, { startedAt, endedAt });
+    await adjustTimeTotal(ctx, task, actorId, entryMs({ ...entry, startedAt, endedAt }) - entryMs(entry));
+    await updateTrackedTime(ctx, entry.taskId);
+    return await ctx.db.get(args.id);
+  },
+});
+
+export const deleteTimeEntry = mutation({
+  args: { id: v.id("timeEntries") },
+  handler: async (ctx, args) => {
+    const actorId = await requireActorId(ctx);
+    const { entry, task } = await getOwnEntry(ctx, args.id, actorId);
+    await ctx.db.delete(args.id);
+    await adjustTimeTotal(ctx, task, actorId, -entryMs(entry));
+    await updateTrackedTime(ctx, entry.taskId);
+  },
+});
+
+const BACKFILL_BATCH_SIZE = 100;
+
+// Builds the timeTotals rollup from the entries tracked before it existed and expects
+// no rows yet. Processes one batch of tasks and schedules itself for the next one.
+// Run with `npx convex run timeEntries:backfillTimeTotals`.
+export const backfillTimeTotals = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args) => {
+    if (!args.cursor && await ctx.db.query("timeTotals").first() !== null) {
+      throw new Error("timeTotals already has rows; clear them before rebuilding");
+    }
+
+    const { page, isDone, continueCursor } = await ctx.db
+      .query("tasks")
+      .paginate({ numItems: BACKFILL_BATCH_SIZE, cursor: args.cursor ?? null });
+
+    for (const task of page) {
+      await adjustTaskTimeTotals(ctx, task, 1);
+    }
+
+    if (!isDone) {
+      await ctx.scheduler.runAfter(0, internal.timeEntries.backfillTimeTotals, { cursor: continueCursor });
+    }
+  },
+});
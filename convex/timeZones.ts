@@ -0,0 +1,40 @@
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+
+// Zone used when a user hasn't picked one. Its activity rollup always exists.
+export const DEFAULT_TIME_ZONE = "UTC";
+
+// Rollup rows for the default zone predate per-zone rollups and leave timeZone unset
+export function activityZoneKey(timeZone: string): string | undefined {
+  return timeZone === DEFAULT_TIME_ZONE ? undefined : timeZone;
+}
+
+// Every zone the activity rollup is kept in: the default plus each zone a user has picked
+export async function getActivityTimeZones(ctx: QueryCtx): Promise<string[]> {
+  const zones = await ctx.db.query("activityTimeZones").collect();
+  return [DEFAULT_TIME_ZONE, ...zones.map((zone) => zone.timeZone)];
+}
+
+// Zone the chart can be served in: the requested one once its rollup is complete,
+// otherwise the default
+export async function resolveActivityTimeZone(ctx: QueryCtx, timeZone: string): Promise<string> {
+  if (timeZone === DEFAULT_TIME_ZONE) return timeZone;
+  const zone = await ctx.db
+    .query("activityTimeZones")
+    .withIndex("by_time_zone", (q) => q.eq("timeZone", timeZone))
+    .unique();
+  return zone?.backfilledAt !== undefined ? timeZone : DEFAULT_TIME_ZONE;
+}
+
+// Starts keeping the activity rollup in a zone the first time someone picks it.
+// New changes are counted from now on; older history is filled in by a backfill.
+export async function trackActivityTimeZone(ctx: MutationCtx, timeZone: string) {
+  if (timeZone === DEFAULT_TIME_ZONE) return;
+  const existing = await ctx.db
+    .query("activityTimeZones")
+    .withIndex("by_time_zone", (q) => q.eq("timeZone", timeZone))
+    .unique();
+  if (existing) return;
+  await ctx.db.insert("activityTimeZones", { timeZone });
+  await ctx.scheduler.runAfter(0, internal.tasks.backfillDailyActivity, { timeZone });
+}
@@ -0,0 +1,220 @@
+import { internalMutation, internalQuery, mutation, query, type MutationCtx, type QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { requireActorId } from "./auth";
+import { trackActivityTimeZone } from "./timeZones";
+import { isValidTimeZone } from "./zonedTime";
+
+const MAX_NAME_LENGTH = 50;
+const MAX_IMAGE_BYTES = 2 * 1024 * 1024;
+const HEX_COLOR_PATTERN = /^#[0-9A-Fa-f]{6}$/;
+
+export async function validateName(ctx: MutationCtx, value: string, currentUserId?: Id<"users">): Promise<string> {
+  const name = value.trim();
+  if (!name) throw new Error("Name is required");
+  if (name.length > MAX_NAME_LENGTH) {
+    throw new Error(`Name must be at most ${MAX_NAME_LENGTH} characters`);
+  }
+  const existing = await ctx.db
+    .query("users")
+    .withIndex("by_name", (q) => q.eq("name", name))
+    .first();
+  if (existing && existing._id !== currentUserId) {
+    throw new Error(`A user named "${name}" already exists`);
+  }
+  return name;
+}
+
+export function validateColor(value: string): string {
+  if (!HEX_COLOR_PATTERN.test(value)) {
+    throw new Error("Color must be a hex code like #FFA500");
+  }
+  return value.toUpperCase();
+}
+
+// Replaces the user's avatar with an uploaded file and schedules a fresh thumbnail.
+// The previous image and thumbnail are removed from storage.
+async function replaceImage(ctx: MutationCtx, user: Doc<"users">, imageId: Id<"_storage"> | undefined) {
+  await ctx.db.patch(user._id, { imageId, thumbnailId: undefined, image: undefined });
+  if (user.imageId && user.imageId !== imageId) await ctx.storage.delete(user.imageId);
+  if (user.thumbnailId) await ctx.storage.delete(user.thumbnailId);
+  if (imageId) {
+    await ctx.scheduler.runAfter(0, internal.images.generateThumbnail, { userId: user._id, imageId });
+  }
+}
+
+// Resolves storage IDs to URLs so clients never download base64 blobs with user rows
+export async function withAvatarUrls(ctx: QueryCtx, user: Doc<"users">) {
+  return {
+    _id: user._id,
+    _creationTime: user._creationTime,
+    name: user.name,
+    color: user.color,
+    deactivatedAt: user.deactivatedAt,
+    imageUrl: user.imageId ? await ctx.storage.getUrl(user.imageId) : null,
+    thumbnailUrl: user.thumbnailId ? await ctx.storage.getUrl(user.thumbnailId) : null,
+  };
+}
+
+export const viewer = query({
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return null;
+    const user = await ctx.db.get(userId);
+    return user ? { ...await withAvatarUrls(ctx, user), timeZone: user.timeZone } : null;
+  },
+});
+
+// Sets the zone the signed-in user sees dates and activity days in
+export const setTimeZone = mutation({
+  args: { timeZone: v.string() },
+  handler: async (ctx, args) => {
+    const actorId = await requireActorId(ctx);
+    if (!isValidTimeZone(args.timeZone)) {
+      throw new Error(`Unknown time zone: ${args.timeZone}`);
+    }
+    await ctx.db.patch(actorId, { timeZone: args.timeZone });
+    await trackActivityTimeZone(ctx, args.timeZone);
+  },
+});
+
+export const createUser = mutation({
+  args: {
+    name: v.string(),
+    color: v.optional(v.string()), // Hex color code
+  },
+  handler: async (ctx, args) => {
+    await requireActorId(ctx);
+    const name = await validateName(ctx, args.name);
+    const userId = await ctx.db.insert("users", {
+      name,
+      color: args.color !== undefined ? validateColor(args.color) : undefined,
+    });
+    return await ctx.db.get(userId);
+  },
+});
+
+export const updateUser = mutation({
+  args: {
+    id: v.id("users"),
+    name: v.optional(v.string()),
+    color: v.optional(v.union(v.string(), v.null())), // null clears the color
+  },
+  handler: async (ctx, args) => {
+    await requireActorId(ctx);
+    const user = await ctx.db.get(args.id);
+    if (!user) throw new Error("User not found");
+
+    const patch: { name?: string; color?: string } = {};
+    if (args.name !== undefined) {
+      patch.name = await validateName(ctx, args.name, args.id);
+    }
+    if (args.color !== undefined) {
+      patch.color = args.color === null ? undefined : validateColor(args.color);
+    }
+    await ctx.db.patch(args.id, patch);
+    return await ctx.db.get(args.id);
+  },
+});
+
+export const deactivateUser = mutation({
+  args: { id: v.id("users") },
+  handler: async (ctx, args) => {
+    const actorId = await requireActorId(ctx);
+    const user = await ctx.db.get(args.id);
+    if (!user) throw new Error("User not found");
+    if (user.deactivatedAt !== undefined) throw new Error("User is already deactivated");
+    if (user._id === actorId) throw new Error("You can't deactivate your own account");
+    await ctx.db.patch(args.id, { deactivatedAt: Date.now() });
+  },
+});
+
+export const reactivateUser = mutation({
+  args: { id: v.id("users") },
+  handler: async (ctx, args) => {
+    await requireActorId(ctx);
+    const user = await ctx.db.get(args.id);
+    if (!user) throw new Error("User not found");
+    await ctx.db.patch(args.id, { deactivatedAt: undefined });
+  },
+});
+
+export const generateUploadUrl = mutation({
+  handler: async (ctx) => {
+    await requireActorId(ctx);
+    return await ctx.storage.generateUploadUrl();
+  },
+});
+
+export const setUserImage = mutation({
+  args: {
+    id: v.id("users"),
+    storageId: v.optional(v.id("_storage")), // Omit to remove the avatar
+  },
+  handler: async (ctx, args) => {
+    await requireActorId(ctx);
+    const user = await ctx.db.get(args.id);
+    if (!user) throw new Error("User not found");
+
+    if (args.storageId) {
+      const file = await ctx.db.system.get(args.storageId);
+      if (!file) throw new Error("Uploaded file not found");
+      if (!file.contentType?.startsWith("image/") || file.size > MAX_IMAGE_BYTES) {
+        // Returned rather than thrown, since throwing would roll the delete back
+        await ctx.storage.delete(args.storageId);
+        return { error: `Image must be an image file of at most ${MAX_IMAGE_BYTES / 1024 / 1024} MB` };
+      }
+    }
+    await replaceImage(ctx, user, args.storageId);
+    return null;
+  },
+});
+
+export const listUsersWithBase64Image = internalQuery({
+  handler: async (ctx) => {
+    const users = await ctx.db.query("users").collect();
+    return users
+      .filter((user) => user.image !== undefined && user.imageId === undefined)
+      .map((user) => ({ _id: user._id, image: user.image! }));
+  },
+});
+
+export const attachImage = internalMutation({
+  args: { id: v.id("users"), imageId: v.id("_storage") },
+  handler: async (ctx, args) => {
+    const user = await ctx.db.get(args.id);
+    if (!user) {
+      await ctx.storage.delete(args.imageId);
+      return;
+    }
+    await replaceImage(ctx, user, args.imageId);
+  },
+});
+
+export const attachThumbnail = internalMutation({
+  args: { id: v.id("users"), imageId: v.id("_storage"), thumbnailId: v.id("_storage") },
+  handler: async (ctx, args) => {
+    const user = await ctx.db.get(args.id);
+    // The avatar was replaced while the thumbnail was being generated
+    if (!user || user.imageId !== args.imageId) {
+      await ctx.storage.delete(args.thumbnailId);
+      return;
+    }
+    await ctx.db.patch(args.id, { thumbnailId: args.thumbnailId });
+  },
+});
+
+export const getOrCreateDevUser = internalMutation({
+  args: { name: v.string() },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("users")
+      .withIndex("by_name", (q) => q.eq("name", args.name.trim()))
+      .first();
+    if (existing) return existing._id;
+    const name = await validateName(ctx, args.name);
+    return await ctx.db.insert("users", { name });
+  },
+});
@@ -0,0 +1,76 @@
+// Date math in IANA time zones. Imports nothing from the Convex server, so the web
+// and mobile apps use the same functions as the backend.
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export type ZonedParts = { year: number; month: number; day: number; hour: number; minute: number; second: number };
+
+// Calendar date and wall-clock time of a timestamp in the zone (month is 1-based)
+export function getZonedParts(timestamp: number, timeZone: string): ZonedParts {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(timestamp)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return parts as ZonedParts;
+}
+
+// Offset of the zone from UTC at the given instant, in ms (positive east of Greenwich)
+function zoneOffset(timestamp: number, timeZone: string): number {
+  const parts = getZonedParts(timestamp, timeZone);
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - Math.floor(timestamp / 1000) * 1000;
+}
+
+// Instant at which the zone's clocks show the given wall-clock time. Out-of-range
+// fields roll over like Date.UTC (e.g. day 32 is the 1st of the next month).
+export function zonedTimeToTimestamp(parts: ZonedParts, timeZone: string): number {
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  const guess = wallClock - zoneOffset(wallClock, timeZone);
+  return wallClock - zoneOffset(guess, timeZone);
+}
+
+// Start of the calendar day containing timestamp, as seen in the zone. Days are
+// 23 or 25 hours long across DST transitions, so the offset is looked up at midnight
+// itself rather than reused from the timestamp.
+export function startOfDayInZone(timestamp: number, timeZone: string): number {
+  const local = timestamp + zoneOffset(timestamp, timeZone);
+  const localMidnight = local - (((local % DAY_MS) + DAY_MS) % DAY_MS);
+  let midnight = localMidnight - zoneOffset(timestamp, timeZone);
+  midnight = localMidnight - zoneOffset(midnight, timeZone);
+  return midnight;
+}
+
+// Start of the day after the one starting at dayStart; 25 hours always lands in it
+export function nextDayInZone(dayStart: number, timeZone: string): number {
+  return startOfDayInZone(dayStart + DAY_MS + HOUR_MS, timeZone);
+}
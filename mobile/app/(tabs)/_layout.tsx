@@ -1,6 +1,10 @@
 import React from 'react';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
-import { Tabs } from 'expo-router';
+import { Link, Tabs } from 'expo-router';
+import { Pressable, View as RNView, Text as RNText, StyleSheet } from 'react-native';
+import { useAuthActions } from '@convex-dev/auth/react';
+import { useQuery } from 'convex/react';
+import { api } from 'convex/_generated/api';
 
 import Colors from '@/constants/Colors';
 import { useColorScheme } from '@/components/useColorScheme';
@@ -15,12 +19,57 @@ function TabBarIcon(props: {
 
 export default function TabLayout() {
   const colorScheme = useColorScheme();
+  const { signOut } = useAuthActions();
+  const notifications = useQuery(api.notifications.listNotifications, {});
+  const unreadCount = notifications?.filter((notification) => notification.readAt === undefined).length ?? 0;
 
   return (
     <Tabs
       screenOptions={{
         tabBarActiveTintColor: Colors[colorScheme ?? 'light'].tint,
         headerShown: useClientOnlyValue(false, true),
+        headerLeft: () => (
+          <Pressable onPress={() => void signOut()}>
+            {({ pressed }) => (
+              <FontAwesome
+                name="sign-out"
+                size={22}
+                color={Colors[colorScheme ?? 'light'].text}
+                style={{ marginLeft: 15, opacity: pressed ? 0.5 : 1 }}
+              />
+            )}
+          </Pressable>
+        ),
+        headerRight: () => (
+          <RNView style={styles.headerRight}>
+            <Link href="/notifications" asChild>
+              <Pressable>
+                {({ pressed }) => (
+                  <RNView style={{ marginRight: 20, opacity: pressed ? 0.5 : 1 }}>
+                    <FontAwesome name="bell" size={20} color={Colors[colorScheme ?? 'light'].text} />
+                    {unreadCount > 0 && (
+                      <RNView style={styles.badge}>
+                        <RNText style={styles.badgeText}>{unreadCount}</RNText>
+                      </RNView>
+                    )}
+                  </RNView>
+                )}
+              </Pressable>
+            </Link>
+            <Link href="/add-task" asChild>
+              <Pressable>
+                {({ pressed }) => (
+                  <FontAwesome
+                    name="plus"
+                    size={22}
+                    color={Colors[colorScheme ?? 'light'].text}
+                    style={{ marginRight: 15, opacity: pressed ? 0.5 : 1 }}
+                  />
+                )}
+              </Pressable>
+            </Link>
+          </RNView>
+        ),
       }}>
       <Tabs.Screen
         name="index"
@@ -50,6 +99,37 @@ export default function TabLayout() {
           tabBarIcon: ({ color }) => <TabBarIcon name="circle-o" color={color} />,
         }}
       />
+      <Tabs.Screen
+        name="trash"
+        options={{
+          title: 'Trash',
+          tabBarIcon: ({ color }) => <TabBarIcon name="trash" color={color} />,
+        }}
+      />
     </Tabs>
   );
 }
+
+const styles = StyleSheet.create({
+  headerRight: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  badge: {
+    position: 'absolute',
+    top: -6,
+    right: -10,
+    minWidth: 16,
+    height: 16,
+    paddingHorizontal: 4,
+    borderRadius: 8,
+    backgroundColor: '#dc2626',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  badgeText: {
+    color: '#fff',
+    fontSize: 10,
+    fontWeight: '700',
+  },
+});
@@ -1,9 +1,12 @@
 import { useState } from 'react';
-import TaskList, { SortType, DurationFilterType } from '@/components/TaskList';
+import TaskList, { SortType, DurationFilterType, DueFilterType, BlockedFilterType, PriorityFilterType } from '@/components/TaskList';
 
 export default function CompletedTasksScreen() {
   const [sort, setSort] = useState<SortType>('latest');
   const [durationFilter, setDurationFilter] = useState<DurationFilterType>('all');
-  return <TaskList filter="completed" sort={sort} onSortChange={setSort} durationFilter={durationFilter} onDurationFilterChange={setDurationFilter} />;
+  const [dueFilter, setDueFilter] = useState<DueFilterType>('all');
+  const [blockedFilter, setBlockedFilter] = useState<BlockedFilterType>('all');
+  const [priorityFilter, setPriorityFilter] = useState<PriorityFilterType>('all');
+  return <TaskList filter="completed" sort={sort} onSortChange={setSort} durationFilter={durationFilter} onDurationFilterChange={setDurationFilter} dueFilter={dueFilter} onDueFilterChange={setDueFilter} blockedFilter={blockedFilter} onBlockedFilterChange={setBlockedFilter} priorityFilter={priorityFilter} onPriorityFilterChange={setPriorityFilter} />;
 }
 
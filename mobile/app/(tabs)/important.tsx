@@ -1,9 +1,11 @@
 import { useState } from 'react';
-import TaskList, { SortType, DurationFilterType } from '@/components/TaskList';
+import TaskList, { SortType, DurationFilterType, DueFilterType, BlockedFilterType } from '@/components/TaskList';
 
 export default function ImportantTasksScreen() {
   const [sort, setSort] = useState<SortType>('latest');
   const [durationFilter, setDurationFilter] = useState<DurationFilterType>('all');
-  return <TaskList filter="important" sort={sort} onSortChange={setSort} durationFilter={durationFilter} onDurationFilterChange={setDurationFilter} />;
+  const [dueFilter, setDueFilter] = useState<DueFilterType>('all');
+  const [blockedFilter, setBlockedFilter] = useState<BlockedFilterType>('all');
+  return <TaskList filter="important" sort={sort} onSortChange={setSort} durationFilter={durationFilter} onDurationFilterChange={setDurationFilter} dueFilter={dueFilter} onDueFilterChange={setDueFilter} blockedFilter={blockedFilter} onBlockedFilterChange={setBlockedFilter} />;
 }
 
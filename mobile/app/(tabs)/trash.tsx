@@ -0,0 +1,5 @@
+import TrashList from '@/components/TrashList';
+
+export default function TrashScreen() {
+  return <TrashList />;
+}
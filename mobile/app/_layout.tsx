@@ -4,10 +4,13 @@ import { useFonts } from 'expo-font';
 import { Stack } from 'expo-router';
 import * as SplashScreen from 'expo-splash-screen';
 import { useEffect } from 'react';
+import { Authenticated, AuthLoading, Unauthenticated } from 'convex/react';
 import 'react-native-reanimated';
 
 import { useColorScheme } from '@/components/useColorScheme';
 import { ConvexClientProvider } from '@/providers/ConvexClientProvider';
+import { ProjectProvider } from '@/providers/ProjectProvider';
+import SignInScreen from '@/components/SignInScreen';
 
 export {
   // Catch any errors thrown by the Layout component.
@@ -52,10 +55,20 @@ function RootLayoutNav() {
   return (
     <ConvexClientProvider>
       <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-        <Stack>
-          <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-          <Stack.Screen name="modal" options={{ presentation: 'modal' }} />
-        </Stack>
+        <AuthLoading>{null}</AuthLoading>
+        <Unauthenticated>
+          <SignInScreen />
+        </Unauthenticated>
+        <Authenticated>
+          <ProjectProvider>
+            <Stack>
+              <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+              <Stack.Screen name="modal" options={{ presentation: 'modal' }} />
+              <Stack.Screen name="add-task" options={{ presentation: 'modal', title: 'New Task' }} />
+              <Stack.Screen name="notifications" options={{ presentation: 'modal', title: 'Notifications' }} />
+            </Stack>
+          </ProjectProvider>
+        </Authenticated>
       </ThemeProvider>
     </ConvexClientProvider>
   );
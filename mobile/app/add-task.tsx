@@ -0,0 +1,269 @@
+import { StatusBar } from 'expo-status-bar';
+import { useRouter } from 'expo-router';
+import { useState } from 'react';
+import { Platform, StyleSheet, Pressable, ActivityIndicator, ScrollView, TextInput, View as RNView, Text as RNText } from 'react-native';
+import { useMutation, useQuery } from 'convex/react';
+import { api } from 'convex/_generated/api';
+import { Id } from 'convex/_generated/dataModel';
+import { DEFAULT_PRIORITY, PRIORITIES, RECURRENCE_PRESETS, parseDueDateInput, type Priority } from '@/utils/format';
+import { useProject } from '@/providers/ProjectContext';
+
+export default function AddTaskScreen() {
+  const router = useRouter();
+  const users = useQuery(api.tasks.getAllUsers, {});
+  const viewer = useQuery(api.users.viewer, {});
+  const timeZone = viewer?.timeZone ?? 'UTC';
+  const createTask = useMutation(api.tasks.createTask);
+  // New tasks go into the project picked in the task list
+  const { projectId } = useProject();
+
+  const [text, setText] = useState('');
+  const [description, setDescription] = useState('');
+  const [duration, setDuration] = useState('');
+  const [priority, setPriority] = useState<Priority>(DEFAULT_PRIORITY);
+  const [userId, setUserId] = useState<Id<"users"> | null>(null);
+  const [dueAt, setDueAt] = useState('');
+  const [recurrence, setRecurrence] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    if (!text.trim() || isSubmitting) return;
+    const parsedDueAt = dueAt.trim() ? parseDueDateInput(dueAt, timeZone) : null;
+    if (dueAt.trim() && parsedDueAt === null) {
+      setError('Enter the due date as YYYY-MM-DD HH:mm');
+      return;
+    }
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await createTask({
+        text,
+        description: description.trim() || undefined,
+        duration: duration ? parseInt(duration, 10) : undefined,
+        priority,
+        userId: userId ?? undefined,
+        dueAt: parsedDueAt ?? undefined,
+        recurrence: parsedDueAt !== null ? recurrence ?? undefined : undefined,
+        projectId,
+      });
+      router.back();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to create task');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <RNView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <RNText style={styles.label}>Title</RNText>
+        <TextInput
+          style={styles.input}
+          value={text}
+          onChangeText={setText}
+          placeholder="What needs to be done?"
+          placeholderTextColor="#666"
+          maxLength={200}
+          autoFocus
+        />
+
+        <RNText style={styles.label}>Description</RNText>
+        <TextInput
+          style={[styles.input, styles.multilineInput]}
+          value={description}
+          onChangeText={setDescription}
+          placeholder="Optional"
+          placeholderTextColor="#666"
+          multiline
+        />
+
+        <RNText style={styles.label}>Duration (minutes)</RNText>
+        <TextInput
+          style={styles.input}
+          value={duration}
+          onChangeText={(value) => setDuration(value.replace(/[^0-9]/g, ''))}
+          placeholder="e.g. 15"
+          placeholderTextColor="#666"
+          keyboardType="number-pad"
+        />
+
+        <RNText style={styles.label}>Due ({timeZone})</RNText>
+        <TextInput
+          style={styles.input}
+          value={dueAt}
+          onChangeText={setDueAt}
+          placeholder="YYYY-MM-DD HH:mm"
+          placeholderTextColor="#666"
+          autoCapitalize="none"
+        />
+
+        {dueAt.trim() !== '' && (
+          <>
+            <RNText style={styles.label}>Repeats</RNText>
+            <RNView style={styles.chipsContainer}>
+              <Pressable
+                style={[styles.chip, recurrence === null ? styles.chipActive : styles.chipInactive]}
+                onPress={() => setRecurrence(null)}
+              >
+                <RNText style={recurrence === null ? styles.chipTextActive : styles.chipTextInactive}>Never</RNText>
+              </Pressable>
+              {RECURRENCE_PRESETS.map((preset) => (
+                <Pressable
+                  key={preset.value}
+                  style={[styles.chip, recurrence === preset.value ? styles.chipActive : styles.chipInactive]}
+                  onPress={() => setRecurrence(preset.value)}
+                >
+                  <RNText style={recurrence === preset.value ? styles.chipTextActive : styles.chipTextInactive}>{preset.label}</RNText>
+                </Pressable>
+              ))}
+            </RNView>
+          </>
+        )}
+
+        <RNText style={styles.label}>Assignee</RNText>
+        <RNView style={styles.chipsContainer}>
+          <Pressable
+            style={[styles.chip, userId === null ? styles.chipActive : styles.chipInactive]}
+            onPress={() => setUserId(null)}
+          >
+            <RNText style={userId === null ? styles.chipTextActive : styles.chipTextInactive}>Unassigned</RNText>
+          </Pressable>
+          {users?.filter((user) => user.deactivatedAt === undefined).map((user) => (
+            <Pressable
+              key={user._id}
+              style={[styles.chip, userId === user._id ? styles.chipActive : styles.chipInactive]}
+              onPress={() => setUserId(user._id)}
+            >
+              <RNText style={userId === user._id ? styles.chipTextActive : styles.chipTextInactive}>{user.name}</RNText>
+            </Pressable>
+          ))}
+        </RNView>
+
+        <RNText style={styles.label}>Priority</RNText>
+        <RNView style={styles.chipsContainer}>
+          {PRIORITIES.map((level) => (
+            <Pressable
+              key={level.value}
+              style={[
+                styles.chip,
+                priority === level.value ? (level.value <= 1 ? styles.chipImportant : styles.chipActive) : styles.chipInactive,
+              ]}
+              onPress={() => setPriority(level.value)}
+            >
+              <RNText style={priority === level.value ? styles.chipTextActive : styles.chipTextInactive}>
+                {level.label} · {level.name}
+              </RNText>
+            </Pressable>
+          ))}
+        </RNView>
+
+        {error && <RNText style={styles.errorText}>{error}</RNText>}
+      </ScrollView>
+
+      <RNView style={styles.footer}>
+        <Pressable
+          style={[styles.submitButton, (!text.trim() || isSubmitting) && styles.submitButtonDisabled]}
+          onPress={handleSubmit}
+          disabled={!text.trim() || isSubmitting}
+        >
+          {isSubmitting ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <RNText style={styles.submitButtonText}>Add Task</RNText>
+          )}
+        </Pressable>
+      </RNView>
+
+      {/* Use a light status bar on iOS to account for the black space above the modal */}
+      <StatusBar style={Platform.OS === 'ios' ? 'light' : 'auto'} />
+    </RNView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1a1a1a',
+  },
+  content: {
+    padding: 20,
+  },
+  label: {
+    fontSize: 12,
+    color: '#888',
+    marginBottom: 8,
+    marginTop: 16,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  input: {
+    backgroundColor: '#252525',
+    color: '#fff',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+  },
+  multilineInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  chipsContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  chipActive: {
+    backgroundColor: '#2563eb',
+  },
+  chipInactive: {
+    backgroundColor: '#333',
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  chipTextInactive: {
+    color: '#888',
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  chipImportant: {
+    backgroundColor: '#f59e0b',
+  },
+  errorText: {
+    color: '#f87171',
+    fontSize: 14,
+    marginTop: 16,
+  },
+  footer: {
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    paddingBottom: 40,
+    borderTopWidth: 1,
+    borderTopColor: '#333',
+  },
+  submitButton: {
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#16a34a',
+  },
+  submitButtonDisabled: {
+    opacity: 0.5,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
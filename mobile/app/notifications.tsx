@@ -0,0 +1,102 @@
+import { StatusBar } from 'expo-status-bar';
+import { FlatList, Platform, Pressable, StyleSheet, View as RNView, Text as RNText } from 'react-native';
+import { useMutation, useQuery } from 'convex/react';
+import { api } from 'convex/_generated/api';
+import { formatDueDate, formatRelativeTime } from '@/utils/format';
+
+export default function NotificationsScreen() {
+  const notifications = useQuery(api.notifications.listNotifications, {});
+  const viewer = useQuery(api.users.viewer, {});
+  const markRead = useMutation(api.notifications.markNotificationRead);
+  const markAllRead = useMutation(api.notifications.markAllNotificationsRead);
+  const timeZone = viewer?.timeZone ?? 'UTC';
+
+  const hasUnread = notifications?.some((notification) => notification.readAt === undefined) ?? false;
+
+  return (
+    <RNView style={styles.container}>
+      {hasUnread && (
+        <Pressable style={styles.markAllButton} onPress={() => void markAllRead({})}>
+          <RNText style={styles.markAllText}>Mark all read</RNText>
+        </Pressable>
+      )}
+      <FlatList
+        data={notifications ?? []}
+        keyExtractor={(item) => item._id}
+        contentContainerStyle={styles.listContent}
+        renderItem={({ item }) => (
+          <Pressable
+            style={[styles.row, item.readAt === undefined && styles.rowUnread]}
+            onPress={() => {
+              if (item.readAt === undefined) void markRead({ id: item._id });
+            }}
+          >
+            <RNText style={[styles.rowText, item.readAt !== undefined && styles.rowTextRead]}>
+              {item.type === 'mention' ? (
+                `💬 ${item.actor?.name ?? 'Someone'} mentioned you on "${item.task?.text ?? 'Deleted task'}"`
+              ) : (
+                <>
+                  ⏰ "{item.task?.text ?? 'Deleted task'}" is due
+                  {item.dueAt !== undefined && ` at ${formatDueDate(item.dueAt, timeZone)}`}
+                </>
+              )}
+            </RNText>
+            <RNText style={styles.rowTime}>{formatRelativeTime(item._creationTime, timeZone)}</RNText>
+          </Pressable>
+        )}
+        ListEmptyComponent={
+          <RNText style={styles.emptyText}>{notifications === undefined ? 'Loading...' : 'No notifications yet.'}</RNText>
+        }
+      />
+
+      {/* Use a light status bar on iOS to account for the black space above the modal */}
+      <StatusBar style={Platform.OS === 'ios' ? 'light' : 'auto'} />
+    </RNView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1a1a1a',
+  },
+  listContent: {
+    padding: 20,
+    gap: 8,
+  },
+  markAllButton: {
+    alignSelf: 'flex-end',
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  markAllText: {
+    color: '#888',
+    fontSize: 14,
+  },
+  row: {
+    backgroundColor: '#252525',
+    borderRadius: 12,
+    padding: 14,
+  },
+  rowUnread: {
+    backgroundColor: '#333',
+  },
+  rowText: {
+    color: '#fff',
+    fontSize: 15,
+  },
+  rowTextRead: {
+    color: '#888',
+  },
+  rowTime: {
+    color: '#666',
+    fontSize: 12,
+    marginTop: 6,
+  },
+  emptyText: {
+    color: '#666',
+    fontSize: 15,
+    textAlign: 'center',
+    marginTop: 40,
+  },
+});
@@ -0,0 +1,189 @@
+import { useState } from 'react';
+import { StyleSheet, Pressable, ActivityIndicator, ScrollView, TextInput, View as RNView, Text as RNText } from 'react-native';
+import { useQuery } from 'convex/react';
+import { useAuthActions } from '@convex-dev/auth/react';
+import { api } from 'convex/_generated/api';
+
+type SignInFlow = 'signIn' | 'signUp';
+
+export default function SignInScreen() {
+  const { signIn } = useAuthActions();
+  // Dev login is only offered in development builds; the deployment must also set AUTH_DEV_LOGIN=true
+  const users = useQuery(api.tasks.getAllUsers, __DEV__ ? {} : 'skip');
+
+  const [flow, setFlow] = useState<SignInFlow>('signIn');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<unknown>) => {
+    if (isSubmitting) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Sign in failed');
+      setIsSubmitting(false);
+    }
+  };
+
+  const handlePasswordSignIn = () =>
+    run(() => signIn('password', flow === 'signUp' ? { flow, name, email, password } : { flow, email, password }));
+
+  return (
+    <RNView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <RNText style={styles.title}>Konoha Task Manager</RNText>
+
+        {flow === 'signUp' && (
+          <>
+            <RNText style={styles.label}>Name</RNText>
+            <TextInput
+              style={styles.input}
+              value={name}
+              onChangeText={setName}
+              placeholderTextColor="#666"
+              maxLength={50}
+            />
+          </>
+        )}
+
+        <RNText style={styles.label}>Email</RNText>
+        <TextInput
+          style={styles.input}
+          value={email}
+          onChangeText={setEmail}
+          placeholderTextColor="#666"
+          autoCapitalize="none"
+          keyboardType="email-address"
+        />
+
+        <RNText style={styles.label}>Password</RNText>
+        <TextInput
+          style={styles.input}
+          value={password}
+          onChangeText={setPassword}
+          placeholderTextColor="#666"
+          secureTextEntry
+        />
+
+        {error && <RNText style={styles.errorText}>{error}</RNText>}
+
+        <Pressable
+          style={[styles.submitButton, (!email || !password || isSubmitting) && styles.submitButtonDisabled]}
+          onPress={handlePasswordSignIn}
+          disabled={!email || !password || isSubmitting}
+        >
+          {isSubmitting ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <RNText style={styles.submitButtonText}>{flow === 'signIn' ? 'Sign In' : 'Create Account'}</RNText>
+          )}
+        </Pressable>
+
+        <Pressable onPress={() => setFlow(flow === 'signIn' ? 'signUp' : 'signIn')}>
+          <RNText style={styles.switchFlowText}>
+            {flow === 'signIn' ? "Don't have an account? Sign up" : 'Already have an account? Sign in'}
+          </RNText>
+        </Pressable>
+
+        {__DEV__ && (
+          <>
+            <RNText style={styles.label}>Dev login</RNText>
+            <RNView style={styles.chipsContainer}>
+              {users?.filter((user) => user.deactivatedAt === undefined).map((user) => (
+                <Pressable
+                  key={user._id}
+                  style={styles.chip}
+                  disabled={isSubmitting}
+                  onPress={() => run(() => signIn('dev', { name: user.name }))}
+                >
+                  <RNText style={styles.chipText}>{user.name}</RNText>
+                </Pressable>
+              ))}
+            </RNView>
+          </>
+        )}
+      </ScrollView>
+    </RNView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1a1a1a',
+  },
+  content: {
+    padding: 20,
+    paddingTop: 80,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#fff',
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 12,
+    color: '#888',
+    marginBottom: 8,
+    marginTop: 16,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  input: {
+    backgroundColor: '#252525',
+    color: '#fff',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+  },
+  errorText: {
+    color: '#f87171',
+    fontSize: 14,
+    marginTop: 16,
+  },
+  submitButton: {
+    marginTop: 24,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#2563eb',
+  },
+  submitButtonDisabled: {
+    opacity: 0.5,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  switchFlowText: {
+    color: '#888',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  chipsContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#333',
+  },
+  chipText: {
+    color: '#ddd',
+    fontSize: 13,
+    fontWeight: '500',
+  },
+});
@@ -1,14 +1,38 @@
-import { StyleSheet, FlatList, Pressable, ActivityIndicator, Modal, View as RNView, Text as RNText, ScrollView, Dimensions } from 'react-native';
-import { useMutation, useQuery } from 'convex/react';
+import { StyleSheet, FlatList, Pressable, ActivityIndicator, Modal, View as RNView, Text as RNText, ScrollView, Dimensions, TextInput, Linking, Image } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import { useMutation, usePaginatedQuery, useQuery } from 'convex/react';
 import { api } from 'convex/_generated/api';
-import { useState, useCallback, useMemo } from 'react';
+import { useState, useCallback } from 'react';
 import { Id } from 'convex/_generated/dataModel';
+import { useProject } from '@/providers/ProjectContext';
 
 import { Text, View } from '@/components/Themed';
+import {
+  PRIORITIES,
+  RECURRENCE_PRESETS,
+  describeRecurrence,
+  formatDuration,
+  formatFileSize,
+  formatRelativeTime,
+  formatDateTime,
+  formatDueDate,
+  formatTrackedTime,
+  getDueStatus,
+  getPriority,
+  isTopPriority,
+  parseDueDateInput,
+  toDueDateInput,
+  type DueStatus,
+  type Priority,
+} from '@/utils/format';
+import { getMentionQuery, parseInlineMarkdown, parseMarkdownBlocks, type MentionedUser } from '@/utils/markdown';
 
 type FilterType = 'all' | 'completed' | 'incomplete' | 'important';
-export type SortType = 'latest' | 'inactive' | 'newest' | 'oldest' | 'frequent' | 'unfrequent' | 'quickest' | 'longest';
+export type SortType = 'latest' | 'inactive' | 'newest' | 'oldest' | 'frequent' | 'unfrequent' | 'quickest' | 'longest' | 'due' | 'priority';
 export type DurationFilterType = 'all' | 'quick' | 'long';
+export type DueFilterType = 'all' | 'overdue' | 'today';
+export type BlockedFilterType = 'all' | 'blocked' | 'unblocked';
+export type PriorityFilterType = 'all' | Priority;
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 const PAGE_SIZE = 9;
@@ -24,70 +48,57 @@ export const sortOptions: { value: SortType; label: string }[] = [
   { value: 'unfrequent', label: 'Unfrequent' },
   { value: 'quickest', label: 'Quickest' },
   { value: 'longest', label: 'Longest' },
+  { value: 'due', label: 'Due Soonest' },
+  { value: 'priority', label: 'Priority' },
 ];
 
-function formatDuration(minutes: number | undefined): string {
-  if (!minutes) return "Unknown";
-  if (minutes < 60) return `${minutes} min`;
-  const hours = Math.floor(minutes / 60);
-  const mins = minutes % 60;
-  if (mins === 0) return `${hours}h`;
-  return `${hours}h ${mins}m`;
-}
+const DUE_LABELS: Record<DueStatus, string> = {
+  overdue: 'Overdue',
+  today: 'Due today',
+  upcoming: 'Due',
+};
 
-function formatRelativeTime(timestamp: number | undefined): string {
-  if (!timestamp) return "Unknown";
-  
-  const now = Date.now();
-  const diff = now - timestamp;
-  
-  const seconds = Math.floor(diff / 1000);
-  const minutes = Math.floor(seconds / 60);
-  const hours = Math.floor(minutes / 60);
-  const days = Math.floor(hours / 24);
-  const weeks = Math.floor(days / 7);
-  const months = Math.floor(days / 30);
-  const years = Math.floor(days / 365);
-  
-  if (seconds < 5) return "just now";
-  if (seconds < 60) return `${seconds}s ago`;
-  if (minutes < 60) return `${minutes}m ago`;
-  if (hours < 24) return `${hours}h ago`;
-  if (days < 7) return `${days}d ago`;
-  if (weeks < 4) return `${weeks}w ago`;
-  if (months < 12) return `${months}mo ago`;
-  return `${years}y ago`;
-}
+const EDITABLE_FIELD_LABELS: Record<string, string> = {
+  text: 'Title',
+  description: 'Description',
+  duration: 'Duration',
+  dueAt: 'Due',
+  recurrence: 'Repeats',
+  status: 'Status',
+};
 
-function formatDateTime(timestamp: number): string {
-  const date = new Date(timestamp);
-  const day = date.getDate().toString().padStart(2, "0");
-  const month = (date.getMonth() + 1).toString().padStart(2, "0");
-  const year = date.getFullYear();
-  const hours = date.getHours().toString().padStart(2, "0");
-  const minutes = date.getMinutes().toString().padStart(2, "0");
-  const seconds = date.getSeconds().toString().padStart(2, "0");
-  return `${day}.${month}.${year} ${hours}:${minutes}:${seconds}`;
+function formatFieldValue(field: string, value: string | number | undefined, timeZone: string): string {
+  if (value === undefined || value === '') {
+    return field === 'duration' ? 'Unknown' : field === 'dueAt' || field === 'status' ? 'None' : field === 'recurrence' ? 'Never' : '(empty)';
+  }
+  if (field === 'duration') return formatDuration(value as number);
+  if (field === 'dueAt') return formatDueDate(value as number, timeZone);
+  if (field === 'recurrence') return describeRecurrence(value as string);
+  return value.toString();
 }
 
 function HistoryFilterChips({ 
   showCompleted, 
   showIncomplete,
-  showImportant,
-  showNotImportant,
+  showPriorityRaised,
+  showPriorityLowered,
+  showStatusChanges,
   onToggleCompleted, 
   onToggleIncomplete,
-  onToggleImportant,
-  onToggleNotImportant
+  onTogglePriorityRaised,
+  onTogglePriorityLowered,
+  onToggleStatusChanges
 }: { 
   showCompleted: boolean; 
   showIncomplete: boolean;
-  showImportant: boolean;
-  showNotImportant: boolean;
+  showPriorityRaised: boolean;
+  showPriorityLowered: boolean;
+  showStatusChanges: boolean;
   onToggleCompleted: () => void; 
   onToggleIncomplete: () => void;
-  onToggleImportant: () => void;
-  onToggleNotImportant: () => void;
+  onTogglePriorityRaised: () => void;
+  onTogglePriorityLowered: () => void;
+  onToggleStatusChanges: () => void;
 }) {
   return (
     <RNView style={historyStyles.chipsContainer}>
@@ -120,43 +131,61 @@ function HistoryFilterChips({
         </RNText>
       </Pressable>
       <Pressable
-        onPress={onToggleImportant}
+        onPress={onTogglePriorityRaised}
         style={[
           historyStyles.chip,
-          showImportant ? historyStyles.chipActiveImportant : historyStyles.chipInactive
+          showPriorityRaised ? historyStyles.chipActiveImportant : historyStyles.chipInactive
         ]}
       >
         <RNText style={[
           historyStyles.chipIcon,
-          showImportant ? historyStyles.chipTextActive : historyStyles.chipTextInactive
+          showPriorityRaised ? historyStyles.chipTextActive : historyStyles.chipTextInactive
         ]}>
-          ★
+          ↑
         </RNText>
       </Pressable>
       <Pressable
-        onPress={onToggleNotImportant}
+        onPress={onTogglePriorityLowered}
         style={[
           historyStyles.chip,
-          showNotImportant ? historyStyles.chipActiveIncomplete : historyStyles.chipInactive
+          showPriorityLowered ? historyStyles.chipActiveIncomplete : historyStyles.chipInactive
         ]}
       >
         <RNText style={[
           historyStyles.chipIcon,
-          showNotImportant ? historyStyles.chipTextActive : historyStyles.chipTextInactive
+          showPriorityLowered ? historyStyles.chipTextActive : historyStyles.chipTextInactive
         ]}>
-          ☆
+          ↓
+        </RNText>
+      </Pressable>
+      <Pressable
+        onPress={onToggleStatusChanges}
+        style={[
+          historyStyles.chip,
+          showStatusChanges ? historyStyles.chipActiveStatus : historyStyles.chipInactive
+        ]}
+      >
+        <RNText style={[
+          historyStyles.chipIcon,
+          showStatusChanges ? historyStyles.chipTextActive : historyStyles.chipTextInactive
+        ]}>
+          ⇢
         </RNText>
       </Pressable>
     </RNView>
   );
 }
 
-function TaskHistory({ taskId, showCompleted, showIncomplete, showImportant, showNotImportant }: { 
+function TaskHistory({ taskId, users, timeZone, showCompleted, showIncomplete, showPriorityRaised, showPriorityLowered, showStatusChanges, onSelectTask }: { 
   taskId: Id<"tasks">; 
+  users: { _id: Id<"users">; name: string }[] | undefined;
+  timeZone: string;
   showCompleted: boolean; 
   showIncomplete: boolean;
-  showImportant: boolean;
-  showNotImportant: boolean;
+  showPriorityRaised: boolean;
+  showPriorityLowered: boolean;
+  showStatusChanges: boolean;
+  onSelectTask: (taskId: Id<"tasks">) => void;
 }) {
   const history = useQuery(api.tasks.getTaskHistory, { taskId });
 
@@ -170,25 +199,34 @@ function TaskHistory({ taskId, showCompleted, showIncomplete, showImportant, sho
 
   // Filter history based on selected chips
   const filteredHistory = history.filter(entry => {
-    const hasAnyFilter = showCompleted || showIncomplete || showImportant || showNotImportant;
+    const hasAnyFilter = showCompleted || showIncomplete || showPriorityRaised || showPriorityLowered || showStatusChanges;
     if (!hasAnyFilter) return true;
     
     const isCompletionChange = !entry.changeType || entry.changeType === "completion";
-    const isImportanceChange = entry.changeType === "importance";
+    // Importance changes from before priorities count as raising or lowering it
+    const isPriorityChange = entry.changeType === "priority" || entry.changeType === "importance";
     
     if (isCompletionChange) {
       if (showCompleted && entry.changedTo) return true;
       if (showIncomplete && !entry.changedTo) return true;
     }
     
-    if (isImportanceChange) {
-      if (showImportant && entry.changedTo) return true;
-      if (showNotImportant && !entry.changedTo) return true;
+    if (isPriorityChange) {
+      if (showPriorityRaised && entry.changedTo) return true;
+      if (showPriorityLowered && !entry.changedTo) return true;
     }
     
+    if (entry.changeType === "status") return showStatusChanges;
+    
     return false;
   });
 
+  // Show who made each change next to when it happened
+  const formatEntryMeta = (entry: { actorId?: Id<"users">; changedAt: number }) => {
+    const actor = entry.actorId ? users?.find(u => u._id === entry.actorId) : undefined;
+    return actor ? `${actor.name} · ${formatDateTime(entry.changedAt, timeZone)}` : formatDateTime(entry.changedAt, timeZone);
+  };
+
   if (filteredHistory.length === 0) {
     return <RNText style={historyStyles.empty}>No matching entries.</RNText>;
   }
@@ -196,23 +234,134 @@ function TaskHistory({ taskId, showCompleted, showIncomplete, showImportant, sho
   return (
     <RNView style={historyStyles.container}>
       {filteredHistory.map((entry) => {
-        const isCompletionChange = !entry.changeType || entry.changeType === "completion";
+        const isCreation = entry.changeType === "created";
         const isImportanceChange = entry.changeType === "importance";
         
+        if (entry.changeType === "assignment") {
+          const fromUser = users?.find(u => u._id === entry.fromUserId);
+          const toUser = users?.find(u => u._id === entry.toUserId);
+          return (
+            <RNView key={entry._id} style={historyStyles.entry}>
+              <RNText style={historyStyles.assignment} numberOfLines={1}>
+                ⇄ {fromUser?.name ?? "Unassigned"} → {toUser?.name ?? "Unassigned"}
+              </RNText>
+              <RNText style={historyStyles.date}>
+                {formatEntryMeta(entry)}
+              </RNText>
+            </RNView>
+          );
+        }
+        
+        // Entries about another task (the next or previous occurrence of a recurring
+        // task, or the blocker whose completion unblocked this one) link to it
+        if (entry.relatedTaskId) {
+          const relatedTaskId = entry.relatedTaskId;
+          const isUnblock = entry.changeType === "unblocked";
+          return (
+            <Pressable key={entry._id} style={historyStyles.entry} onPress={() => onSelectTask(relatedTaskId)}>
+              <RNText style={isCreation ? historyStyles.created : isUnblock ? historyStyles.completed : historyStyles.recurrence} numberOfLines={1}>
+                {isCreation ? "+ Created from previous" : isUnblock ? "▶ Unblocked ›" : "↻ Next occurrence ›"}
+              </RNText>
+              <RNText style={historyStyles.date}>
+                {formatEntryMeta(entry)}
+              </RNText>
+            </Pressable>
+          );
+        }
+
+        if (entry.changeType === "priority" && entry.fromPriority !== undefined && entry.toPriority !== undefined) {
+          return (
+            <RNView key={entry._id} style={historyStyles.entry}>
+              <RNText style={entry.changedTo ? historyStyles.important : historyStyles.incomplete} numberOfLines={1}>
+                {entry.changedTo ? "↑" : "↓"} {PRIORITIES[entry.fromPriority].label} → {PRIORITIES[entry.toPriority].label}
+              </RNText>
+              <RNText style={historyStyles.date}>
+                {formatEntryMeta(entry)}
+              </RNText>
+            </RNView>
+          );
+        }
+
+        if (entry.changeType === "status") {
+          return (
+            <RNView key={entry._id} style={historyStyles.entry}>
+              <RNText style={historyStyles.status} numberOfLines={1}>
+                ⇢ {entry.fromStatus ?? "No status"} → {entry.toStatus}
+              </RNText>
+              <RNText style={historyStyles.date}>
+                {formatEntryMeta(entry)}
+              </RNText>
+            </RNView>
+          );
+        }
+
+        if (entry.changeType === "comment") {
+          return (
+            <RNView key={entry._id} style={historyStyles.entry}>
+              <RNText style={historyStyles.comment} numberOfLines={1}>
+                💬 {entry.commentText}
+              </RNText>
+              <RNText style={historyStyles.date}>
+                {formatEntryMeta(entry)}
+              </RNText>
+            </RNView>
+          );
+        }
+
+        if (entry.changeType === "subtask") {
+          return (
+            <RNView key={entry._id} style={historyStyles.entry}>
+              <RNText style={entry.changedTo ? historyStyles.completed : historyStyles.incomplete} numberOfLines={1}>
+                {entry.changedTo ? "☑" : "☐"} {entry.subtaskText}
+              </RNText>
+              <RNText style={historyStyles.date}>
+                {formatEntryMeta(entry)}
+              </RNText>
+            </RNView>
+          );
+        }
+
+        if (entry.changeType === "edit") {
+          return (
+            <RNView key={entry._id} style={historyStyles.editEntry}>
+              <RNView style={historyStyles.editEntryHeader}>
+                <RNText style={historyStyles.edited}>✎ Edited</RNText>
+                <RNText style={historyStyles.date}>
+                  {formatEntryMeta(entry)}
+                </RNText>
+              </RNView>
+              {entry.changes?.map((change) => (
+                <RNText key={change.field} style={historyStyles.editChange}>
+                  <RNText style={historyStyles.editFieldLabel}>{EDITABLE_FIELD_LABELS[change.field] ?? change.field}: </RNText>
+                  <RNText style={historyStyles.editFrom}>{formatFieldValue(change.field, change.from, timeZone)}</RNText>
+                  <RNText style={historyStyles.editFieldLabel}> → </RNText>
+                  <RNText style={historyStyles.editTo}>{formatFieldValue(change.field, change.to, timeZone)}</RNText>
+                </RNText>
+              ))}
+            </RNView>
+          );
+        }
+        
         return (
           <RNView key={entry._id} style={historyStyles.entry}>
             <RNText style={
-              isImportanceChange 
+              isCreation
+                ? historyStyles.created
+                : isImportanceChange 
                 ? (entry.changedTo ? historyStyles.important : historyStyles.incomplete)
                 : (entry.changedTo ? historyStyles.completed : historyStyles.incomplete)
             }>
-              {isImportanceChange 
+              {isCreation
+                ? "+ Created"
+                : isImportanceChange 
                 ? (entry.changedTo ? "★ Important" : "☆ Not Important")
                 : (entry.changedTo ? "✓ Completed" : "○ Incomplete")
               }
+              {/* Completions from before statuses existed don't have one */}
+              {entry.toStatus && !isCreation && !isImportanceChange && ` · ${entry.toStatus}`}
             </RNText>
             <RNText style={historyStyles.date}>
-              {formatDateTime(entry.changedAt)}
+              {formatEntryMeta(entry)}
             </RNText>
           </RNView>
         );
@@ -250,6 +399,9 @@ const historyStyles = StyleSheet.create({
   chipActiveImportant: {
     backgroundColor: '#f59e0b',
   },
+  chipActiveStatus: {
+    backgroundColor: '#0891b2',
+  },
   chipIcon: {
     fontSize: 14,
     fontWeight: '500',
@@ -288,30 +440,758 @@ const historyStyles = StyleSheet.create({
     color: '#888',
     fontSize: 14,
   },
+  comment: {
+    color: '#a5b4fc',
+    fontSize: 14,
+  },
+  status: {
+    color: '#22d3ee',
+    fontSize: 14,
+  },
   important: {
     color: '#fbbf24',
     fontSize: 14,
   },
+  created: {
+    color: '#60a5fa',
+    fontSize: 14,
+  },
+  recurrence: {
+    color: '#2dd4bf',
+    fontSize: 14,
+  },
+  edited: {
+    color: '#38bdf8',
+    fontSize: 14,
+  },
+  assignment: {
+    flex: 1,
+    color: '#a78bfa',
+    fontSize: 14,
+    marginRight: 8,
+  },
+  editEntry: {
+    backgroundColor: '#252525',
+    padding: 12,
+    borderRadius: 8,
+    gap: 6,
+  },
+  editEntryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  editChange: {
+    fontSize: 13,
+  },
+  editFieldLabel: {
+    color: '#888',
+  },
+  editFrom: {
+    color: '#f87171',
+    textDecorationLine: 'line-through',
+  },
+  editTo: {
+    color: '#4ade80',
+  },
   date: {
     color: '#666',
     fontSize: 12,
   },
 });
 
+function TaskEditForm({ task, timeZone, onDone }: {
+  task: {
+    _id: Id<"tasks">;
+    text: string;
+    description?: string;
+    duration?: number;
+    dueAt?: number;
+    recurrence?: { rule: string; timeZone: string };
+  };
+  timeZone: string;
+  onDone: () => void;
+}) {
+  const updateTask = useMutation(api.tasks.updateTask);
+  const [text, setText] = useState(task.text);
+  const [description, setDescription] = useState(task.description ?? '');
+  const [duration, setDuration] = useState(task.duration?.toString() ?? '');
+  const [dueAt, setDueAt] = useState(toDueDateInput(task.dueAt, timeZone));
+  const [recurrence, setRecurrence] = useState(task.recurrence?.rule ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    if (!text.trim() || isSaving) return;
+    const parsedDueAt = dueAt.trim() ? parseDueDateInput(dueAt, timeZone) : null;
+    if (dueAt.trim() && parsedDueAt === null) {
+      setError('Enter the due date as YYYY-MM-DD HH:mm');
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      await updateTask({
+        id: task._id,
+        text,
+        description,
+        duration: duration ? parseInt(duration, 10) : null,
+        dueAt: parsedDueAt,
+        recurrence: recurrence.trim() || null,
+      });
+      onDone();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save task');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <RNView style={editStyles.container}>
+      <RNText style={styles.sheetLabel}>Title</RNText>
+      <TextInput
+        style={editStyles.input}
+        value={text}
+        onChangeText={setText}
+        maxLength={200}
+        placeholderTextColor="#666"
+      />
+      <RNText style={styles.sheetLabel}>Description</RNText>
+      <TextInput
+        style={[editStyles.input, editStyles.multilineInput]}
+        value={description}
+        onChangeText={setDescription}
+        multiline
+        placeholder="No description"
+        placeholderTextColor="#666"
+      />
+      <RNText style={styles.sheetLabel}>Duration (minutes)</RNText>
+      <TextInput
+        style={editStyles.input}
+        value={duration}
+        onChangeText={(value) => setDuration(value.replace(/[^0-9]/g, ''))}
+        keyboardType="number-pad"
+        placeholder="Unknown"
+        placeholderTextColor="#666"
+      />
+      <RNText style={styles.sheetLabel}>Due ({timeZone})</RNText>
+      <TextInput
+        style={editStyles.input}
+        value={dueAt}
+        onChangeText={setDueAt}
+        placeholder="YYYY-MM-DD HH:mm"
+        placeholderTextColor="#666"
+        autoCapitalize="none"
+      />
+      <RNText style={styles.sheetLabel}>Repeats</RNText>
+      <RNView style={editStyles.presets}>
+        {RECURRENCE_PRESETS.map((preset) => (
+          <Pressable
+            key={preset.value}
+            style={[editStyles.preset, recurrence === preset.value && editStyles.presetActive]}
+            onPress={() => setRecurrence(recurrence === preset.value ? '' : preset.value)}
+          >
+            <RNText style={editStyles.presetText}>{preset.label}</RNText>
+          </Pressable>
+        ))}
+      </RNView>
+      <TextInput
+        style={editStyles.input}
+        value={recurrence}
+        onChangeText={setRecurrence}
+        placeholder="Does not repeat (e.g. FREQ=WEEKLY;BYDAY=MO,TH)"
+        placeholderTextColor="#666"
+        autoCapitalize="characters"
+        autoCorrect={false}
+      />
+      {error && <RNText style={editStyles.errorText}>{error}</RNText>}
+      <RNView style={editStyles.buttons}>
+        <Pressable
+          style={[styles.sheetButton, styles.sheetButtonHalf, styles.sheetButtonInactive]}
+          onPress={onDone}
+          disabled={isSaving}
+        >
+          <RNText style={styles.sheetButtonText}>Cancel</RNText>
+        </Pressable>
+        <Pressable
+          style={[
+            styles.sheetButton,
+            styles.sheetButtonHalf,
+            editStyles.saveButton,
+            (!text.trim() || isSaving) && styles.sheetButtonDisabled
+          ]}
+          onPress={handleSave}
+          disabled={!text.trim() || isSaving}
+        >
+          {isSaving ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <RNText style={styles.sheetButtonText}>Save</RNText>
+          )}
+        </Pressable>
+      </RNView>
+    </RNView>
+  );
+}
+
+const editStyles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  input: {
+    backgroundColor: '#252525',
+    color: '#fff',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    marginBottom: 16,
+  },
+  multilineInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  errorText: {
+    color: '#f87171',
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  saveButton: {
+    backgroundColor: '#2563eb',
+  },
+  presets: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  preset: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#333',
+  },
+  presetActive: {
+    backgroundColor: '#0d9488',
+  },
+  presetText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '500',
+  },
+});
+
+// Tasks the selected one waits for; tapping one opens it
+function BlockerList({ taskId, onSelectTask }: { taskId: Id<"tasks">; onSelectTask: (taskId: Id<"tasks">) => void }) {
+  const dependencies = useQuery(api.dependencies.listDependencies, { taskId });
+  if (!dependencies || dependencies.blockedBy.length === 0) return null;
+  return (
+    <RNView style={checklistStyles.container}>
+      <RNText style={styles.sheetLabel}>Blocked by</RNText>
+      {dependencies.blockedBy.map((blocker) => (
+        <Pressable key={blocker._id} style={[checklistStyles.item, checklistStyles.itemToggle]} onPress={() => onSelectTask(blocker._id)}>
+          <RNText style={[checklistStyles.checkbox, blocker.isCompleted && checklistStyles.checkboxChecked]}>
+            {blocker.isCompleted ? '✓' : '○'}
+          </RNText>
+          <RNText style={[checklistStyles.itemText, blocker.isCompleted && checklistStyles.itemTextChecked]} numberOfLines={1}>
+            {blocker.text}
+          </RNText>
+        </Pressable>
+      ))}
+    </RNView>
+  );
+}
+
+function SubtaskChecklist({ taskId }: { taskId: Id<"tasks"> }) {
+  const subtasks = useQuery(api.subtasks.listSubtasks, { taskId });
+  const addSubtask = useMutation(api.subtasks.addSubtask);
+  const toggleSubtask = useMutation(api.subtasks.toggleSubtask);
+  const deleteSubtask = useMutation(api.subtasks.deleteSubtask);
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to update checklist');
+    }
+  };
+
+  const handleAdd = () => {
+    if (!text.trim()) return;
+    run(async () => {
+      await addSubtask({ taskId, text });
+      setText('');
+    });
+  };
+
+  const completed = subtasks?.filter((subtask) => subtask.isCompleted).length ?? 0;
+
+  return (
+    <RNView style={checklistStyles.container}>
+      <RNText style={styles.sheetLabel}>
+        Checklist{subtasks && subtasks.length > 0 ? ` (${completed}/${subtasks.length})` : ''}
+      </RNText>
+      <ScrollView style={checklistStyles.list} nestedScrollEnabled>
+        {subtasks?.map((subtask) => (
+          <RNView key={subtask._id} style={checklistStyles.item}>
+            <Pressable style={checklistStyles.itemToggle} onPress={() => run(() => toggleSubtask({ id: subtask._id }))}>
+              <RNText style={[checklistStyles.checkbox, subtask.isCompleted && checklistStyles.checkboxChecked]}>
+                {subtask.isCompleted ? '☑' : '☐'}
+              </RNText>
+              <RNText style={[checklistStyles.itemText, subtask.isCompleted && checklistStyles.itemTextChecked]}>
+                {subtask.text}
+              </RNText>
+            </Pressable>
+            <Pressable onPress={() => run(() => deleteSubtask({ id: subtask._id }))} hitSlop={8}>
+              <RNText style={checklistStyles.delete}>✕</RNText>
+            </Pressable>
+          </RNView>
+        ))}
+      </ScrollView>
+      <TextInput
+        style={checklistStyles.input}
+        value={text}
+        onChangeText={setText}
+        onSubmitEditing={handleAdd}
+        placeholder="Add an item..."
+        placeholderTextColor="#666"
+        maxLength={200}
+        returnKeyType="done"
+      />
+      {error && <RNText style={editStyles.errorText}>{error}</RNText>}
+    </RNView>
+  );
+}
+
+const checklistStyles = StyleSheet.create({
+  container: {
+    marginTop: 16,
+  },
+  list: {
+    maxHeight: 160,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  itemToggle: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  checkbox: {
+    fontSize: 16,
+    color: '#888',
+  },
+  checkboxChecked: {
+    color: '#4ade80',
+  },
+  itemText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#fff',
+  },
+  itemTextChecked: {
+    color: '#666',
+    textDecorationLine: 'line-through',
+  },
+  delete: {
+    fontSize: 12,
+    color: '#666',
+    paddingHorizontal: 4,
+  },
+  input: {
+    backgroundColor: '#252525',
+    color: '#fff',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    marginTop: 8,
+  },
+});
+
+function CommentMarkdown({ text, mentions }: { text: string; mentions: MentionedUser[] }) {
+  return (
+    <RNView>
+      {parseMarkdownBlocks(text).map((block, index) => (
+        <RNView key={index} style={commentStyles.block}>
+          {block.lines.map((line, lineIndex) => (
+            <RNText key={lineIndex} style={commentStyles.text}>
+              {block.isList && '• '}
+              {parseInlineMarkdown(line, mentions).map((token, tokenIndex) => {
+                switch (token.type) {
+                  case 'bold':
+                    return <RNText key={tokenIndex} style={commentStyles.bold}>{token.text}</RNText>;
+                  case 'italic':
+                    return <RNText key={tokenIndex} style={commentStyles.italic}>{token.text}</RNText>;
+                  case 'code':
+                    return <RNText key={tokenIndex} style={commentStyles.code}>{token.text}</RNText>;
+                  case 'link':
+                    return (
+                      <RNText key={tokenIndex} style={commentStyles.link} onPress={() => void Linking.openURL(token.href)}>
+                        {token.text}
+                      </RNText>
+                    );
+                  case 'mention':
+                    return <RNText key={tokenIndex} style={commentStyles.mention}>{token.text}</RNText>;
+                  default:
+                    return token.text;
+                }
+              })}
+            </RNText>
+          ))}
+        </RNView>
+      ))}
+    </RNView>
+  );
+}
+
+function CommentThread({ taskId, users, viewerId, timeZone }: {
+  taskId: Id<"tasks">;
+  users: { _id: Id<"users">; name: string; deactivatedAt?: number }[] | undefined;
+  viewerId: Id<"users"> | undefined;
+  timeZone: string;
+}) {
+  const comments = useQuery(api.comments.listComments, { taskId });
+  const addComment = useMutation(api.comments.addComment);
+  const updateComment = useMutation(api.comments.updateComment);
+  const deleteComment = useMutation(api.comments.deleteComment);
+  const [text, setText] = useState('');
+  const [editingId, setEditingId] = useState<Id<"comments"> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const mentionQuery = getMentionQuery(text);
+  const suggestions = mentionQuery === undefined ? [] : (users ?? [])
+    .filter((user) => user.deactivatedAt === undefined && user.name.toLowerCase().startsWith(mentionQuery.toLowerCase()))
+    .slice(0, 5);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      return true;
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to update comments');
+      return false;
+    }
+  };
+
+  // The same input posts new comments and saves the one being edited
+  const handleSubmit = async () => {
+    if (!text.trim()) return;
+    const saved = await run(() => editingId ? updateComment({ id: editingId, text }) : addComment({ taskId, text }));
+    if (saved) {
+      setText('');
+      setEditingId(null);
+    }
+  };
+
+  return (
+    <RNView style={checklistStyles.container}>
+      <RNText style={styles.sheetLabel}>
+        Comments{comments && comments.length > 0 ? ` (${comments.length})` : ''}
+      </RNText>
+      {comments?.map((comment) => (
+        <RNView key={comment._id} style={commentStyles.comment}>
+          <RNView style={commentStyles.header}>
+            <RNText style={commentStyles.author}>{comment.author?.name ?? 'Unknown'}</RNText>
+            <RNText style={commentStyles.meta}>
+              {formatRelativeTime(comment._creationTime, timeZone)}
+              {comment.editedAt !== undefined ? ' (edited)' : ''}
+            </RNText>
+            {comment.authorId === viewerId && (
+              <RNView style={commentStyles.actions}>
+                <Pressable
+                  hitSlop={8}
+                  onPress={() => {
+                    setEditingId(comment._id);
+                    setText(comment.text);
+                  }}
+                >
+                  <RNText style={commentStyles.action}>Edit</RNText>
+                </Pressable>
+                <Pressable hitSlop={8} onPress={() => run(() => deleteComment({ id: comment._id }))}>
+                  <RNText style={commentStyles.action}>Delete</RNText>
+                </Pressable>
+              </RNView>
+            )}
+          </RNView>
+          <CommentMarkdown text={comment.text} mentions={comment.mentions} />
+        </RNView>
+      ))}
+      {suggestions.length > 0 && (
+        <RNView style={editStyles.presets}>
+          {suggestions.map((user) => (
+            <Pressable
+              key={user._id}
+              style={editStyles.preset}
+              onPress={() => setText(text.replace(/@([^\s@]*)$/, `@${user.name} `))}
+            >
+              <RNText style={editStyles.presetText}>@{user.name}</RNText>
+            </Pressable>
+          ))}
+        </RNView>
+      )}
+      <TextInput
+        style={[checklistStyles.input, commentStyles.input]}
+        value={text}
+        onChangeText={setText}
+        placeholder={editingId ? 'Edit comment...' : 'Write a comment... (@name to mention)'}
+        placeholderTextColor="#666"
+        maxLength={5000}
+        multiline
+      />
+      <RNView style={commentStyles.submitRow}>
+        {editingId && (
+          <Pressable
+            onPress={() => {
+              setEditingId(null);
+              setText('');
+            }}
+          >
+            <RNText style={commentStyles.action}>Cancel</RNText>
+          </Pressable>
+        )}
+        <Pressable style={commentStyles.submit} onPress={handleSubmit} disabled={!text.trim()}>
+          <RNText style={commentStyles.submitText}>{editingId ? 'Save' : 'Comment'}</RNText>
+        </Pressable>
+      </RNView>
+      {error && <RNText style={editStyles.errorText}>{error}</RNText>}
+    </RNView>
+  );
+}
+
+const commentStyles = StyleSheet.create({
+  comment: {
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#333',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 4,
+  },
+  author: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#ddd',
+  },
+  meta: {
+    fontSize: 12,
+    color: '#666',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginLeft: 'auto',
+  },
+  action: {
+    fontSize: 12,
+    color: '#888',
+  },
+  block: {
+    marginBottom: 4,
+  },
+  text: {
+    fontSize: 14,
+    color: '#fff',
+    lineHeight: 20,
+  },
+  bold: {
+    fontWeight: '700',
+  },
+  italic: {
+    fontStyle: 'italic',
+  },
+  code: {
+    fontFamily: 'SpaceMono',
+    fontSize: 12,
+    color: '#f9a8d4',
+    backgroundColor: '#111',
+  },
+  link: {
+    color: '#38bdf8',
+    textDecorationLine: 'underline',
+  },
+  mention: {
+    color: '#a5b4fc',
+    fontWeight: '600',
+  },
+  input: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  submitRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: 16,
+    marginTop: 8,
+  },
+  submit: {
+    backgroundColor: '#404040',
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  submitText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
+
+// Files on a task; tapping one opens it, images show a preview
+function AttachmentList({ taskId, timeZone }: { taskId: Id<"tasks">; timeZone: string }) {
+  const attachments = useQuery(api.attachments.listAttachments, { taskId });
+  const generateUploadUrl = useMutation(api.attachments.generateUploadUrl);
+  const addAttachment = useMutation(api.attachments.addAttachment);
+  const deleteAttachment = useMutation(api.attachments.deleteAttachment);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handlePick = async () => {
+    setError(null);
+    const result = await DocumentPicker.getDocumentAsync({ multiple: true, copyToCacheDirectory: true });
+    if (result.canceled) return;
+    setIsUploading(true);
+    // One at a time, so a failure only loses that file
+    for (const asset of result.assets) {
+      try {
+        const file = await (await fetch(asset.uri)).blob();
+        const response = await fetch(await generateUploadUrl(), {
+          method: 'POST',
+          headers: { 'Content-Type': asset.mimeType ?? 'application/octet-stream' },
+          body: file,
+        });
+        if (!response.ok) throw new Error('Failed to upload file');
+        const { storageId } = await response.json();
+        const added = await addAttachment({ taskId, storageId, name: asset.name });
+        if ('error' in added) throw new Error(added.error);
+      } catch (e) {
+        setError(`${asset.name}: ${e instanceof Error ? e.message : 'Failed to upload'}`);
+      }
+    }
+    setIsUploading(false);
+  };
+
+  return (
+    <RNView style={checklistStyles.container}>
+      <RNText style={styles.sheetLabel}>
+        Attachments{attachments && attachments.length > 0 ? ` (${attachments.length})` : ''}
+      </RNText>
+      {attachments?.map((attachment) => (
+        <Pressable
+          key={attachment._id}
+          style={attachmentStyles.row}
+          onPress={() => attachment.url && Linking.openURL(attachment.url)}
+        >
+          {attachment.isImage && attachment.url ? (
+            <Image source={{ uri: attachment.url }} style={attachmentStyles.preview} />
+          ) : (
+            <RNView style={attachmentStyles.preview}>
+              <RNText style={attachmentStyles.fileIcon}>📄</RNText>
+            </RNView>
+          )}
+          <RNView style={attachmentStyles.details}>
+            <RNText style={attachmentStyles.name} numberOfLines={1}>{attachment.name}</RNText>
+            <RNText style={commentStyles.meta}>
+              {formatFileSize(attachment.size)} · {formatRelativeTime(attachment._creationTime, timeZone)}
+            </RNText>
+          </RNView>
+          <Pressable
+            hitSlop={8}
+            onPress={async () => {
+              setError(null);
+              try {
+                await deleteAttachment({ id: attachment._id });
+              } catch (e) {
+                setError(e instanceof Error ? e.message : 'Failed to delete attachment');
+              }
+            }}
+          >
+            <RNText style={checklistStyles.delete}>✕</RNText>
+          </Pressable>
+        </Pressable>
+      ))}
+      <Pressable style={attachmentStyles.addButton} onPress={handlePick} disabled={isUploading}>
+        {isUploading ? (
+          <ActivityIndicator size="small" color="#888" />
+        ) : (
+          <RNText style={commentStyles.action}>+ Attach files</RNText>
+        )}
+      </Pressable>
+      {error && <RNText style={editStyles.errorText}>{error}</RNText>}
+    </RNView>
+  );
+}
+
+const attachmentStyles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 6,
+  },
+  preview: {
+    width: 44,
+    height: 44,
+    borderRadius: 6,
+    backgroundColor: '#262626',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  fileIcon: {
+    fontSize: 20,
+  },
+  details: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 14,
+    color: '#fff',
+  },
+  addButton: {
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#444',
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+    marginTop: 6,
+  },
+});
+
 // Simple Task Item Component
 function TaskItem({ 
   item, 
+  timeZone,
   onPress
 }: { 
   item: any; 
+  timeZone: string;
   onPress: () => void;
 }) {
+  const dueStatus = getDueStatus(item, timeZone);
   return (
     <Pressable
       style={[
         styles.taskCard,
         styles.taskIncomplete,
-        item.isImportant ? styles.taskImportant : item.isCompleted && styles.taskCompleted,
+        isTopPriority(item) ? styles.taskImportant : item.isCompleted && styles.taskCompleted,
       ]}
       onPress={onPress}
     >
@@ -322,8 +1202,8 @@ function TaskItem({
         <RNText style={[styles.taskText, item.isCompleted && styles.taskTextCompleted]} numberOfLines={1}>
           {item.text}
         </RNText>
-        <RNText style={[styles.taskImportanceIcon, item.isImportant && styles.taskImportanceIconActive]}>
-          {item.isImportant ? '★' : '☆'}
+        <RNText style={[styles.taskPriority, isTopPriority(item) && styles.taskPriorityTop]}>
+          {PRIORITIES[getPriority(item)].label}
         </RNText>
       </RNView>
       {item.description && (
@@ -331,36 +1211,116 @@ function TaskItem({
           {item.description}
         </RNText>
       )}
+      {dueStatus && (
+        <RNText style={[styles.taskDue, dueStatus === 'overdue' && styles.taskDueOverdue, dueStatus === 'today' && styles.taskDueToday]}>
+          {DUE_LABELS[dueStatus]} · {formatDueDate(item.dueAt, timeZone)}
+        </RNText>
+      )}
+      {item.isBlocked && (
+        <RNText style={[styles.taskDue, styles.taskBlocked]}>⛔ Blocked</RNText>
+      )}
+      {item.subtaskCount > 0 && (
+        <RNText style={[styles.taskDue, item.completedSubtaskCount === item.subtaskCount && styles.taskSubtasksDone]}>
+          ☑ {item.completedSubtaskCount ?? 0}/{item.subtaskCount}
+        </RNText>
+      )}
+      {item.commentCount > 0 && (
+        <RNText style={styles.taskDue}>💬 {item.commentCount}</RNText>
+      )}
+      {item.trackedMs > 0 && (
+        <RNText style={styles.taskDue}>⏱ {formatTrackedTime(item.trackedMs)}</RNText>
+      )}
+      {item.tags?.length > 0 && <TagChips tags={item.tags} />}
       <RNText style={styles.taskHint}>Tap for details</RNText>
     </Pressable>
   );
 }
 
 
+function TagChips({ tags, inSheet }: { tags: { _id: string; name: string; color: string }[]; inSheet?: boolean }) {
+  return (
+    <RNView style={[styles.tagChips, inSheet && styles.tagChipsInSheet]}>
+      {tags.map((tag) => (
+        <RNView key={tag._id} style={[styles.tagChip, { borderColor: tag.color, backgroundColor: `${tag.color}26` }]}>
+          <RNText style={[styles.tagChipText, { color: tag.color }]}>{tag.name}</RNText>
+        </RNView>
+      ))}
+    </RNView>
+  );
+}
+
 interface TaskListProps {
   filter: FilterType;
   sort: SortType;
   onSortChange: (sort: SortType) => void;
   durationFilter?: DurationFilterType;
   onDurationFilterChange?: (filter: DurationFilterType) => void;
+  dueFilter?: DueFilterType;
+  onDueFilterChange?: (filter: DueFilterType) => void;
+  blockedFilter?: BlockedFilterType;
+  onBlockedFilterChange?: (filter: BlockedFilterType) => void;
+  priorityFilter?: PriorityFilterType;
+  onPriorityFilterChange?: (filter: PriorityFilterType) => void;
 }
 
-export default function TaskList({ filter, sort, onSortChange, durationFilter = 'all', onDurationFilterChange }: TaskListProps) {
-  const allTasks = useQuery(api.tasks.listAllWithHistoryCount) ?? [];
+export default function TaskList({ filter, sort, onSortChange, durationFilter = 'all', onDurationFilterChange, dueFilter = 'all', onDueFilterChange, blockedFilter = 'all', onBlockedFilterChange, priorityFilter = 'all', onPriorityFilterChange }: TaskListProps) {
+  const { projectId, setProjectId } = useProject();
+  const statuses = useQuery(api.statuses.listStatuses, {});
+  // Filtering, sorting and paging all happen on the server
+  const { results: tasks, status: tasksStatus, loadMore } = usePaginatedQuery(
+    api.tasks.listTasks,
+    {
+      filters: {
+        // The Completed and Incomplete tabs show the tasks in every done or every open status
+        isCompleted: filter === 'completed' ? true : filter === 'incomplete' ? false : undefined,
+        durationFilter,
+        // The Important tab shows the top levels, P0 and P1
+        priorities: filter === 'important' ? [0, 1] : priorityFilter === 'all' ? undefined : [priorityFilter],
+        dueFilter,
+        blockedFilter,
+        projectId,
+      },
+      sort,
+    },
+    { initialNumItems: PAGE_SIZE }
+  );
   const toggleCompleted = useMutation(api.tasks.toggleCompleted);
-  const toggleImportant = useMutation(api.tasks.toggleImportant);
+  const setPriority = useMutation(api.tasks.setPriority);
+  const setStatus = useMutation(api.tasks.setStatus);
+  const runningTimer = useQuery(api.timeEntries.getRunningTimer, {});
+  const startTimer = useMutation(api.timeEntries.startTimer);
+  const stopTimer = useMutation(api.timeEntries.stopTimer);
+  const deleteTask = useMutation(api.tasks.deleteTask);
+  const reassignTask = useMutation(api.tasks.reassignTask);
+  const users = useQuery(api.tasks.getAllUsers, {});
+  const viewer = useQuery(api.users.viewer, {});
+  const projects = useQuery(api.projects.listProjects, {});
+  // Dates are shown in the zone picked on the web app
+  const timeZone = viewer?.timeZone ?? 'UTC';
   
   const [selectedTaskId, setSelectedTaskId] = useState<Id<"tasks"> | null>(null);
+  const [isEditingTask, setIsEditingTask] = useState(false);
   const [historyShowCompleted, setHistoryShowCompleted] = useState(false);
   const [historyShowIncomplete, setHistoryShowIncomplete] = useState(false);
-  const [historyShowImportant, setHistoryShowImportant] = useState(false);
-  const [historyShowNotImportant, setHistoryShowNotImportant] = useState(false);
-  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [historyShowPriorityRaised, setHistoryShowPriorityRaised] = useState(false);
+  const [historyShowPriorityLowered, setHistoryShowPriorityLowered] = useState(false);
+  const [historyShowStatusChanges, setHistoryShowStatusChanges] = useState(false);
   const [showSortPicker, setShowSortPicker] = useState(false);
+  const [showProjectPicker, setShowProjectPicker] = useState(false);
+  const [showAssigneePicker, setShowAssigneePicker] = useState(false);
+  const [showPriorityPicker, setShowPriorityPicker] = useState(false);
+  const [showStatusPicker, setShowStatusPicker] = useState(false);
   const [togglingTaskId, setTogglingTaskId] = useState<Id<"tasks"> | null>(null);
-  const [togglingType, setTogglingType] = useState<'importance' | 'completion' | null>(null);
+  const [togglingType, setTogglingType] = useState<'priority' | 'completion' | 'timer' | null>(null);
   
-  const selectedTask = selectedTaskId ? allTasks.find(t => t._id === selectedTaskId) ?? null : null;
+  // Look up the selected task on its own so it stays open even if it stops matching the tab's filter
+  // (falls back to the row from the list while the task query loads)
+  const selectedTaskQuery = useQuery(api.tasks.getTask, selectedTaskId ? { id: selectedTaskId } : 'skip');
+  const selectedTask = selectedTaskId
+    ? (selectedTaskQuery === undefined ? tasks.find(t => t._id === selectedTaskId) ?? null : selectedTaskQuery)
+    : null;
+  const selectedWorkflow = statuses?.filter((status) => status.projectId === selectedTask?.projectId) ?? [];
+  const selectedStatus = selectedWorkflow.find((status) => status._id === selectedTask?.statusId);
 
   const handleToggleComplete = useCallback(async (taskId: Id<"tasks">) => {
     setTogglingTaskId(taskId);
@@ -373,83 +1333,75 @@ export default function TaskList({ filter, sort, onSortChange, durationFilter =
     }
   }, [toggleCompleted]);
 
-  const handleToggleImportant = useCallback(async (taskId: Id<"tasks">) => {
+  const handleSetPriority = useCallback(async (taskId: Id<"tasks">, priority: Priority) => {
+    setShowPriorityPicker(false);
     setTogglingTaskId(taskId);
-    setTogglingType('importance');
+    setTogglingType('priority');
     try {
-      await toggleImportant({ id: taskId });
+      await setPriority({ id: taskId, priority });
     } finally {
       setTogglingTaskId(null);
       setTogglingType(null);
     }
-  }, [toggleImportant]);
-
-  // Sort and filter tasks
-  const sortedAndFilteredTasks = useMemo(() => {
-    let filtered = allTasks.filter(task => {
-      // Status filter
-      if (filter === 'all') {
-        // All tasks - no status filter
-      } else if (filter === 'completed') {
-        if (!task.isCompleted) return false;
-      } else if (filter === 'incomplete') {
-        if (task.isCompleted) return false;
-      } else if (filter === 'important') {
-        if (!task.isImportant) return false;
-      }
-      
-      // Duration filter
-      if (durationFilter === 'quick') {
-        if ((task.duration ?? 0) > 15) return false;
-      } else if (durationFilter === 'long') {
-        if ((task.duration ?? 0) <= 15) return false;
-      }
-      // 'all' duration filter - no filtering
-      
-      return true;
-    });
-    
-    return filtered.sort((a, b) => {
-      switch (sort) {
-        case 'latest':
-          return (b.updatedAt ?? 0) - (a.updatedAt ?? 0);
-        case 'inactive':
-          return (a.updatedAt ?? 0) - (b.updatedAt ?? 0);
-        case 'newest':
-          return (b.createdAt ?? 0) - (a.createdAt ?? 0);
-        case 'oldest':
-          return (a.createdAt ?? 0) - (b.createdAt ?? 0);
-        case 'frequent':
-          return b.historyCount - a.historyCount;
-        case 'unfrequent':
-          return a.historyCount - b.historyCount;
-        case 'quickest':
-          return (a.duration ?? 0) - (b.duration ?? 0);
-        case 'longest':
-          return (b.duration ?? 0) - (a.duration ?? 0);
-        default:
-          return 0;
+  }, [setPriority]);
+
+  const handleSetStatus = useCallback(async (taskId: Id<"tasks">, statusId: Id<"statuses">) => {
+    setShowStatusPicker(false);
+    setTogglingTaskId(taskId);
+    setTogglingType('completion');
+    try {
+      await setStatus({ id: taskId, statusId });
+    } finally {
+      setTogglingTaskId(null);
+      setTogglingType(null);
+    }
+  }, [setStatus]);
+
+  // Starting a timer here stops the one the user has running on another task
+  const handleToggleTimer = useCallback(async (taskId: Id<"tasks">) => {
+    setTogglingTaskId(taskId);
+    setTogglingType('timer');
+    try {
+      if (runningTimer?.taskId === taskId) {
+        await stopTimer({});
+      } else {
+        await startTimer({ taskId });
       }
-    });
-  }, [allTasks, filter, sort, durationFilter]);
+    } finally {
+      setTogglingTaskId(null);
+      setTogglingType(null);
+    }
+  }, [runningTimer, startTimer, stopTimer]);
+
+  const handleReassign = useCallback(async (taskId: Id<"tasks">, userId: Id<"users">) => {
+    setShowAssigneePicker(false);
+    await reassignTask({ id: taskId, userId });
+  }, [reassignTask]);
 
-  const visibleTasks = sortedAndFilteredTasks.slice(0, visibleCount);
-  const hasMore = visibleCount < sortedAndFilteredTasks.length;
+  const handleDelete = useCallback(async (taskId: Id<"tasks">) => {
+    // Deleting only moves the task to the trash, so no confirmation is needed
+    await deleteTask({ id: taskId });
+    setSelectedTaskId(null);
+    setIsEditingTask(false);
+  }, [deleteTask]);
+
+  const visibleTasks = tasks;
+  const hasMore = tasksStatus === 'CanLoadMore' || tasksStatus === 'LoadingMore';
 
   const handleLoadMore = useCallback(() => {
-    if (hasMore) {
-      setVisibleCount(prev => prev + PAGE_SIZE);
+    if (tasksStatus === 'CanLoadMore') {
+      loadMore(PAGE_SIZE);
     }
-  }, [hasMore]);
+  }, [tasksStatus, loadMore]);
 
   const currentSortLabel = sortOptions.find(o => o.value === sort)?.label ?? 'Sort';
-  const isLoading = allTasks.length === 0 && !allTasks;
+  const currentProject = projects?.find(project => project._id === projectId);
+  const isLoading = tasksStatus === 'LoadingFirstPage';
   
   const cycleDurationFilter = useCallback(() => {
     if (!onDurationFilterChange) return;
     const nextFilter: DurationFilterType = durationFilter === 'all' ? 'quick' : durationFilter === 'quick' ? 'long' : 'all';
     onDurationFilterChange(nextFilter);
-    setVisibleCount(PAGE_SIZE);
   }, [durationFilter, onDurationFilterChange]);
   
   const getDurationFilterIcon = () => {
@@ -460,6 +1412,25 @@ export default function TaskList({ filter, sort, onSortChange, durationFilter =
     }
   };
   
+  const cycleDueFilter = useCallback(() => {
+    if (!onDueFilterChange) return;
+    const nextFilter: DueFilterType = dueFilter === 'all' ? 'overdue' : dueFilter === 'overdue' ? 'today' : 'all';
+    onDueFilterChange(nextFilter);
+  }, [dueFilter, onDueFilterChange]);
+
+  // All, then each level from P0 to P3
+  const cyclePriorityFilter = useCallback(() => {
+    if (!onPriorityFilterChange) return;
+    const nextFilter: PriorityFilterType = priorityFilter === 'all' ? 0 : priorityFilter === 3 ? 'all' : (priorityFilter + 1) as Priority;
+    onPriorityFilterChange(nextFilter);
+  }, [priorityFilter, onPriorityFilterChange]);
+
+  const cycleBlockedFilter = useCallback(() => {
+    if (!onBlockedFilterChange) return;
+    const nextFilter: BlockedFilterType = blockedFilter === 'all' ? 'blocked' : blockedFilter === 'blocked' ? 'unblocked' : 'all';
+    onBlockedFilterChange(nextFilter);
+  }, [blockedFilter, onBlockedFilterChange]);
+  
   const getDurationFilterLabel = () => {
     switch (durationFilter) {
       case 'all': return 'All';
@@ -489,6 +1460,14 @@ export default function TaskList({ filter, sort, onSortChange, durationFilter =
           <RNText style={styles.sortButtonChevron}>▼</RNText>
         </Pressable>
         
+        <Pressable 
+          style={styles.durationButton}
+          onPress={() => setShowProjectPicker(true)}
+        >
+          {currentProject && <RNView style={[styles.projectDot, { backgroundColor: currentProject.color }]} />}
+          <RNText style={styles.durationButtonLabel} numberOfLines={1}>{currentProject?.name ?? 'All projects'}</RNText>
+        </Pressable>
+        
         {onDurationFilterChange && (
           <Pressable 
             style={styles.durationButton}
@@ -498,6 +1477,42 @@ export default function TaskList({ filter, sort, onSortChange, durationFilter =
             <RNText style={styles.durationButtonLabel}>{getDurationFilterLabel()}</RNText>
           </Pressable>
         )}
+        
+        {onDueFilterChange && (
+          <Pressable 
+            style={styles.durationButton}
+            onPress={cycleDueFilter}
+          >
+            <RNText style={styles.durationButtonIcon}>{dueFilter === 'overdue' ? '⏰' : dueFilter === 'today' ? '📅' : '⊙'}</RNText>
+            <RNText style={styles.durationButtonLabel}>
+              {dueFilter === 'overdue' ? 'Overdue' : dueFilter === 'today' ? 'Today' : 'Any due'}
+            </RNText>
+          </Pressable>
+        )}
+        
+        {onBlockedFilterChange && (
+          <Pressable 
+            style={styles.durationButton}
+            onPress={cycleBlockedFilter}
+          >
+            <RNText style={styles.durationButtonIcon}>{blockedFilter === 'blocked' ? '⛔' : blockedFilter === 'unblocked' ? '▶' : '⊙'}</RNText>
+            <RNText style={styles.durationButtonLabel}>
+              {blockedFilter === 'blocked' ? 'Blocked' : blockedFilter === 'unblocked' ? 'Unblocked' : 'Any'}
+            </RNText>
+          </Pressable>
+        )}
+
+        {onPriorityFilterChange && (
+          <Pressable 
+            style={styles.durationButton}
+            onPress={cyclePriorityFilter}
+          >
+            <RNText style={styles.durationButtonIcon}>⚑</RNText>
+            <RNText style={styles.durationButtonLabel}>
+              {priorityFilter === 'all' ? 'Any' : PRIORITIES[priorityFilter].label}
+            </RNText>
+          </Pressable>
+        )}
       </RNView>
       
       <View style={styles.separator} lightColor="#eee" darkColor="rgba(255,255,255,0.1)" />
@@ -511,6 +1526,7 @@ export default function TaskList({ filter, sort, onSortChange, durationFilter =
         renderItem={({ item }) => (
           <TaskItem
             item={item}
+            timeZone={timeZone}
             onPress={() => setSelectedTaskId(item._id)}
           />
         )}
@@ -548,7 +1564,6 @@ export default function TaskList({ filter, sort, onSortChange, durationFilter =
                 ]}
                 onPress={() => {
                   onSortChange(option.value);
-                  setVisibleCount(PAGE_SIZE);
                   setShowSortPicker(false);
                 }}
               >
@@ -567,23 +1582,85 @@ export default function TaskList({ filter, sort, onSortChange, durationFilter =
         </Pressable>
       </Modal>
 
+      {/* Project Picker Modal */}
+      <Modal
+        visible={showProjectPicker}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setShowProjectPicker(false)}
+      >
+        <Pressable 
+          style={styles.sortModalOverlay}
+          onPress={() => setShowProjectPicker(false)}
+        >
+          <RNView style={styles.sortModalContent}>
+            <RNText style={styles.sortModalTitle}>Project</RNText>
+            {[{ _id: undefined, name: 'All projects', color: undefined }, ...(projects ?? [])].map((project) => (
+              <Pressable
+                key={project._id ?? 'all'}
+                style={[
+                  styles.sortOption,
+                  projectId === project._id && styles.sortOptionActive
+                ]}
+                onPress={() => {
+                  setProjectId(project._id);
+                  setShowProjectPicker(false);
+                }}
+              >
+                <RNView style={styles.projectOption}>
+                  {project.color && <RNView style={[styles.projectDot, { backgroundColor: project.color }]} />}
+                  <RNText style={[
+                    styles.sortOptionText,
+                    projectId === project._id && styles.sortOptionTextActive
+                  ]}>
+                    {project.name}
+                  </RNText>
+                </RNView>
+                {projectId === project._id && (
+                  <RNText style={styles.sortOptionCheck}>✓</RNText>
+                )}
+              </Pressable>
+            ))}
+          </RNView>
+        </Pressable>
+      </Modal>
+
       {/* Full Screen Task Detail View */}
       <Modal
         visible={!!selectedTaskId}
         animationType="slide"
-        onRequestClose={() => setSelectedTaskId(null)}
+        onRequestClose={() => {
+          setSelectedTaskId(null);
+          setIsEditingTask(false);
+        }}
       >
         {selectedTask && (
           <RNView style={styles.fullScreenContainer}>
             {/* Header with close button */}
             <RNView style={styles.fullScreenHeader}>
-              <Pressable style={styles.closeButtonFull} onPress={() => setSelectedTaskId(null)}>
+              <Pressable
+                style={styles.closeButtonFull}
+                onPress={() => {
+                  setSelectedTaskId(null);
+                  setIsEditingTask(false);
+                }}
+              >
                 <RNText style={styles.closeButtonText}>✕</RNText>
               </Pressable>
               <RNText style={styles.fullScreenTitle} numberOfLines={1} ellipsizeMode="tail">{selectedTask.text}</RNText>
               <RNView style={styles.headerIndicators}>
-                <RNText style={selectedTask.isImportant ? styles.headerImportantIcon : styles.headerNotImportantIcon}>
-                  {selectedTask.isImportant ? "★" : "☆"}
+                {!isEditingTask && (
+                  <>
+                    <Pressable onPress={() => handleDelete(selectedTask._id)} hitSlop={8}>
+                      <RNText style={styles.headerEditIcon}>🗑</RNText>
+                    </Pressable>
+                    <Pressable onPress={() => setIsEditingTask(true)} hitSlop={8}>
+                      <RNText style={styles.headerEditIcon}>✎</RNText>
+                    </Pressable>
+                  </>
+                )}
+                <RNText style={isTopPriority(selectedTask) ? styles.headerImportantIcon : styles.headerNotImportantIcon}>
+                  {PRIORITIES[getPriority(selectedTask)].label}
                 </RNText>
                 <RNText style={selectedTask.isCompleted ? styles.headerStatusIconCompleted : styles.headerStatusIcon}>
                   {selectedTask.isCompleted ? "✓" : "○"}
@@ -593,42 +1670,129 @@ export default function TaskList({ filter, sort, onSortChange, durationFilter =
             
             {/* Fixed content */}
             <RNView style={styles.fullScreenFixedContent}>
-              <RNView style={styles.sheetSection}>
-                <RNText style={styles.sheetLabel}>Description</RNText>
-                <RNText style={styles.sheetDescription}>
-                  {selectedTask.description || "No description available."}
-                </RNText>
-              </RNView>
-              
-              <RNView style={styles.sheetDivider} />
-              
-              <RNView style={styles.sheetRow}>
-                <RNText style={styles.sheetRowLabel}>Duration</RNText>
-                <RNText style={styles.sheetRowValue}>{formatDuration(selectedTask.duration)}</RNText>
-              </RNView>
+              {isEditingTask ? (
+                <TaskEditForm
+                  key={selectedTask._id}
+                  task={selectedTask}
+                  timeZone={timeZone}
+                  onDone={() => setIsEditingTask(false)}
+                />
+              ) : (
+                <>
+                  <RNView style={styles.sheetSection}>
+                    <RNText style={styles.sheetLabel}>Description</RNText>
+                    <RNText style={styles.sheetDescription}>
+                      {selectedTask.description || "No description available."}
+                    </RNText>
+                  </RNView>
+                  
+                  <RNView style={styles.sheetDivider} />
+                  
+                  {selectedStatus && (
+                    <Pressable style={styles.sheetRow} onPress={() => setShowStatusPicker(true)}>
+                      <RNText style={styles.sheetRowLabel}>Status</RNText>
+                      <RNText style={[styles.sheetRowValue, { color: selectedStatus.color }]}>
+                        {selectedStatus.name} ▾
+                      </RNText>
+                    </Pressable>
+                  )}
+                  
+                  <Pressable style={styles.sheetRow} onPress={() => setShowAssigneePicker(true)}>
+                    <RNText style={styles.sheetRowLabel}>Assignee</RNText>
+                    <RNText style={styles.sheetRowValue}>
+                      {users?.find(u => u._id === selectedTask.userId)?.name ?? 'Unassigned'} ▾
+                    </RNText>
+                  </Pressable>
+                  
+                  <RNView style={styles.sheetRow}>
+                    <RNText style={styles.sheetRowLabel}>Duration</RNText>
+                    <RNText style={styles.sheetRowValue}>
+                      {formatDuration(selectedTask.duration)}
+                      {selectedTask.actualDuration ? ` · took ${formatDuration(selectedTask.actualDuration)}` : ''}
+                    </RNText>
+                  </RNView>
+                  
+                  <Pressable
+                    style={styles.sheetRow}
+                    onPress={() => handleToggleTimer(selectedTask._id)}
+                    disabled={togglingTaskId === selectedTask._id && togglingType === 'timer'}
+                  >
+                    <RNText style={styles.sheetRowLabel}>Time Tracked</RNText>
+                    <RNText style={styles.sheetRowValue}>
+                      {formatTrackedTime(selectedTask.trackedMs ?? 0)}
+                      {runningTimer?.taskId === selectedTask._id ? ' · ■ Stop' : ' · ▶ Start'}
+                    </RNText>
+                  </Pressable>
+                  
+                  <RNView style={styles.sheetRow}>
+                    <RNText style={styles.sheetRowLabel}>Due</RNText>
+                    <RNText style={styles.sheetRowValue}>
+                      {selectedTask.dueAt !== undefined ? formatDueDate(selectedTask.dueAt, timeZone) : 'None'}
+                    </RNText>
+                  </RNView>
+
+                  {selectedTask.recurrence && (
+                    <Pressable
+                      style={styles.sheetRow}
+                      onPress={() => selectedTask.nextOccurrenceId && setSelectedTaskId(selectedTask.nextOccurrenceId)}
+                      disabled={!selectedTask.nextOccurrenceId}
+                    >
+                      <RNText style={styles.sheetRowLabel}>Repeats</RNText>
+                      <RNText style={styles.sheetRowValue}>
+                        {describeRecurrence(selectedTask.recurrence.rule)}
+                        {selectedTask.nextOccurrenceId ? ' ›' : ''}
+                      </RNText>
+                    </Pressable>
+                  )}
+
+                  {selectedTask.tags?.length > 0 && (
+                    <RNView style={styles.sheetRow}>
+                      <RNText style={styles.sheetRowLabel}>Tags</RNText>
+                      <TagChips tags={selectedTask.tags} inSheet />
+                    </RNView>
+                  )}
+                </>
+              )}
               
               <RNView style={styles.sheetRow}>
                 <RNText style={styles.sheetRowLabel}>Created</RNText>
-                <RNText style={styles.sheetRowValue}>{formatRelativeTime(selectedTask.createdAt)}</RNText>
+                <RNText style={styles.sheetRowValue}>{formatRelativeTime(selectedTask.createdAt, timeZone)}</RNText>
               </RNView>
               
               <RNView style={styles.sheetRow}>
                 <RNText style={styles.sheetRowLabel}>Last Updated</RNText>
-                <RNText style={styles.sheetRowValue}>{formatRelativeTime(selectedTask.updatedAt)}</RNText>
+                <RNText style={styles.sheetRowValue}>{formatRelativeTime(selectedTask.updatedAt, timeZone)}</RNText>
               </RNView>
 
+              {!isEditingTask && <BlockerList taskId={selectedTask._id} onSelectTask={setSelectedTaskId} />}
+              {!isEditingTask && <SubtaskChecklist key={selectedTask._id} taskId={selectedTask._id} />}
+              {!isEditingTask && (
+                <CommentThread
+                  key={`comments-${selectedTask._id}`}
+                  taskId={selectedTask._id}
+                  users={users}
+                  viewerId={viewer?._id}
+                  timeZone={timeZone}
+                />
+              )}
+              {!isEditingTask && (
+                <AttachmentList key={`attachments-${selectedTask._id}`} taskId={selectedTask._id} timeZone={timeZone} />
+              )}
+
               <RNView style={styles.sheetHistorySection}>
                 <RNView style={styles.sheetHistoryHeader}>
                   <RNText style={styles.sheetLabelInHeader}>Changes</RNText>
                   <HistoryFilterChips
                     showCompleted={historyShowCompleted}
                     showIncomplete={historyShowIncomplete}
-                    showImportant={historyShowImportant}
-                    showNotImportant={historyShowNotImportant}
+                    showPriorityRaised={historyShowPriorityRaised}
+                    showPriorityLowered={historyShowPriorityLowered}
+                    showStatusChanges={historyShowStatusChanges}
                     onToggleCompleted={() => setHistoryShowCompleted(!historyShowCompleted)}
                     onToggleIncomplete={() => setHistoryShowIncomplete(!historyShowIncomplete)}
-                    onToggleImportant={() => setHistoryShowImportant(!historyShowImportant)}
-                    onToggleNotImportant={() => setHistoryShowNotImportant(!historyShowNotImportant)}
+                    onTogglePriorityRaised={() => setHistoryShowPriorityRaised(!historyShowPriorityRaised)}
+                    onTogglePriorityLowered={() => setHistoryShowPriorityLowered(!historyShowPriorityLowered)}
+                    onToggleStatusChanges={() => setHistoryShowStatusChanges(!historyShowStatusChanges)}
                   />
                 </RNView>
               </RNView>
@@ -642,10 +1806,14 @@ export default function TaskList({ filter, sort, onSortChange, durationFilter =
             >
               <TaskHistory 
                 taskId={selectedTask._id}
+                timeZone={timeZone}
+                users={users}
                 showCompleted={historyShowCompleted}
                 showIncomplete={historyShowIncomplete}
-                showImportant={historyShowImportant}
-                showNotImportant={historyShowNotImportant}
+                showPriorityRaised={historyShowPriorityRaised}
+                showPriorityLowered={historyShowPriorityLowered}
+                showStatusChanges={historyShowStatusChanges}
+                onSelectTask={setSelectedTaskId}
               />
             </ScrollView>
             
@@ -655,17 +1823,17 @@ export default function TaskList({ filter, sort, onSortChange, durationFilter =
                 style={[
                   styles.sheetButton,
                   styles.sheetButtonHalf,
-                  selectedTask.isImportant ? styles.sheetButtonInactive : styles.sheetButtonImportant,
+                  isTopPriority(selectedTask) ? styles.sheetButtonImportant : styles.sheetButtonInactive,
                   (togglingTaskId === selectedTask._id && togglingType === 'completion') && styles.sheetButtonDisabled
                 ]}
-                onPress={() => handleToggleImportant(selectedTask._id)}
+                onPress={() => setShowPriorityPicker(true)}
                 disabled={togglingTaskId === selectedTask._id && togglingType === 'completion'}
               >
-                {togglingTaskId === selectedTask._id && togglingType === 'importance' ? (
+                {togglingTaskId === selectedTask._id && togglingType === 'priority' ? (
                   <ActivityIndicator size="small" color="#fff" />
                 ) : (
                   <RNText style={styles.sheetButtonIcon}>
-                    {selectedTask.isImportant ? "☆" : "★"}
+                    {PRIORITIES[getPriority(selectedTask)].label}
                   </RNText>
                 )}
               </Pressable>
@@ -675,10 +1843,10 @@ export default function TaskList({ filter, sort, onSortChange, durationFilter =
                   styles.sheetButton,
                   styles.sheetButtonHalf,
                   selectedTask.isCompleted ? styles.sheetButtonInactive : styles.sheetButtonComplete,
-                  (togglingTaskId === selectedTask._id && togglingType === 'importance') && styles.sheetButtonDisabled
+                  (togglingTaskId === selectedTask._id && togglingType === 'priority') && styles.sheetButtonDisabled
                 ]}
                 onPress={() => handleToggleComplete(selectedTask._id)}
-                disabled={togglingTaskId === selectedTask._id && togglingType === 'importance'}
+                disabled={togglingTaskId === selectedTask._id && togglingType === 'priority'}
               >
                 {togglingTaskId === selectedTask._id && togglingType === 'completion' ? (
                   <ActivityIndicator size="small" color="#fff" />
@@ -689,6 +1857,113 @@ export default function TaskList({ filter, sort, onSortChange, durationFilter =
                 )}
               </Pressable>
             </RNView>
+
+            {/* Priority Picker */}
+            <Modal
+              visible={showPriorityPicker}
+              transparent
+              animationType="fade"
+              onRequestClose={() => setShowPriorityPicker(false)}
+            >
+              <Pressable 
+                style={styles.sortModalOverlay}
+                onPress={() => setShowPriorityPicker(false)}
+              >
+                <RNView style={styles.sortModalContent}>
+                  <RNText style={styles.sortModalTitle}>Priority</RNText>
+                  {PRIORITIES.map((level) => {
+                    const isCurrent = getPriority(selectedTask) === level.value;
+                    return (
+                      <Pressable
+                        key={level.value}
+                        style={[styles.sortOption, isCurrent && styles.sortOptionActive]}
+                        onPress={() => handleSetPriority(selectedTask._id, level.value)}
+                      >
+                        <RNText style={[styles.sortOptionText, isCurrent && styles.sortOptionTextActive]}>
+                          {level.label} · {level.name}
+                        </RNText>
+                        {isCurrent && <RNText style={styles.sortOptionCheck}>✓</RNText>}
+                      </Pressable>
+                    );
+                  })}
+                </RNView>
+              </Pressable>
+            </Modal>
+
+            {/* Assignee Picker */}
+            <Modal
+              visible={showAssigneePicker}
+              transparent
+              animationType="fade"
+              onRequestClose={() => setShowAssigneePicker(false)}
+            >
+              <Pressable 
+                style={styles.sortModalOverlay}
+                onPress={() => setShowAssigneePicker(false)}
+              >
+                <RNView style={styles.sortModalContent}>
+                  <RNText style={styles.sortModalTitle}>Assign To</RNText>
+                  {users?.filter((user) => user.deactivatedAt === undefined).map((user) => (
+                    <Pressable
+                      key={user._id}
+                      style={[
+                        styles.sortOption,
+                        selectedTask.userId === user._id && styles.sortOptionActive
+                      ]}
+                      onPress={() => handleReassign(selectedTask._id, user._id)}
+                    >
+                      <RNText style={[
+                        styles.sortOptionText,
+                        selectedTask.userId === user._id && styles.sortOptionTextActive
+                      ]}>
+                        {user.name}
+                      </RNText>
+                      {selectedTask.userId === user._id && (
+                        <RNText style={styles.sortOptionCheck}>✓</RNText>
+                      )}
+                    </Pressable>
+                  ))}
+                </RNView>
+              </Pressable>
+            </Modal>
+
+            {/* Status Picker */}
+            <Modal
+              visible={showStatusPicker}
+              transparent
+              animationType="fade"
+              onRequestClose={() => setShowStatusPicker(false)}
+            >
+              <Pressable 
+                style={styles.sortModalOverlay}
+                onPress={() => setShowStatusPicker(false)}
+              >
+                <RNView style={styles.sortModalContent}>
+                  <RNText style={styles.sortModalTitle}>Status</RNText>
+                  {selectedWorkflow.map((status) => (
+                    <Pressable
+                      key={status._id}
+                      style={[
+                        styles.sortOption,
+                        selectedTask.statusId === status._id && styles.sortOptionActive
+                      ]}
+                      onPress={() => handleSetStatus(selectedTask._id, status._id)}
+                    >
+                      <RNText style={[
+                        styles.sortOptionText,
+                        { color: status.color },
+                        selectedTask.statusId === status._id && styles.sortOptionTextActive
+                      ]}>
+                        {status.isDone ? '✓ ' : ''}{status.name}
+                      </RNText>
+                      {selectedTask.statusId === status._id && (
+                        <RNText style={styles.sortOptionCheck}>✓</RNText>
+                      )}
+                    </Pressable>
+                  ))}
+                </RNView>
+              </Pressable>
+            </Modal>
           </RNView>
         )}
       </Modal>
@@ -749,6 +2024,16 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '500',
   },
+  projectDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  projectOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
   separator: {
     marginVertical: 16,
     height: 1,
@@ -797,12 +2082,13 @@ const styles = StyleSheet.create({
   taskTextCompleted: {
     color: '#aaa',
   },
-  taskImportanceIcon: {
-    fontSize: 18,
-    color: '#555',
+  taskPriority: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#666',
     marginLeft: 8,
   },
-  taskImportanceIconActive: {
+  taskPriorityTop: {
     color: '#f59e0b',
   },
   taskDescription: {
@@ -812,6 +2098,45 @@ const styles = StyleSheet.create({
     lineHeight: 18,
     marginLeft: 26,
   },
+  taskDue: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.6)',
+    marginLeft: 26,
+  },
+  taskDueOverdue: {
+    color: '#f87171',
+  },
+  taskDueToday: {
+    color: '#38bdf8',
+  },
+  taskSubtasksDone: {
+    color: '#4ade80',
+  },
+  taskBlocked: {
+    color: '#fb7185',
+  },
+  tagChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+    marginLeft: 26,
+    marginTop: 4,
+  },
+  tagChipsInSheet: {
+    marginLeft: 0,
+    marginTop: 0,
+    justifyContent: 'flex-end',
+  },
+  tagChip: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 1,
+  },
+  tagChipText: {
+    fontSize: 11,
+    fontWeight: '500',
+  },
   taskHint: {
     fontSize: 11,
     color: 'rgba(255,255,255,0.3)',
@@ -873,6 +2198,10 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     gap: 8,
   },
+  headerEditIcon: {
+    fontSize: 18,
+    color: '#888',
+  },
   headerImportantIcon: {
     fontSize: 18,
     color: '#f59e0b',
@@ -0,0 +1,172 @@
+import { StyleSheet, FlatList, Pressable, ActivityIndicator, Alert, View as RNView, Text as RNText, Dimensions } from 'react-native';
+import { useMutation, useQuery } from 'convex/react';
+import { api } from 'convex/_generated/api';
+import { useState, useCallback } from 'react';
+import { Id } from 'convex/_generated/dataModel';
+import { useProject } from '@/providers/ProjectContext';
+
+import { Text, View } from '@/components/Themed';
+import { formatRelativeTime } from '@/utils/format';
+
+const { width: SCREEN_WIDTH } = Dimensions.get('window');
+const HORIZONTAL_PADDING = Math.max(12, SCREEN_WIDTH * 0.05);
+const TASK_CARD_WIDTH = SCREEN_WIDTH - (HORIZONTAL_PADDING * 2);
+
+export default function TrashList() {
+  const { projectId } = useProject();
+  const deletedTasks = useQuery(api.tasks.listDeleted, { projectId });
+  const viewer = useQuery(api.users.viewer, {});
+  const timeZone = viewer?.timeZone ?? 'UTC';
+  const restoreTask = useMutation(api.tasks.restoreTask);
+  const purgeTask = useMutation(api.tasks.purgeTask);
+  const [pendingTaskId, setPendingTaskId] = useState<Id<"tasks"> | null>(null);
+
+  const runAction = useCallback(async (taskId: Id<"tasks">, action: () => Promise<unknown>) => {
+    setPendingTaskId(taskId);
+    try {
+      await action();
+    } catch (e) {
+      Alert.alert('Error', e instanceof Error ? e.message : 'Something went wrong');
+    } finally {
+      setPendingTaskId(null);
+    }
+  }, []);
+
+  const confirmPurge = useCallback((taskId: Id<"tasks">, text: string) => {
+    Alert.alert(
+      'Delete forever?',
+      `"${text}" and its history will be permanently deleted. This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => runAction(taskId, () => purgeTask({ id: taskId })),
+        },
+      ]
+    );
+  }, [runAction, purgeTask]);
+
+  if (deletedTasks === undefined) {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator size="large" color="#16a34a" />
+        <Text style={styles.loadingText}>Loading trash...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={deletedTasks}
+        keyExtractor={(item) => item._id}
+        contentContainerStyle={styles.listContent}
+        renderItem={({ item }) => {
+          const isPending = pendingTaskId === item._id;
+          return (
+            <RNView style={[styles.taskCard, isPending && styles.taskCardPending]}>
+              <RNText style={styles.taskText} numberOfLines={1}>{item.text}</RNText>
+              {item.description && (
+                <RNText style={styles.taskDescription} numberOfLines={2}>
+                  {item.description}
+                </RNText>
+              )}
+              <RNText style={styles.deletedAt}>Deleted {formatRelativeTime(item.deletedAt, timeZone)}</RNText>
+              <RNView style={styles.buttons}>
+                <Pressable
+                  style={[styles.button, styles.restoreButton]}
+                  onPress={() => runAction(item._id, () => restoreTask({ id: item._id }))}
+                  disabled={isPending}
+                >
+                  <RNText style={styles.buttonText}>↺ Restore</RNText>
+                </Pressable>
+                <Pressable
+                  style={[styles.button, styles.purgeButton]}
+                  onPress={() => confirmPurge(item._id, item.text)}
+                  disabled={isPending}
+                >
+                  <RNText style={styles.buttonText}>Delete Forever</RNText>
+                </Pressable>
+              </RNView>
+            </RNView>
+          );
+        }}
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>Trash is empty</Text>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: 'center',
+    paddingTop: 20,
+  },
+  listContent: {
+    paddingHorizontal: HORIZONTAL_PADDING,
+    paddingTop: 12,
+    paddingBottom: 20,
+  },
+  taskCard: {
+    width: TASK_CARD_WIDTH,
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+    backgroundColor: '#404040',
+  },
+  taskCardPending: {
+    opacity: 0.5,
+  },
+  taskText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ccc',
+    marginBottom: 6,
+  },
+  taskDescription: {
+    fontSize: 13,
+    color: 'rgba(255,255,255,0.6)',
+    marginBottom: 6,
+    lineHeight: 18,
+  },
+  deletedAt: {
+    fontSize: 11,
+    color: 'rgba(255,255,255,0.4)',
+    marginBottom: 12,
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  restoreButton: {
+    backgroundColor: '#525252',
+  },
+  purgeButton: {
+    backgroundColor: '#dc2626',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#888',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+});
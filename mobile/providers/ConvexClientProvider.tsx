@@ -1,10 +1,27 @@
-import { ConvexProvider, ConvexReactClient } from "convex/react";
+import { ConvexReactClient } from "convex/react";
+import { ConvexAuthProvider } from "@convex-dev/auth/react";
+import * as SecureStore from "expo-secure-store";
+import { Platform } from "react-native";
 import { ReactNode } from "react";
 import { CONVEX_URL } from "@/constants/Convex";
 
 const convex = new ConvexReactClient(CONVEX_URL);
 
+// Keep auth tokens in the device keychain; SecureStore isn't available on web,
+// where the provider falls back to localStorage
+const secureStorage = {
+  getItem: SecureStore.getItemAsync,
+  setItem: SecureStore.setItemAsync,
+  removeItem: SecureStore.deleteItemAsync,
+};
+
 export function ConvexClientProvider({ children }: { children: ReactNode }) {
-  return <ConvexProvider client={convex}>{children}</ConvexProvider>;
+  return (
+    <ConvexAuthProvider
+      client={convex}
+      storage={Platform.OS === "android" || Platform.OS === "ios" ? secureStorage : undefined}
+    >
+      {children}
+    </ConvexAuthProvider>
+  );
 }
-
@@ -0,0 +1,16 @@
+import { createContext, useContext } from "react";
+import type { Id } from "convex/_generated/dataModel";
+
+type ProjectContextValue = {
+  projectId: Id<"projects"> | undefined; // Unset shows every project
+  setProjectId: (projectId: Id<"projects"> | undefined) => void;
+};
+
+export const ProjectContext = createContext<ProjectContextValue>({
+  projectId: undefined,
+  setProjectId: () => {},
+});
+
+export function useProject() {
+  return useContext(ProjectContext);
+}
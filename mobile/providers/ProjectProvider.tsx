@@ -0,0 +1,13 @@
+import { ReactNode, useState } from "react";
+import type { Id } from "convex/_generated/dataModel";
+import { ProjectContext } from "./ProjectContext";
+
+// Keeps the project picked in one tab selected in the others and in the add task screen
+export function ProjectProvider({ children }: { children: ReactNode }) {
+  const [projectId, setProjectId] = useState<Id<"projects"> | undefined>(undefined);
+  return (
+    <ProjectContext.Provider value={{ projectId, setProjectId }}>
+      {children}
+    </ProjectContext.Provider>
+  );
+}
@@ -0,0 +1,146 @@
+import { getZonedParts, zonedTimeToTimestamp } from "../../convex/zonedTime";
+
+export function formatDuration(minutes: number | undefined): string {
+  if (!minutes) return "Unknown";
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  if (mins === 0) return `${hours}h`;
+  return `${hours}h ${mins}m`;
+}
+
+// Time from timeEntries, rounded to minutes
+export function formatTrackedTime(ms: number): string {
+  if (ms < 60 * 1000) return "<1 min";
+  return formatDuration(Math.round(ms / 60 / 1000));
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function formatRelativeTime(timestamp: number | undefined, timeZone: string): string {
+  if (!timestamp) return "Unknown";
+  
+  const now = Date.now();
+  const diff = now - timestamp;
+  
+  const seconds = Math.floor(diff / 1000);
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+  // Days count calendar days in the zone, so "1d ago" always means yesterday there
+  const today = getZonedParts(now, timeZone);
+  const then = getZonedParts(timestamp, timeZone);
+  const days = Math.round(
+    (Date.UTC(today.year, today.month - 1, today.day) - Date.UTC(then.year, then.month - 1, then.day)) / DAY_MS
+  );
+  const weeks = Math.floor(days / 7);
+  const months = Math.floor(days / 30);
+  const years = Math.floor(days / 365);
+  
+  if (seconds < 5) return "just now";
+  if (seconds < 60) return `${seconds}s ago`;
+  if (minutes < 60) return `${minutes}m ago`;
+  if (hours < 24) return `${hours}h ago`;
+  if (days < 7) return `${days}d ago`;
+  if (weeks < 4) return `${weeks}w ago`;
+  if (months < 12) return `${months}mo ago`;
+  return `${years}y ago`;
+}
+
+export function formatDateTime(timestamp: number, timeZone: string): string {
+  const date = getZonedParts(timestamp, timeZone);
+  const day = date.day.toString().padStart(2, "0");
+  const month = date.month.toString().padStart(2, "0");
+  const year = date.year;
+  const hours = date.hour.toString().padStart(2, "0");
+  const minutes = date.minute.toString().padStart(2, "0");
+  const seconds = date.second.toString().padStart(2, "0");
+  return `${day}.${month}.${year} ${hours}:${minutes}:${seconds}`;
+}
+
+export function formatDueDate(timestamp: number, timeZone: string): string {
+  const date = getZonedParts(timestamp, timeZone);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${pad(date.day)}.${pad(date.month)}. ${pad(date.hour)}:${pad(date.minute)}`;
+}
+
+// Due dates are typed as "YYYY-MM-DD HH:mm", wall-clock time in the zone
+export function toDueDateInput(timestamp: number | undefined, timeZone: string): string {
+  if (timestamp === undefined) return '';
+  const date = getZonedParts(timestamp, timeZone);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.year}-${pad(date.month)}-${pad(date.day)} ${pad(date.hour)}:${pad(date.minute)}`;
+}
+
+// Inverse of toDueDateInput; null when the text isn't a valid date
+export function parseDueDateInput(value: string, timeZone: string): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const [year, month, day, hour, minute] = match.slice(1).map(Number);
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || minute > 59) return null;
+  return zonedTimeToTimestamp({ year, month, day, hour, minute, second: 0 }, timeZone);
+}
+
+export type DueStatus = 'overdue' | 'today' | 'upcoming';
+
+// Finished tasks are never overdue; "today" is the calendar day in the zone
+export function getDueStatus(task: { dueAt?: number; isCompleted: boolean }, timeZone: string): DueStatus | null {
+  if (task.dueAt === undefined) return null;
+  const now = Date.now();
+  if (!task.isCompleted && task.dueAt < now) return 'overdue';
+  const due = getZonedParts(task.dueAt, timeZone);
+  const today = getZonedParts(now, timeZone);
+  if (due.year === today.year && due.month === today.month && due.day === today.day) return 'today';
+  return 'upcoming';
+}
+
+const WEEKDAY_LABELS: Record<string, string> = {
+  MO: 'Mon', TU: 'Tue', WE: 'Wed', TH: 'Thu', FR: 'Fri', SA: 'Sat', SU: 'Sun',
+};
+
+// Readable form of a repeat rule, e.g. "Every 2 weeks on Mon, Wed"
+export function describeRecurrence(rule: string): string {
+  const parts = new Map(rule.split(';').map((part) => part.split('=') as [string, string]));
+  const interval = Number(parts.get('INTERVAL') ?? 1);
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month' }[parts.get('FREQ') ?? ''] ?? 'period';
+  let description = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+  const byDay = parts.get('BYDAY');
+  if (byDay) description += ` on ${byDay.split(',').map((day) => WEEKDAY_LABELS[day] ?? day).join(', ')}`;
+  const byMonthDay = parts.get('BYMONTHDAY');
+  if (byMonthDay) description += ` on day ${byMonthDay}`;
+  return description;
+}
+
+// Common repeat rules offered next to the free-form rule field
+export const RECURRENCE_PRESETS = [
+  { value: 'FREQ=DAILY', label: 'Daily' },
+  { value: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR', label: 'Weekdays' },
+  { value: 'FREQ=WEEKLY', label: 'Weekly' },
+  { value: 'FREQ=MONTHLY', label: 'Monthly' },
+];
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// P0 is the most urgent. P0 and P1 are the important levels with the amber border.
+export type Priority = 0 | 1 | 2 | 3;
+
+export const PRIORITIES: { value: Priority; label: string; name: string }[] = [
+  { value: 0, label: 'P0', name: 'Urgent' },
+  { value: 1, label: 'P1', name: 'High' },
+  { value: 2, label: 'P2', name: 'Normal' },
+  { value: 3, label: 'P3', name: 'Low' },
+];
+
+export const DEFAULT_PRIORITY: Priority = 2;
+
+// Tasks not migrated yet count by their old isImportant flag, same as on the server
+export function getPriority(task: { priority?: Priority; isImportant?: boolean }): Priority {
+  return task.priority ?? (task.isImportant ? 1 : DEFAULT_PRIORITY);
+}
+
+export function isTopPriority(task: { priority?: Priority; isImportant?: boolean }): boolean {
+  return getPriority(task) <= 1;
+}
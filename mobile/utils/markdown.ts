@@ -0,0 +1,69 @@
+// The markdown subset comments are written in, same as on the web app:
+// paragraphs, "- " bullet lists, **bold**, *italic*, `code`, [links](https://...)
+// and @mentions. Formatting doesn't nest.
+
+export type MentionedUser = { _id: string; name: string };
+
+export type MarkdownInline =
+  | { type: 'text' | 'bold' | 'italic' | 'code'; text: string }
+  | { type: 'link'; text: string; href: string }
+  | { type: 'mention'; text: string; userId: string };
+
+export type MarkdownBlock = { isList: boolean; lines: string[] };
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function parseInlineMarkdown(text: string, mentions: MentionedUser[]): MarkdownInline[] {
+  const names = mentions.map((user) => user.name).sort((a, b) => b.length - a.length).map(escapeRegExp);
+  const patterns = [
+    '\\*\\*([^*]+)\\*\\*',
+    '\\*([^*\\s][^*]*)\\*',
+    '`([^`]+)`',
+    '\\[([^\\]]+)\\]\\((https?:\\/\\/[^)\\s]+)\\)',
+    ...(names.length > 0 ? [`(?<![\\p{L}\\p{N}_])@(${names.join('|')})(?![\\p{L}\\p{N}_])`] : []),
+  ];
+  const tokens: MarkdownInline[] = [];
+  let last = 0;
+  for (const match of text.matchAll(new RegExp(patterns.join('|'), 'giu'))) {
+    const index = match.index ?? 0;
+    if (index > last) tokens.push({ type: 'text', text: text.slice(last, index) });
+    if (match[1] !== undefined) tokens.push({ type: 'bold', text: match[1] });
+    else if (match[2] !== undefined) tokens.push({ type: 'italic', text: match[2] });
+    else if (match[3] !== undefined) tokens.push({ type: 'code', text: match[3] });
+    else if (match[4] !== undefined) tokens.push({ type: 'link', text: match[4], href: match[5] });
+    else {
+      const user = mentions.find((mention) => mention.name.toLowerCase() === match[6].toLowerCase());
+      tokens.push(user ? { type: 'mention', text: `@${user.name}`, userId: user._id } : { type: 'text', text: match[0] });
+    }
+    last = index + match[0].length;
+  }
+  if (last < text.length) tokens.push({ type: 'text', text: text.slice(last) });
+  return tokens;
+}
+
+// Blank lines separate paragraphs; consecutive "- " or "* " lines form a list
+export function parseMarkdownBlocks(text: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let current: MarkdownBlock | null = null;
+  for (const line of text.split('\n')) {
+    const listItem = /^\s*[-*]\s+(.*)$/.exec(line);
+    if (!listItem && !line.trim()) {
+      current = null;
+      continue;
+    }
+    const isList = listItem !== null;
+    if (!current || current.isList !== isList) {
+      current = { isList, lines: [] };
+      blocks.push(current);
+    }
+    current.lines.push(listItem ? listItem[1] : line);
+  }
+  return blocks;
+}
+
+// The name being typed after a trailing "@", for suggesting users to mention
+export function getMentionQuery(text: string): string | undefined {
+  return /(?:^|\s)@([^\s@]*)$/.exec(text)?.[1];
+}
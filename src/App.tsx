@@ -1,6 +1,9 @@
 import "./App.css";
-import { useMutation, useQuery } from "convex/react";
+import { useMutation, usePaginatedQuery, useQuery } from "convex/react";
+import { useAuthActions } from "@convex-dev/auth/react";
 import { api } from "../convex/_generated/api";
+import type { Id } from "../convex/_generated/dataModel";
+import { getZonedParts, zonedTimeToTimestamp } from "../convex/zonedTime";
 import { Button } from "@/components/ui/button";
 import {
   Sheet,
@@ -11,13 +14,15 @@ import {
 } from "@/components/ui/sheet";
 import { Card, CardContent } from "@/components/ui/card";
 import { ToastContainer, Toast } from "@/components/ui/toast";
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 
-type ToastType = 'completed' | 'incomplete' | 'important' | 'not-important';
+type ToastType = 'completed' | 'incomplete' | 'important' | 'not-important' | 'created' | 'updated' | 'deleted' | 'restored' | 'error';
 import { useState, useMemo, useEffect, useRef, useCallback } from "react";
 
 const PAGE_SIZE = 50;
 
+type TaskTag = { _id: string; name: string; color: string };
+
 // Task type based on schema
 type Task = {
   _id: string;
@@ -25,22 +30,40 @@ type Task = {
   text: string;
   description?: string;
   isCompleted: boolean;
-  isImportant?: boolean;
+  isImportant?: boolean; // Only on tasks from before priorities, until they're migrated
+  priority?: Priority;
   createdAt?: number;
   updatedAt?: number;
   duration?: number;
+  actualDuration?: number;
+  dueAt?: number;
+  recurrence?: { rule: string; timeZone: string };
+  nextOccurrenceId?: string;
+  subtaskCount?: number;
+  completedSubtaskCount?: number;
+  isBlocked?: boolean;
+  tags?: TaskTag[];
+  projectId?: string;
+  statusId?: Id<"statuses">;
+  commentCount?: number;
+  trackedMs?: number;
   historyCount: number;
   userId?: string;
 };
 
-// Removed FilterType - now using showCompleted and showIncomplete booleans
 type DurationFilterType = 'all' | 'quick' | 'long';
-type ImportanceFilterType = 'all' | 'important' | 'not-important';
-type SortType = 'latest' | 'inactive' | 'newest' | 'oldest' | 'frequent' | 'unfrequent' | 'quickest' | 'longest';
+type DueFilterType = 'all' | 'overdue' | 'today';
+type BlockedFilterType = 'all' | 'blocked' | 'unblocked';
+type SortType = 'latest' | 'inactive' | 'newest' | 'oldest' | 'frequent' | 'unfrequent' | 'quickest' | 'longest' | 'due' | 'priority';
 type ViewMode = 'compact' | 'extended' | 'list';
-type TabType = 'tasks' | 'stats';
-type StatsSortColumn = 'user' | 'completed' | 'incomplete' | 'important' | 'changes' | 'lastActive' | 'inactive' | 'short' | 'long';
+type TabType = 'tasks' | 'stats' | 'trash' | 'users';
+type StatsSortColumn = 'user' | 'completed' | 'incomplete' | 'important' | 'changes' | 'lastActive' | 'inactive' | 'short' | 'long' | 'received' | 'handedOff' | 'changesMade' | 'onOthersTasks' | 'tracked';
 type SortDirection = 'asc' | 'desc';
+type ActivityMode = 'delta' | 'total';
+type StatsView = 'overview' | 'estimates';
+type ActivityPeriod = '5 days' | '10 days' | '15 days' | '1 month' | '2 months' | '3 months' | '6 months' | '1 year';
+
+const ACTIVITY_PERIODS: ActivityPeriod[] = ['5 days', '10 days', '15 days', '1 month', '2 months', '3 months', '6 months', '1 year'];
 
 function formatDuration(minutes: number | undefined): string {
   if (!minutes) return "Unknown";
@@ -51,6 +74,19 @@ function formatDuration(minutes: number | undefined): string {
   return `${hours}h ${mins}m`;
 }
 
+// Time from timeEntries, rounded to minutes
+function formatTrackedTime(ms: number): string {
+  if (ms < 60 * 1000) return '<1 min';
+  return formatDuration(Math.round(ms / 60 / 1000));
+}
+
+// Running timer as h:mm:ss
+function formatTimerClock(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${Math.floor(seconds / 3600)}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`;
+}
+
 function periodToDays(period: string): number {
   switch (period) {
     case '5 days': return 5;
@@ -77,7 +113,12 @@ function calculateIntervalCount(days: number): number {
   return 12; // 365 days
 }
 
-function formatRelativeTime(timestamp: number | undefined): string {
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Zones offered in the header picker; UTC isn't always part of the browser's list
+const TIME_ZONES = ['UTC', ...Intl.supportedValuesOf('timeZone').filter(zone => zone !== 'UTC')];
+
+function formatRelativeTime(timestamp: number | undefined, timeZone: string): string {
   if (!timestamp) return "Unknown";
   
   const now = Date.now();
@@ -86,7 +127,12 @@ function formatRelativeTime(timestamp: number | undefined): string {
   const seconds = Math.floor(diff / 1000);
   const minutes = Math.floor(seconds / 60);
   const hours = Math.floor(minutes / 60);
-  const days = Math.floor(hours / 24);
+  // Days count calendar days in the zone, so "1d ago" always means yesterday there
+  const today = getZonedParts(now, timeZone);
+  const then = getZonedParts(timestamp, timeZone);
+  const days = Math.round(
+    (Date.UTC(today.year, today.month - 1, today.day) - Date.UTC(then.year, then.month - 1, then.day)) / DAY_MS
+  );
   const weeks = Math.floor(days / 7);
   const months = Math.floor(days / 30);
   const years = Math.floor(days / 365);
@@ -101,154 +147,2896 @@ function formatRelativeTime(timestamp: number | undefined): string {
   return `${years}y ago`;
 }
 
-function formatDateTime(timestamp: number): string {
-  const date = new Date(timestamp);
-  const day = date.getDate().toString().padStart(2, "0");
-  const month = (date.getMonth() + 1).toString().padStart(2, "0");
-  const year = date.getFullYear();
-  const hours = date.getHours().toString().padStart(2, "0");
-  const minutes = date.getMinutes().toString().padStart(2, "0");
-  const seconds = date.getSeconds().toString().padStart(2, "0");
-  return `${day}.${month}.${year} ${hours}:${minutes}:${seconds}`;
+function formatDateTime(timestamp: number, timeZone: string): string {
+  const date = getZonedParts(timestamp, timeZone);
+  const day = date.day.toString().padStart(2, "0");
+  const month = date.month.toString().padStart(2, "0");
+  const year = date.year;
+  const hours = date.hour.toString().padStart(2, "0");
+  const minutes = date.minute.toString().padStart(2, "0");
+  const seconds = date.second.toString().padStart(2, "0");
+  return `${day}.${month}.${year} ${hours}:${minutes}:${seconds}`;
+}
+
+function formatDueDate(timestamp: number, timeZone: string): string {
+  const date = getZonedParts(timestamp, timeZone);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${pad(date.day)}.${pad(date.month)}. ${pad(date.hour)}:${pad(date.minute)}`;
+}
+
+// Value for a datetime-local input showing timestamp as wall-clock time in the zone
+function toDateTimeInputValue(timestamp: number | undefined, timeZone: string): string {
+  if (timestamp === undefined) return '';
+  const date = getZonedParts(timestamp, timeZone);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.year}-${pad(date.month)}-${pad(date.day)}T${pad(date.hour)}:${pad(date.minute)}`;
+}
+
+// Timestamp of a datetime-local input value read as wall-clock time in the zone
+function fromDateTimeInputValue(value: string, timeZone: string): number | undefined {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/.exec(value);
+  if (!match) return undefined;
+  const [year, month, day, hour, minute] = match.slice(1).map(Number);
+  return zonedTimeToTimestamp({ year, month, day, hour, minute, second: 0 }, timeZone);
+}
+
+type DueStatus = 'overdue' | 'today' | 'upcoming';
+
+// Finished tasks are never overdue; "today" is the calendar day in the zone
+function getDueStatus(task: { dueAt?: number; isCompleted: boolean }, timeZone: string): DueStatus | null {
+  if (task.dueAt === undefined) return null;
+  const now = Date.now();
+  if (!task.isCompleted && task.dueAt < now) return 'overdue';
+  const due = getZonedParts(task.dueAt, timeZone);
+  const today = getZonedParts(now, timeZone);
+  if (due.year === today.year && due.month === today.month && due.day === today.day) return 'today';
+  return 'upcoming';
+}
+
+const DUE_STATUS_CLASSES: Record<DueStatus, string> = {
+  overdue: 'bg-red-500/20 text-red-300',
+  today: 'bg-sky-500/20 text-sky-300',
+  upcoming: 'bg-neutral-700 text-neutral-300',
+};
+
+// P0 is the most urgent. P0 and P1 are the important levels with the amber border.
+type Priority = 0 | 1 | 2 | 3;
+
+const PRIORITIES: { value: Priority; label: string; name: string; className: string }[] = [
+  { value: 0, label: 'P0', name: 'Urgent', className: 'text-red-400' },
+  { value: 1, label: 'P1', name: 'High', className: 'text-amber-400' },
+  { value: 2, label: 'P2', name: 'Normal', className: 'text-neutral-300' },
+  { value: 3, label: 'P3', name: 'Low', className: 'text-neutral-500' },
+];
+
+const DEFAULT_PRIORITY: Priority = 2;
+
+// Tasks not migrated yet count by their old isImportant flag, same as on the server
+function getPriority(task: { priority?: Priority; isImportant?: boolean }): Priority {
+  return task.priority ?? (task.isImportant ? 1 : DEFAULT_PRIORITY);
+}
+
+function isTopPriority(task: { priority?: Priority; isImportant?: boolean }): boolean {
+  return getPriority(task) <= 1;
+}
+
+// Level picker on cards, rows and in the drawer; clicks don't reach the card underneath
+function PrioritySelect({ priority, onChange, disabled, className = '' }: {
+  priority: Priority;
+  onChange: (priority: Priority) => void;
+  disabled?: boolean;
+  className?: string;
+}) {
+  const current = PRIORITIES[priority];
+  return (
+    <select
+      value={priority}
+      onClick={(e) => e.stopPropagation()}
+      onChange={(e) => onChange(Number(e.target.value) as Priority)}
+      disabled={disabled}
+      className={`bg-transparent disabled:opacity-50 text-xs font-semibold rounded cursor-pointer focus:outline-none focus:ring-1 focus:ring-neutral-600 ${current.className} ${className}`}
+      title={`Priority: ${current.name}`}
+    >
+      {PRIORITIES.map(level => (
+        <option key={level.value} value={level.value} className="bg-neutral-800 text-white">
+          {level.label} {level.name}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+const EDITABLE_FIELD_LABELS: Record<string, string> = {
+  text: 'Title',
+  description: 'Description',
+  duration: 'Duration',
+  dueAt: 'Due',
+  recurrence: 'Repeats',
+  project: 'Project',
+  status: 'Status',
+};
+
+const WEEKDAY_LABELS: Record<string, string> = {
+  MO: 'Mon', TU: 'Tue', WE: 'Wed', TH: 'Thu', FR: 'Fri', SA: 'Sat', SU: 'Sun',
+};
+
+// Readable form of a repeat rule, e.g. "Every 2 weeks on Mon, Wed"
+function describeRecurrence(rule: string): string {
+  const parts = new Map(rule.split(';').map((part) => part.split('=') as [string, string]));
+  const interval = Number(parts.get('INTERVAL') ?? 1);
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month' }[parts.get('FREQ') ?? ''] ?? 'period';
+  let description = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+  const byDay = parts.get('BYDAY');
+  if (byDay) description += ` on ${byDay.split(',').map((day) => WEEKDAY_LABELS[day] ?? day).join(', ')}`;
+  const byMonthDay = parts.get('BYMONTHDAY');
+  if (byMonthDay) description += ` on day ${byMonthDay}`;
+  return description;
+}
+
+// Common repeat rules; anything else can be typed in as a custom rule when editing
+const RECURRENCE_PRESETS = [
+  { value: 'FREQ=DAILY', label: 'Every day' },
+  { value: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR', label: 'Every weekday' },
+  { value: 'FREQ=WEEKLY', label: 'Every week' },
+  { value: 'FREQ=WEEKLY;INTERVAL=2', label: 'Every 2 weeks' },
+  { value: 'FREQ=MONTHLY', label: 'Every month' },
+];
+
+function formatFieldValue(field: string, value: string | number | undefined, timeZone: string): string {
+  if (value === undefined || value === '') {
+    return field === 'duration' ? 'Unknown' : field === 'dueAt' || field === 'project' || field === 'status' ? 'None' : field === 'recurrence' ? 'Never' : '(empty)';
+  }
+  if (field === 'duration') return formatDuration(value as number);
+  if (field === 'dueAt') return formatDueDate(value as number, timeZone);
+  if (field === 'recurrence') return describeRecurrence(value as string);
+  return value.toString();
+}
+
+// Checklist progress, e.g. "☑ 3/5"; nothing for tasks without a checklist
+function SubtaskProgress({ task }: { task: { subtaskCount?: number; completedSubtaskCount?: number } }) {
+  if (!task.subtaskCount) return null;
+  const completed = task.completedSubtaskCount ?? 0;
+  const isDone = completed === task.subtaskCount;
+  return (
+    <span
+      className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium ${isDone ? 'bg-green-500/20 text-green-300' : 'bg-neutral-700 text-neutral-300'}`}
+      title={`${completed} of ${task.subtaskCount} checklist items done`}
+    >
+      ☑ {completed}/{task.subtaskCount}
+    </span>
+  );
+}
+
+function TagChip({ tag, onRemove }: { tag: TaskTag; onRemove?: () => void }) {
+  return (
+    <span
+      className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium border"
+      style={{ backgroundColor: `${tag.color}26`, borderColor: `${tag.color}80`, color: tag.color }}
+    >
+      {tag.name}
+      {onRemove && (
+        <button
+          onClick={onRemove}
+          className="opacity-60 hover:opacity-100"
+          title={`Remove ${tag.name}`}
+        >
+          ✕
+        </button>
+      )}
+    </span>
+  );
+}
+
+// Number of comments on a task; nothing for tasks nobody has commented on
+function CommentCount({ task }: { task: { commentCount?: number } }) {
+  if (!task.commentCount) return null;
+  return (
+    <span
+      className="inline-block px-2 py-0.5 rounded-full text-xs font-medium bg-neutral-700 text-neutral-300"
+      title={`${task.commentCount} comment${task.commentCount === 1 ? '' : 's'}`}
+    >
+      💬 {task.commentCount}
+    </span>
+  );
+}
+
+function BlockedBadge() {
+  return (
+    <span
+      className="inline-block px-2 py-0.5 rounded-full text-xs font-medium bg-rose-500/20 text-rose-300"
+      title="Waiting for other tasks to be done"
+    >
+      ⛔ Blocked
+    </span>
+  );
+}
+
+// Status cards and rows show, for the statuses the checkbox doesn't already tell apart:
+// every one besides the workflow's first open and first done status
+function getBadgeStatus(task: { statusId?: Id<"statuses">; projectId?: string }, statuses: Status[] | undefined): Status | null {
+  const workflow = statuses?.filter(status => status.projectId === task.projectId) ?? [];
+  const current = workflow.find(status => status._id === task.statusId);
+  if (!current || current === workflow.find(status => status.isDone === current.isDone)) return null;
+  return current;
+}
+
+function StatusBadge({ task, statuses }: { task: { statusId?: Id<"statuses">; projectId?: string }; statuses: Status[] | undefined }) {
+  const current = getBadgeStatus(task, statuses);
+  if (!current) return null;
+  return (
+    <span
+      className="inline-block px-2 py-0.5 rounded-full text-xs font-medium"
+      style={{ backgroundColor: `${current.color}33`, color: current.color }}
+    >
+      {current.name}
+    </span>
+  );
+}
+
+function DueBadge({ task, timeZone }: { task: { dueAt?: number; isCompleted: boolean }; timeZone: string }) {
+  const status = getDueStatus(task, timeZone);
+  if (!status || task.dueAt === undefined) return null;
+  return (
+    <span
+      className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium ${DUE_STATUS_CLASSES[status]}`}
+      title={formatDateTime(task.dueAt, timeZone)}
+    >
+      {status === 'overdue' ? 'Overdue · ' : status === 'today' ? 'Due today · ' : 'Due '}
+      {formatDueDate(task.dueAt, timeZone)}
+    </span>
+  );
+}
+
+function HistoryFilterChips({ 
+  showCompleted, 
+  showIncomplete,
+  showPriorityRaised,
+  showPriorityLowered,
+  showStatusChanges,
+  onToggleCompleted, 
+  onToggleIncomplete,
+  onTogglePriorityRaised,
+  onTogglePriorityLowered,
+  onToggleStatusChanges
+}: { 
+  showCompleted: boolean; 
+  showIncomplete: boolean;
+  showPriorityRaised: boolean;
+  showPriorityLowered: boolean;
+  showStatusChanges: boolean;
+  onToggleCompleted: () => void; 
+  onToggleIncomplete: () => void;
+  onTogglePriorityRaised: () => void;
+  onTogglePriorityLowered: () => void;
+  onToggleStatusChanges: () => void;
+}) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      <button
+        onClick={onToggleCompleted}
+        className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+          showCompleted 
+            ? "bg-green-600 text-white" 
+            : "bg-neutral-700 text-neutral-400 hover:bg-neutral-600"
+        }`}
+      >
+        ✓ Completed
+      </button>
+      <button
+        onClick={onToggleIncomplete}
+        className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+          showIncomplete 
+            ? "bg-neutral-500 text-white" 
+            : "bg-neutral-700 text-neutral-400 hover:bg-neutral-600"
+        }`}
+      >
+        ○ Incomplete
+      </button>
+      <button
+        onClick={onTogglePriorityRaised}
+        className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+          showPriorityRaised 
+            ? "bg-amber-500 text-white" 
+            : "bg-neutral-700 text-neutral-400 hover:bg-neutral-600"
+        }`}
+      >
+        ↑ Priority Raised
+      </button>
+      <button
+        onClick={onTogglePriorityLowered}
+        className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+          showPriorityLowered 
+            ? "bg-neutral-500 text-white" 
+            : "bg-neutral-700 text-neutral-400 hover:bg-neutral-600"
+        }`}
+      >
+        ↓ Priority Lowered
+      </button>
+      <button
+        onClick={onToggleStatusChanges}
+        className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+          showStatusChanges 
+            ? "bg-cyan-600 text-white" 
+            : "bg-neutral-700 text-neutral-400 hover:bg-neutral-600"
+        }`}
+      >
+        ⇢ Status Changed
+      </button>
+    </div>
+  );
+}
+
+function TaskHistory({ taskId, users, timeZone, showCompleted, showIncomplete, showPriorityRaised, showPriorityLowered, showStatusChanges, onSelectTask }: { 
+  taskId: string; 
+  users: { _id: string; name: string }[] | undefined;
+  timeZone: string;
+  showCompleted: boolean; 
+  showIncomplete: boolean;
+  showPriorityRaised: boolean;
+  showPriorityLowered: boolean;
+  showStatusChanges: boolean;
+  onSelectTask: (taskId: string) => void;
+}) {
+  const history = useQuery(api.tasks.getTaskHistory, { taskId: taskId as any });
+
+  if (!history) {
+    return <div className="text-neutral-500 text-sm">Loading history...</div>;
+  }
+
+  if (history.length === 0) {
+    return <div className="text-neutral-500 text-sm">No status changes recorded yet.</div>;
+  }
+
+  // Filter history based on selected chips
+  const filteredHistory = history.filter(entry => {
+    const hasAnyFilter = showCompleted || showIncomplete || showPriorityRaised || showPriorityLowered || showStatusChanges;
+    if (!hasAnyFilter) return true; // Show all
+    
+    const isCompletionChange = !entry.changeType || entry.changeType === "completion";
+    // Importance changes from before priorities count as raising or lowering it
+    const isPriorityChange = entry.changeType === "priority" || entry.changeType === "importance";
+    
+    if (isCompletionChange) {
+      if (showCompleted && entry.changedTo) return true;
+      if (showIncomplete && !entry.changedTo) return true;
+    }
+    
+    if (isPriorityChange) {
+      if (showPriorityRaised && entry.changedTo) return true;
+      if (showPriorityLowered && !entry.changedTo) return true;
+    }
+    
+    if (entry.changeType === "status") return showStatusChanges;
+    
+    return false;
+  });
+
+  // Show who made each change next to when it happened
+  const formatEntryMeta = (entry: { actorId?: string; changedAt: number }) => {
+    const actor = entry.actorId ? users?.find(u => u._id === entry.actorId) : undefined;
+    return actor ? `${actor.name} · ${formatDateTime(entry.changedAt, timeZone)}` : formatDateTime(entry.changedAt, timeZone);
+  };
+
+  // Sort by changedAt descending (latest first)
+  const sortedHistory = [...filteredHistory].sort((a, b) => b.changedAt - a.changedAt);
+
+  if (sortedHistory.length === 0) {
+    return <div className="text-neutral-500 text-sm">No matching entries.</div>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {sortedHistory.map((entry) => {
+        const isCreation = entry.changeType === "created";
+        const isImportanceChange = entry.changeType === "importance";
+        
+        if (entry.changeType === "assignment") {
+          const fromUser = users?.find(u => u._id === entry.fromUserId);
+          const toUser = users?.find(u => u._id === entry.toUserId);
+          return (
+            <div
+              key={entry._id}
+              className="flex justify-between items-center py-2 px-3 bg-neutral-800 rounded-lg"
+            >
+              <span className="text-violet-400">
+                ⇄ {fromUser?.name ?? "Unassigned"} → {toUser?.name ?? "Unassigned"}
+              </span>
+              <span className="text-neutral-500 text-sm">
+                {formatEntryMeta(entry)}
+              </span>
+            </div>
+          );
+        }
+        
+        // Entries about another task (the next or previous occurrence of a recurring
+        // task, or the blocker whose completion unblocked this one) link to it
+        if (entry.relatedTaskId) {
+          const relatedTaskId = entry.relatedTaskId;
+          const isUnblock = entry.changeType === "unblocked";
+          return (
+            <button
+              key={entry._id}
+              onClick={() => onSelectTask(relatedTaskId)}
+              className="w-full flex justify-between items-center py-2 px-3 bg-neutral-800 hover:bg-neutral-700 rounded-lg text-left transition-colors"
+            >
+              <span className={isCreation ? "text-blue-400" : isUnblock ? "text-emerald-400" : "text-teal-400"}>
+                {isCreation ? "+ Created from previous occurrence" : isUnblock ? "▶ Unblocked" : "↻ Next occurrence created"}
+              </span>
+              <span className="text-neutral-500 text-sm">
+                {formatEntryMeta(entry)}
+              </span>
+            </button>
+          );
+        }
+
+        if (entry.changeType === "priority" && entry.fromPriority !== undefined && entry.toPriority !== undefined) {
+          return (
+            <div
+              key={entry._id}
+              className="flex justify-between items-center py-2 px-3 bg-neutral-800 rounded-lg"
+            >
+              <span className={entry.changedTo ? "text-amber-400" : "text-neutral-400"}>
+                {entry.changedTo ? "↑" : "↓"} Priority {PRIORITIES[entry.fromPriority].label} → {PRIORITIES[entry.toPriority].label}
+              </span>
+              <span className="text-neutral-500 text-sm">
+                {formatEntryMeta(entry)}
+              </span>
+            </div>
+          );
+        }
+
+        if (entry.changeType === "status") {
+          return (
+            <div
+              key={entry._id}
+              className="flex justify-between items-center gap-3 py-2 px-3 bg-neutral-800 rounded-lg"
+            >
+              <span className="truncate text-cyan-400">
+                ⇢ {entry.fromStatus ?? "No status"} → {entry.toStatus}
+              </span>
+              <span className="text-neutral-500 text-sm flex-shrink-0">
+                {formatEntryMeta(entry)}
+              </span>
+            </div>
+          );
+        }
+
+        if (entry.changeType === "comment") {
+          return (
+            <div
+              key={entry._id}
+              className="flex justify-between items-center gap-3 py-2 px-3 bg-neutral-800 rounded-lg"
+            >
+              <span className="truncate text-indigo-300">
+                💬 Commented: {entry.commentText}
+              </span>
+              <span className="text-neutral-500 text-sm flex-shrink-0">
+                {formatEntryMeta(entry)}
+              </span>
+            </div>
+          );
+        }
+
+        if (entry.changeType === "subtask") {
+          return (
+            <div
+              key={entry._id}
+              className="flex justify-between items-center gap-3 py-2 px-3 bg-neutral-800 rounded-lg"
+            >
+              <span className={`truncate ${entry.changedTo ? "text-green-400" : "text-neutral-400"}`}>
+                {entry.changedTo ? "☑ Checked off" : "☐ Unchecked"}: {entry.subtaskText}
+              </span>
+              <span className="text-neutral-500 text-sm flex-shrink-0">
+                {formatEntryMeta(entry)}
+              </span>
+            </div>
+          );
+        }
+
+        if (entry.changeType === "edit") {
+          return (
+            <div key={entry._id} className="py-2 px-3 bg-neutral-800 rounded-lg">
+              <div className="flex justify-between items-center">
+                <span className="text-sky-400">✎ Edited</span>
+                <span className="text-neutral-500 text-sm">
+                  {formatEntryMeta(entry)}
+                </span>
+              </div>
+              <div className="mt-2 space-y-1">
+                {entry.changes?.map((change) => (
+                  <div key={change.field} className="text-sm">
+                    <span className="text-neutral-500">{EDITABLE_FIELD_LABELS[change.field] ?? change.field}: </span>
+                    <span className="text-red-400/80 line-through break-words">{formatFieldValue(change.field, change.from, timeZone)}</span>
+                    <span className="text-neutral-500"> → </span>
+                    <span className="text-green-400/90 break-words">{formatFieldValue(change.field, change.to, timeZone)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        }
+        
+        return (
+          <div
+            key={entry._id}
+            className="flex justify-between items-center py-2 px-3 bg-neutral-800 rounded-lg"
+          >
+            <span className={
+              isCreation
+                ? "text-blue-400"
+                : isImportanceChange 
+                ? (entry.changedTo ? "text-amber-400" : "text-neutral-400")
+                : (entry.changedTo ? "text-green-400" : "text-neutral-400")
+            }>
+              {isCreation
+                ? "+ Created"
+                : isImportanceChange 
+                ? (entry.changedTo ? "★ Important" : "☆ Not Important")
+                : (entry.changedTo ? "✓ Completed" : "○ Incomplete")
+              }
+              {/* Completions from before statuses existed don't have one */}
+              {entry.toStatus && !isCreation && !isImportanceChange && ` · ${entry.toStatus}`}
+            </span>
+            <span className="text-neutral-500 text-sm">
+              {formatEntryMeta(entry)}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function QuickAddTask({ users, projectId, timeZone, onCreated, onError }: {
+  users: { _id: Id<"users">; name: string; deactivatedAt?: number }[] | undefined;
+  projectId: Id<"projects"> | undefined; // New tasks go into the project being viewed
+  timeZone: string;
+  onCreated: (text: string) => void;
+  onError: (message: string) => void;
+}) {
+  const createTask = useMutation(api.tasks.createTask);
+  const [text, setText] = useState('');
+  const [description, setDescription] = useState('');
+  const [duration, setDuration] = useState('');
+  const [priority, setPriority] = useState<Priority>(DEFAULT_PRIORITY);
+  const [userId, setUserId] = useState<Id<"users"> | ''>('');
+  const [dueAt, setDueAt] = useState('');
+  const [recurrence, setRecurrence] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim() || isSubmitting) return;
+    setIsSubmitting(true);
+    try {
+      const task = await createTask({
+        text,
+        description: description.trim() || undefined,
+        duration: duration ? parseInt(duration, 10) : undefined,
+        priority,
+        userId: userId || undefined,
+        dueAt: fromDateTimeInputValue(dueAt, timeZone),
+        recurrence: dueAt && recurrence ? recurrence : undefined,
+        projectId,
+      });
+      onCreated(task?.text ?? text.trim());
+      setText('');
+      setDescription('');
+      setDuration('');
+      setPriority(DEFAULT_PRIORITY);
+      setDueAt('');
+      setRecurrence('');
+    } catch (error) {
+      onError(error instanceof Error ? error.message : 'Failed to create task');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-wrap items-center gap-3 mb-6 bg-neutral-800 rounded-xl p-3">
+      <input
+        type="text"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder="Add a task..."
+        maxLength={200}
+        className="flex-1 min-w-[200px] bg-neutral-900 text-white border border-neutral-700 rounded-lg px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-neutral-600 placeholder:text-neutral-500"
+      />
+      <input
+        type="text"
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        placeholder="Description (optional)"
+        className="flex-1 min-w-[200px] bg-neutral-900 text-white border border-neutral-700 rounded-lg px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-neutral-600 placeholder:text-neutral-500"
+      />
+      <input
+        type="number"
+        min={1}
+        value={duration}
+        onChange={(e) => setDuration(e.target.value)}
+        placeholder="Minutes"
+        className="w-28 bg-neutral-900 text-white border border-neutral-700 rounded-lg px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-neutral-600 placeholder:text-neutral-500"
+      />
+      <input
+        type="datetime-local"
+        value={dueAt}
+        onChange={(e) => setDueAt(e.target.value)}
+        title="Due date"
+        className="bg-neutral-900 text-white border border-neutral-700 rounded-lg px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-neutral-600 [color-scheme:dark]"
+      />
+      <select
+        value={recurrence}
+        onChange={(e) => setRecurrence(e.target.value)}
+        disabled={!dueAt}
+        title={dueAt ? "Repeat" : "Set a due date to repeat the task"}
+        className="bg-neutral-900 text-white border border-neutral-700 rounded-lg px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-neutral-600 disabled:opacity-50"
+      >
+        <option value="">Does not repeat</option>
+        {RECURRENCE_PRESETS.map(preset => (
+          <option key={preset.value} value={preset.value}>{preset.label}</option>
+        ))}
+      </select>
+      <select
+        value={userId}
+        onChange={(e) => setUserId(e.target.value as Id<"users"> | '')}
+        className="bg-neutral-900 text-white border border-neutral-700 rounded-lg px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-neutral-600"
+      >
+        <option value="">Unassigned</option>
+        {users?.filter(user => user.deactivatedAt === undefined).map(user => (
+          <option key={user._id} value={user._id}>{user.name}</option>
+        ))}
+      </select>
+      <PrioritySelect
+        priority={priority}
+        onChange={setPriority}
+        className="bg-neutral-900 border border-neutral-700 rounded-lg px-3 py-2 text-sm"
+      />
+      <Button
+        type="submit"
+        disabled={!text.trim() || isSubmitting}
+        className="bg-blue-600 hover:bg-blue-700"
+      >
+        {isSubmitting ? 'Adding...' : 'Add Task'}
+      </Button>
+    </form>
+  );
+}
+
+function TaskEditForm({ task, timeZone, onSaved, onCancel, onError }: {
+  task: Task;
+  timeZone: string;
+  onSaved: () => void;
+  onCancel: () => void;
+  onError: (message: string) => void;
+}) {
+  const updateTask = useMutation(api.tasks.updateTask);
+  const [text, setText] = useState(task.text);
+  const [description, setDescription] = useState(task.description ?? '');
+  const [duration, setDuration] = useState(task.duration?.toString() ?? '');
+  const [dueAt, setDueAt] = useState(toDateTimeInputValue(task.dueAt, timeZone));
+  const [recurrence, setRecurrence] = useState(task.recurrence?.rule ?? '');
+  const [isCustomRecurrence, setIsCustomRecurrence] = useState(
+    task.recurrence !== undefined && !RECURRENCE_PRESETS.some(preset => preset.value === task.recurrence?.rule)
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim() || isSaving) return;
+    setIsSaving(true);
+    try {
+      await updateTask({
+        id: task._id as Id<"tasks">,
+        text,
+        description,
+        duration: duration ? parseInt(duration, 10) : null,
+        dueAt: fromDateTimeInputValue(dueAt, timeZone) ?? null,
+        recurrence: recurrence.trim() || null,
+      });
+      onSaved();
+    } catch (error) {
+      onError(error instanceof Error ? error.message : 'Failed to save task');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 flex-shrink-0">
+      <div>
+        <label className="block text-sm font-medium text-neutral-400 mb-2">Title</label>
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          maxLength={200}
+          autoFocus
+          className="w-full bg-neutral-800 text-white border border-neutral-700 rounded-lg px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-neutral-600"
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-neutral-400 mb-2">Description</label>
+        <textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          rows={4}
+          className="w-full bg-neutral-800 text-white border border-neutral-700 rounded-lg px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-neutral-600 resize-none"
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-neutral-400 mb-2">Duration (minutes)</label>
+        <input
+          type="number"
+          min={1}
+          value={duration}
+          onChange={(e) => setDuration(e.target.value)}
+          className="w-32 bg-neutral-800 text-white border border-neutral-700 rounded-lg px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-neutral-600"
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-neutral-400 mb-2">Due ({timeZone})</label>
+        <input
+          type="datetime-local"
+          value={dueAt}
+          onChange={(e) => setDueAt(e.target.value)}
+          className="bg-neutral-800 text-white border border-neutral-700 rounded-lg px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-neutral-600 [color-scheme:dark]"
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-neutral-400 mb-2">Repeats</label>
+        <select
+          value={isCustomRecurrence ? 'custom' : recurrence}
+          onChange={(e) => {
+            const custom = e.target.value === 'custom';
+            setIsCustomRecurrence(custom);
+            if (!custom) setRecurrence(e.target.value);
+          }}
+          className="bg-neutral-800 text-white border border-neutral-700 rounded-lg px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-neutral-600"
+        >
+          <option value="">Does not repeat</option>
+          {RECURRENCE_PRESETS.map(preset => (
+            <option key={preset.value} value={preset.value}>{preset.label}</option>
+          ))}
+          <option value="custom">Custom rule...</option>
+        </select>
+        {isCustomRecurrence && (
+          <input
+            type="text"
+            value={recurrence}
+            onChange={(e) => setRecurrence(e.target.value)}
+            placeholder="FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH"
+            className="mt-2 w-full bg-neutral-800 text-white border border-neutral-700 rounded-lg px-4 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-neutral-600 placeholder:text-neutral-500"
+          />
+        )}
+      </div>
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          onClick={onCancel}
+          disabled={isSaving}
+          className="flex-1 bg-neutral-700 hover:bg-neutral-600"
+        >
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          disabled={!text.trim() || isSaving}
+          className="flex-1 bg-blue-600 hover:bg-blue-700"
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+function SubtaskChecklist({ taskId, onError }: {
+  taskId: Id<"tasks">;
+  onError: (message: string) => void;
+}) {
+  const subtasks = useQuery(api.subtasks.listSubtasks, { taskId });
+  const addSubtask = useMutation(api.subtasks.addSubtask);
+  const toggleSubtask = useMutation(api.subtasks.toggleSubtask);
+  const moveSubtask = useMutation(api.subtasks.moveSubtask);
+  const deleteSubtask = useMutation(api.subtasks.deleteSubtask);
+  const [text, setText] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+    } catch (error) {
+      onError(error instanceof Error ? error.message : failure);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim() || isAdding) return;
+    setIsAdding(true);
+    await run(async () => {
+      await addSubtask({ taskId, text });
+      setText('');
+    }, 'Failed to add checklist item');
+    setIsAdding(false);
+  };
+
+  const completed = subtasks?.filter(subtask => subtask.isCompleted).length ?? 0;
+
+  return (
+    <div className="flex-shrink-0">
+      <h3 className="text-sm font-medium text-neutral-400 mb-2">
+        Checklist{subtasks && subtasks.length > 0 && ` (${completed}/${subtasks.length})`}
+      </h3>
+      <div className="space-y-1 max-h-48 overflow-y-auto">
+        {subtasks?.map((subtask, index) => (
+          <div key={subtask._id} className="group flex items-center gap-2 py-1 px-2 rounded-lg hover:bg-neutral-800">
+            <input
+              type="checkbox"
+              checked={subtask.isCompleted}
+              onChange={() => run(() => toggleSubtask({ id: subtask._id }), 'Failed to update checklist item')}
+              className="accent-green-500"
+            />
+            <span className={`flex-1 text-sm break-words ${subtask.isCompleted ? 'text-neutral-500 line-through' : 'text-white'}`}>
+              {subtask.text}
+            </span>
+            <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              <button
+                onClick={() => run(() => moveSubtask({ id: subtask._id, direction: 'up' }), 'Failed to move checklist item')}
+                disabled={index === 0}
+                className="px-1 text-xs text-neutral-400 hover:text-white disabled:opacity-30"
+                title="Move up"
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => run(() => moveSubtask({ id: subtask._id, direction: 'down' }), 'Failed to move checklist item')}
+                disabled={index === subtasks.length - 1}
+                className="px-1 text-xs text-neutral-400 hover:text-white disabled:opacity-30"
+                title="Move down"
+              >
+                ↓
+              </button>
+              <button
+                onClick={() => run(() => deleteSubtask({ id: subtask._id }), 'Failed to delete checklist item')}
+                className="px-1 text-xs text-neutral-400 hover:text-red-400"
+                title="Delete"
+              >
+                ✕
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+      <form onSubmit={handleAdd} className="flex gap-2 mt-2">
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Add an item..."
+          maxLength={200}
+          className="flex-1 bg-neutral-800 text-white border border-neutral-700 rounded-lg px-3 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-neutral-600 placeholder:text-neutral-500"
+        />
+        <Button
+          type="submit"
+          disabled={!text.trim() || isAdding}
+          className="h-8 bg-neutral-700 hover:bg-neutral-600"
+        >
+          Add
+        </Button>
+      </form>
+    </div>
+  );
+}
+
+// What a task waits for and what waits for it. Blockers can be picked from the
+// tasks currently loaded in the list.
+function TaskDependencies({ taskId, candidates, onSelectTask, onError }: {
+  taskId: Id<"tasks">;
+  candidates: { _id: string; text: string }[];
+  onSelectTask: (taskId: string) => void;
+  onError: (message: string) => void;
+}) {
+  const dependencies = useQuery(api.dependencies.listDependencies, { taskId });
+  const addDependency = useMutation(api.dependencies.addDependency);
+  const removeDependency = useMutation(api.dependencies.removeDependency);
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+    } catch (error) {
+      onError(error instanceof Error ? error.message : failure);
+    }
+  };
+
+  if (!dependencies) return null;
+  const available = candidates.filter(task =>
+    task._id !== taskId && !dependencies.blockedBy.some(blocker => blocker._id === task._id)
+  );
+
+  return (
+    <div className="flex-shrink-0">
+      <h3 className="text-sm font-medium text-neutral-400 mb-2">Blocked by</h3>
+      <div className="space-y-1">
+        {dependencies.blockedBy.map(blocker => (
+          <div key={blocker._id} className="group flex items-center gap-2 py-1 px-2 rounded-lg hover:bg-neutral-800">
+            <span className={blocker.isCompleted ? 'text-green-500' : 'text-neutral-500'}>
+              {blocker.isCompleted ? '✓' : '○'}
+            </span>
+            <button
+              onClick={() => onSelectTask(blocker._id)}
+              className={`flex-1 text-left text-sm truncate hover:underline ${blocker.isCompleted ? 'text-neutral-500' : 'text-white'}`}
+            >
+              {blocker.text}
+            </button>
+            <button
+              onClick={() => run(() => removeDependency({ taskId, blockedById: blocker._id }), 'Failed to remove dependency')}
+              className="px-1 text-xs text-neutral-400 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+              title="Remove dependency"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+      <select
+        value=""
+        onChange={(e) => {
+          const blockedById = e.target.value as Id<"tasks">;
+          if (blockedById) run(() => addDependency({ taskId, blockedById }), 'Failed to add dependency');
+        }}
+        className="mt-2 w-full bg-neutral-800 text-white border border-neutral-700 rounded-lg px-3 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-neutral-600"
+      >
+        <option value="">+ Add a task this one waits for...</option>
+        {available.map(task => (
+          <option key={task._id} value={task._id}>{task.text}</option>
+        ))}
+      </select>
+      {dependencies.blocking.length > 0 && (
+        <div className="mt-3 text-sm text-neutral-400">
+          Blocking:{' '}
+          {dependencies.blocking.map((task, index) => (
+            <span key={task._id}>
+              {index > 0 && ', '}
+              <button onClick={() => onSelectTask(task._id)} className="text-white hover:underline">
+                {task.text}
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+type MentionedUser = { _id: string; name: string };
+
+type MarkdownInline =
+  | { type: 'text' | 'bold' | 'italic' | 'code'; text: string }
+  | { type: 'link'; text: string; href: string }
+  | { type: 'mention'; text: string; userId: string };
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Splits a line of a comment into **bold**, *italic*, `code`, [links](https://...)
+// and @mentions of the given users. Formatting doesn't nest.
+function parseInlineMarkdown(text: string, mentions: MentionedUser[]): MarkdownInline[] {
+  const names = mentions.map(user => user.name).sort((a, b) => b.length - a.length).map(escapeRegExp);
+  const patterns = [
+    '\\*\\*([^*]+)\\*\\*',
+    '\\*([^*\\s][^*]*)\\*',
+    '`([^`]+)`',
+    '\\[([^\\]]+)\\]\\((https?:\\/\\/[^)\\s]+)\\)',
+    ...(names.length > 0 ? [`(?<![\\p{L}\\p{N}_])@(${names.join('|')})(?![\\p{L}\\p{N}_])`] : []),
+  ];
+  const tokens: MarkdownInline[] = [];
+  let last = 0;
+  for (const match of text.matchAll(new RegExp(patterns.join('|'), 'giu'))) {
+    if (match.index > last) tokens.push({ type: 'text', text: text.slice(last, match.index) });
+    if (match[1] !== undefined) tokens.push({ type: 'bold', text: match[1] });
+    else if (match[2] !== undefined) tokens.push({ type: 'italic', text: match[2] });
+    else if (match[3] !== undefined) tokens.push({ type: 'code', text: match[3] });
+    else if (match[4] !== undefined) tokens.push({ type: 'link', text: match[4], href: match[5] });
+    else {
+      const user = mentions.find(mention => mention.name.toLowerCase() === match[6].toLowerCase());
+      tokens.push(user ? { type: 'mention', text: `@${user.name}`, userId: user._id } : { type: 'text', text: match[0] });
+    }
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) tokens.push({ type: 'text', text: text.slice(last) });
+  return tokens;
+}
+
+function MarkdownLine({ text, mentions }: { text: string; mentions: MentionedUser[] }) {
+  return (
+    <>
+      {parseInlineMarkdown(text, mentions).map((token, index) => {
+        switch (token.type) {
+          case 'bold':
+            return <strong key={index} className="font-semibold">{token.text}</strong>;
+          case 'italic':
+            return <em key={index}>{token.text}</em>;
+          case 'code':
+            return <code key={index} className="px-1 rounded bg-neutral-900 text-pink-300 text-xs">{token.text}</code>;
+          case 'link':
+            return (
+              <a key={index} href={token.href} target="_blank" rel="noopener noreferrer" className="text-sky-400 hover:underline">
+                {token.text}
+              </a>
+            );
+          case 'mention':
+            return <span key={index} className="px-1 rounded bg-indigo-500/20 text-indigo-300 font-medium">{token.text}</span>;
+          default:
+            return <span key={index}>{token.text}</span>;
+        }
+      })}
+    </>
+  );
+}
+
+// Comment text as paragraphs and "- " bullet lists; blank lines start a new paragraph
+function CommentMarkdown({ text, mentions }: { text: string; mentions: MentionedUser[] }) {
+  const blocks: { isList: boolean; lines: string[] }[] = [];
+  let current: { isList: boolean; lines: string[] } | null = null;
+  for (const line of text.split('\n')) {
+    const listItem = /^\s*[-*]\s+(.*)$/.exec(line);
+    if (!listItem && !line.trim()) {
+      current = null;
+      continue;
+    }
+    const isList = listItem !== null;
+    if (!current || current.isList !== isList) {
+      current = { isList, lines: [] };
+      blocks.push(current);
+    }
+    current.lines.push(listItem ? listItem[1] : line);
+  }
+
+  return (
+    <div className="space-y-2 text-sm text-white/90 break-words">
+      {blocks.map((block, index) => block.isList ? (
+        <ul key={index} className="list-disc pl-5 space-y-0.5">
+          {block.lines.map((line, lineIndex) => (
+            <li key={lineIndex}><MarkdownLine text={line} mentions={mentions} /></li>
+          ))}
+        </ul>
+      ) : (
+        <p key={index}>
+          {block.lines.map((line, lineIndex) => (
+            <span key={lineIndex}>
+              {lineIndex > 0 && <br />}
+              <MarkdownLine text={line} mentions={mentions} />
+            </span>
+          ))}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+// Textarea that suggests users to mention while an "@name" is being typed at the end
+function CommentInput({ value, onChange, users, placeholder, onSubmit }: {
+  value: string;
+  onChange: (value: string) => void;
+  users: { _id: string; name: string; deactivatedAt?: number }[] | undefined;
+  placeholder: string;
+  onSubmit: () => void;
+}) {
+  const mentionQuery = /(?:^|\s)@([^\s@]*)$/.exec(value)?.[1];
+  const suggestions = mentionQuery === undefined ? [] : (users ?? [])
+    .filter(user => user.deactivatedAt === undefined && user.name.toLowerCase().startsWith(mentionQuery.toLowerCase()))
+    .slice(0, 5);
+
+  return (
+    <div className="relative">
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            onSubmit();
+          }
+        }}
+        placeholder={placeholder}
+        rows={3}
+        maxLength={5000}
+        className="w-full bg-neutral-800 text-white border border-neutral-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-neutral-600 placeholder:text-neutral-500 resize-y"
+      />
+      {suggestions.length > 0 && (
+        <div className="absolute left-0 bottom-full mb-1 z-10 bg-neutral-800 border border-neutral-700 rounded-lg shadow-lg overflow-hidden">
+          {suggestions.map(user => (
+            <button
+              key={user._id}
+              type="button"
+              onClick={() => onChange(value.replace(/@([^\s@]*)$/, `@${user.name} `))}
+              className="block w-full text-left px-3 py-1.5 text-sm text-white hover:bg-neutral-700"
+            >
+              @{user.name}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// A task's discussion thread. Authors can edit and delete their own comments.
+function TaskComments({ taskId, users, viewerId, timeZone, onError }: {
+  taskId: Id<"tasks">;
+  users: { _id: string; name: string; deactivatedAt?: number }[] | undefined;
+  viewerId: Id<"users"> | undefined;
+  timeZone: string;
+  onError: (message: string) => void;
+}) {
+  const comments = useQuery(api.comments.listComments, { taskId });
+  const addComment = useMutation(api.comments.addComment);
+  const updateComment = useMutation(api.comments.updateComment);
+  const deleteComment = useMutation(api.comments.deleteComment);
+  const [newText, setNewText] = useState('');
+  const [editingId, setEditingId] = useState<Id<"comments"> | null>(null);
+  const [editText, setEditText] = useState('');
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      onError(error instanceof Error ? error.message : failure);
+      return false;
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!newText.trim()) return;
+    if (await run(() => addComment({ taskId, text: newText }), 'Failed to add comment')) setNewText('');
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingId || !editText.trim()) return;
+    if (await run(() => updateComment({ id: editingId, text: editText }), 'Failed to update comment')) setEditingId(null);
+  };
+
+  return (
+    <div className="flex-shrink-0">
+      <h3 className="text-sm font-medium text-neutral-400 mb-2">
+        Comments{comments && comments.length > 0 && ` (${comments.length})`}
+      </h3>
+      <div className="space-y-3 mb-3">
+        {comments?.map(comment => (
+          <div key={comment._id} className="group flex gap-3">
+            <div className="w-7 h-7 rounded-full overflow-hidden flex-shrink-0 bg-neutral-700 flex items-center justify-center text-xs text-neutral-300">
+              {comment.author?.imageUrl ? (
+                <img src={comment.author.imageUrl} alt={comment.author.name} className="w-full h-full object-cover" />
+              ) : (
+                comment.author?.name.charAt(0).toUpperCase() ?? '?'
+              )}
+            </div>
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2 text-xs text-neutral-500 mb-1">
+                <span className="text-neutral-300 font-medium">{comment.author?.name ?? 'Unknown'}</span>
+                <span title={formatDateTime(comment._creationTime, timeZone)}>
+                  {formatRelativeTime(comment._creationTime, timeZone)}
+                </span>
+                {comment.editedAt !== undefined && (
+                  <span title={formatDateTime(comment.editedAt, timeZone)}>(edited)</span>
+                )}
+                {comment.authorId === viewerId && editingId !== comment._id && (
+                  <span className="ml-auto flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={() => {
+                        setEditingId(comment._id);
+                        setEditText(comment.text);
+                      }}
+                      className="hover:text-white"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (window.confirm('Delete this comment?')) {
+                          void run(() => deleteComment({ id: comment._id }), 'Failed to delete comment');
+                        }
+                      }}
+                      className="hover:text-red-400"
+                    >
+                      Delete
+                    </button>
+                  </span>
+                )}
+              </div>
+              {editingId === comment._id ? (
+                <div className="space-y-2">
+                  <CommentInput
+                    value={editText}
+                    onChange={setEditText}
+                    users={users}
+                    placeholder="Edit comment..."
+                    onSubmit={handleSaveEdit}
+                  />
+                  <div className="flex gap-2">
+                    <Button onClick={handleSaveEdit} disabled={!editText.trim()} className="h-7 bg-neutral-700 hover:bg-neutral-600">
+                      Save
+                    </Button>
+                    <button onClick={() => setEditingId(null)} className="text-sm text-neutral-400 hover:text-white">
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <CommentMarkdown text={comment.text} mentions={comment.mentions} />
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+      <CommentInput
+        value={newText}
+        onChange={setNewText}
+        users={users}
+        placeholder="Write a comment... (markdown, @name to mention)"
+        onSubmit={handleAdd}
+      />
+      <div className="flex justify-end mt-2">
+        <Button onClick={handleAdd} disabled={!newText.trim()} className="h-8 bg-neutral-700 hover:bg-neutral-600">
+          Comment
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Time tracked on a task, shown beside the estimate on cards and rows
+function TrackedTime({ task }: { task: { trackedMs?: number } }) {
+  if (!task.trackedMs) return null;
+  return (
+    <span className="text-xs text-emerald-400" title="Time tracked">
+      ⏱ {formatTrackedTime(task.trackedMs)}
+    </span>
+  );
+}
+
+// Current time, updated every second while enabled, for showing running timers
+function useNow(enabled: boolean): number {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (!enabled) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [enabled]);
+  return now;
+}
+
+// Header indicator for the signed-in user's running timer; clicking it opens the task
+function RunningTimer({ onSelectTask, onError }: {
+  onSelectTask: (taskId: string) => void;
+  onError: (message: string) => void;
+}) {
+  const runningTimer = useQuery(api.timeEntries.getRunningTimer);
+  const stopTimer = useMutation(api.timeEntries.stopTimer);
+  const now = useNow(!!runningTimer);
+
+  if (!runningTimer) return null;
+
+  return (
+    <div className="flex items-center gap-2 px-3 py-1 rounded-full bg-emerald-600/20 text-emerald-300 text-sm">
+      <button
+        onClick={() => onSelectTask(runningTimer.task._id)}
+        className="flex items-center gap-2 max-w-[220px] hover:text-white transition-colors"
+        title={`Tracking time on ${runningTimer.task.text}`}
+      >
+        <span className="font-mono">{formatTimerClock(now - runningTimer.startedAt)}</span>
+        <span className="truncate">{runningTimer.task.text}</span>
+      </button>
+      <button
+        onClick={async () => {
+          try {
+            await stopTimer();
+          } catch (error) {
+            onError(error instanceof Error ? error.message : 'Failed to stop timer');
+          }
+        }}
+        className="hover:text-white transition-colors"
+        title="Stop timer"
+      >
+        ■
+      </button>
+    </div>
+  );
+}
+
+// Start and end of a time entry as wall-clock times in the viewer's zone
+function TimeEntryForm({ startedAt, endedAt, timeZone, submitLabel, onSubmit, onCancel }: {
+  startedAt: number;
+  endedAt: number | undefined; // Unset for running entries, whose end isn't editable
+  timeZone: string;
+  submitLabel: string;
+  onSubmit: (range: { startedAt: number; endedAt?: number }) => Promise<void>;
+  onCancel: () => void;
+}) {
+  const [start, setStart] = useState(toDateTimeInputValue(startedAt, timeZone));
+  const [end, setEnd] = useState(toDateTimeInputValue(endedAt, timeZone));
+  const startValue = fromDateTimeInputValue(start, timeZone);
+  const endValue = fromDateTimeInputValue(end, timeZone);
+  const isValid = startValue !== undefined && (endedAt === undefined || (endValue !== undefined && endValue > startValue));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+    await onSubmit({ startedAt: startValue, endedAt: endedAt === undefined ? undefined : endValue });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-wrap items-center gap-2 py-2">
+      <input
+        type="datetime-local"
+        value={start}
+        onChange={(e) => setStart(e.target.value)}
+        className="bg-neutral-800 text-white border border-neutral-700 rounded px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-neutral-600"
+      />
+      {endedAt !== undefined && (
+        <>
+          <span className="text-neutral-500">→</span>
+          <input
+            type="datetime-local"
+            value={end}
+            onChange={(e) => setEnd(e.target.value)}
+            className="bg-neutral-800 text-white border border-neutral-700 rounded px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-neutral-600"
+          />
+        </>
+      )}
+      <Button type="submit" disabled={!isValid} className="h-7 bg-neutral-700 hover:bg-neutral-600">
+        {submitLabel}
+      </Button>
+      <button type="button" onClick={onCancel} className="text-sm text-neutral-400 hover:text-white">
+        Cancel
+      </button>
+    </form>
+  );
+}
+
+// Time spent on a task next to its estimate: the viewer's start/stop timer, time added
+// by hand, and everyone's entries. Only the user who tracked an entry can change it.
+function TaskTimeTracking({ task, viewerId, timeZone, onError }: {
+  task: { _id: string; duration?: number; trackedMs?: number };
+  viewerId: Id<"users"> | undefined;
+  timeZone: string;
+  onError: (message: string) => void;
+}) {
+  const taskId = task._id as Id<"tasks">;
+  const entries = useQuery(api.timeEntries.listTimeEntries, { taskId });
+  const runningTimer = useQuery(api.timeEntries.getRunningTimer);
+  const startTimer = useMutation(api.timeEntries.startTimer);
+  const stopTimer = useMutation(api.timeEntries.stopTimer);
+  const addTimeEntry = useMutation(api.timeEntries.addTimeEntry);
+  const updateTimeEntry = useMutation(api.timeEntries.updateTimeEntry);
+  const deleteTimeEntry = useMutation(api.timeEntries.deleteTimeEntry);
+  const [editingEntryId, setEditingEntryId] = useState<Id<"timeEntries"> | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const isRunningHere = runningTimer?.taskId === taskId;
+  const now = useNow(!!entries?.some(entry => entry.endedAt === undefined));
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      onError(error instanceof Error ? error.message : fallback);
+      return false;
+    }
+  };
+
+  return (
+    <div className="flex-shrink-0">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium text-neutral-400">
+          Time Tracked{' '}
+          <span className="text-white">{formatTrackedTime(task.trackedMs ?? 0)}</span>
+          {task.duration ? ` of ${formatDuration(task.duration)} estimated` : ''}
+        </h3>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setIsAdding(!isAdding)}
+            className="px-3 py-1 rounded-full text-xs font-medium bg-neutral-700 text-neutral-300 hover:bg-neutral-600 hover:text-white transition-colors"
+          >
+            + Add time
+          </button>
+          <button
+            onClick={() => void run(() => isRunningHere ? stopTimer() : startTimer({ taskId }), 'Failed to update timer')}
+            className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+              isRunningHere
+                ? 'bg-emerald-600 text-white hover:bg-emerald-500'
+                : 'bg-neutral-700 text-neutral-300 hover:bg-neutral-600 hover:text-white'
+            }`}
+            title={runningTimer && !isRunningHere ? `Stops the timer on ${runningTimer.task.text}` : undefined}
+          >
+            {isRunningHere ? '■ Stop' : '▶ Start'}
+          </button>
+        </div>
+      </div>
+      {isAdding && (
+        <TimeEntryForm
+          startedAt={now - 30 * 60 * 1000}
+          endedAt={now}
+          timeZone={timeZone}
+          submitLabel="Add"
+          onSubmit={async ({ startedAt, endedAt }) => {
+            if (await run(() => addTimeEntry({ taskId, startedAt, endedAt: endedAt! }), 'Failed to add time')) {
+              setIsAdding(false);
+            }
+          }}
+          onCancel={() => setIsAdding(false)}
+        />
+      )}
+      {entries && entries.length > 0 && (
+        <ul className="space-y-1">
+          {entries.map(entry => editingEntryId === entry._id ? (
+            <li key={entry._id}>
+              <TimeEntryForm
+                startedAt={entry.startedAt}
+                endedAt={entry.endedAt}
+                timeZone={timeZone}
+                submitLabel="Save"
+                onSubmit={async (range) => {
+                  if (await run(() => updateTimeEntry({ id: entry._id, ...range }), 'Failed to update time entry')) {
+                    setEditingEntryId(null);
+                  }
+                }}
+                onCancel={() => setEditingEntryId(null)}
+              />
+            </li>
+          ) : (
+            <li key={entry._id} className="group flex items-center gap-3 text-sm py-1">
+              <span className="text-neutral-300 w-24 truncate" title={entry.userName}>{entry.userName}</span>
+              <span className="text-neutral-500 flex-1">
+                {formatDateTime(entry.startedAt, timeZone)}
+                {entry.endedAt !== undefined && ` – ${formatDateTime(entry.endedAt, timeZone)}`}
+              </span>
+              <span className={entry.endedAt === undefined ? 'text-emerald-400 font-mono' : 'text-white'}>
+                {entry.endedAt === undefined
+                  ? formatTimerClock(now - entry.startedAt)
+                  : formatTrackedTime(entry.endedAt - entry.startedAt)}
+              </span>
+              {entry.userId === viewerId && (
+                <span className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button onClick={() => setEditingEntryId(entry._id)} className="text-neutral-500 hover:text-white" title="Edit">
+                    ✎
+                  </button>
+                  <button
+                    onClick={() => void run(() => deleteTimeEntry({ id: entry._id }), 'Failed to delete time entry')}
+                    className="text-neutral-500 hover:text-red-400"
+                    title="Delete"
+                  >
+                    ✕
+                  </button>
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// Files on a task: drop them on the area or pick them, images get a thumbnail
+function TaskAttachments({ taskId, timeZone, onError }: {
+  taskId: Id<"tasks">;
+  timeZone: string;
+  onError: (message: string) => void;
+}) {
+  const attachments = useQuery(api.attachments.listAttachments, { taskId });
+  const generateUploadUrl = useMutation(api.attachments.generateUploadUrl);
+  const addAttachment = useMutation(api.attachments.addAttachment);
+  const deleteAttachment = useMutation(api.attachments.deleteAttachment);
+  const [isDragging, setIsDragging] = useState(false);
+  const [uploadingCount, setUploadingCount] = useState(0);
+
+  const handleFiles = async (files: File[]) => {
+    setUploadingCount(count => count + files.length);
+    // One at a time, so a failure only loses that file
+    for (const file of files) {
+      try {
+        const storageId = await uploadFile(await generateUploadUrl(), file);
+        const result = await addAttachment({ taskId, storageId, name: file.name });
+        if ('error' in result) throw new Error(result.error);
+      } catch (error) {
+        onError(error instanceof Error ? `${file.name}: ${error.message}` : `Failed to upload ${file.name}`);
+      } finally {
+        setUploadingCount(count => count - 1);
+      }
+    }
+  };
+
+  return (
+    <div className="flex-shrink-0">
+      <h3 className="text-sm font-medium text-neutral-400 mb-2">
+        Attachments{attachments && attachments.length > 0 && ` (${attachments.length})`}
+      </h3>
+      {attachments && attachments.length > 0 && (
+        <div className="grid grid-cols-2 gap-2 mb-2">
+          {attachments.map(attachment => (
+            <div key={attachment._id} className="group relative rounded-lg bg-neutral-800 overflow-hidden">
+              <a href={attachment.url ?? undefined} target="_blank" rel="noopener noreferrer" className="block">
+                {attachment.isImage && attachment.url ? (
+                  <img src={attachment.url} alt={attachment.name} className="w-full h-24 object-cover" />
+                ) : (
+                  <div className="w-full h-24 flex items-center justify-center text-2xl text-neutral-500">📄</div>
+                )}
+                <div className="px-2 py-1.5">
+                  <div className="text-xs text-neutral-200 truncate" title={attachment.name}>{attachment.name}</div>
+                  <div className="text-xs text-neutral-500" title={formatDateTime(attachment._creationTime, timeZone)}>
+                    {formatFileSize(attachment.size)} · {formatRelativeTime(attachment._creationTime, timeZone)}
+                  </div>
+                </div>
+              </a>
+              <button
+                onClick={async () => {
+                  if (!window.confirm(`Delete ${attachment.name}?`)) return;
+                  try {
+                    await deleteAttachment({ id: attachment._id });
+                  } catch (error) {
+                    onError(error instanceof Error ? error.message : 'Failed to delete attachment');
+                  }
+                }}
+                className="absolute top-1 right-1 w-6 h-6 rounded-full bg-black/60 text-neutral-300 hover:text-red-400 text-xs opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Delete attachment"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      <label
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          void handleFiles(Array.from(e.dataTransfer.files));
+        }}
+        className={`block rounded-lg border border-dashed px-4 py-3 text-center text-sm cursor-pointer transition-colors ${
+          isDragging ? 'border-neutral-400 bg-neutral-800 text-white' : 'border-neutral-700 text-neutral-500 hover:text-neutral-300'
+        }`}
+      >
+        {uploadingCount > 0 ? `Uploading ${uploadingCount} file${uploadingCount === 1 ? '' : 's'}...` : 'Drop files here or click to attach'}
+        <input
+          type="file"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            const files = Array.from(e.target.files ?? []);
+            e.target.value = '';
+            void handleFiles(files);
+          }}
+        />
+      </label>
+    </div>
+  );
+}
+
+type Project = { _id: Id<"projects">; name: string; color: string; ownerId: Id<"users">; archivedAt?: number };
+type Status = { _id: Id<"statuses">; projectId?: Id<"projects">; name: string; color: string; isDone: boolean; order: number };
+
+const DEFAULT_PROJECT_COLOR = '#3B82F6';
+
+// Header dropdown that scopes every tab to one project, with controls to create
+// projects and for owners to archive or restore the one being viewed
+function ProjectSwitcher({ projects, projectId, viewerId, onChange, onError }: {
+  projects: Project[] | undefined;
+  projectId: Id<"projects"> | undefined;
+  viewerId: Id<"users"> | undefined;
+  onChange: (projectId: Id<"projects"> | undefined) => void;
+  onError: (message: string) => void;
+}) {
+  const createProject = useMutation(api.projects.createProject);
+  const archiveProject = useMutation(api.projects.archiveProject);
+  const unarchiveProject = useMutation(api.projects.unarchiveProject);
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(DEFAULT_PROJECT_COLOR);
+  const [isEditingWorkflow, setIsEditingWorkflow] = useState(false);
+
+  const current = projects?.find(project => project._id === projectId);
+  // "All projects" edits the workflow of tasks outside any project, which anyone can change
+  const canEditWorkflow = !current || current.ownerId === viewerId;
+  const activeProjects = projects?.filter(project => project.archivedAt === undefined) ?? [];
+  const archivedProjects = projects?.filter(project => project.archivedAt !== undefined) ?? [];
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    try {
+      const project = await createProject({ name, color });
+      if (project) onChange(project._id);
+      setName('');
+      setColor(DEFAULT_PROJECT_COLOR);
+      setIsCreating(false);
+    } catch (error) {
+      onError(error instanceof Error ? error.message : 'Failed to create project');
+    }
+  };
+
+  const toggleArchived = async () => {
+    if (!current) return;
+    try {
+      if (current.archivedAt === undefined) {
+        await archiveProject({ id: current._id });
+      } else {
+        await unarchiveProject({ id: current._id });
+      }
+    } catch (error) {
+      onError(error instanceof Error ? error.message : 'Failed to update project');
+    }
+  };
+
+  if (isCreating) {
+    return (
+      <form onSubmit={handleCreate} className="flex items-center gap-2">
+        <input
+          type="color"
+          value={color}
+          onChange={(e) => setColor(e.target.value)}
+          className="w-8 h-8 rounded cursor-pointer bg-transparent"
+          title="Project color"
+        />
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Project name..."
+          maxLength={50}
+          autoFocus
+          className="bg-neutral-800 text-white border border-neutral-700 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-neutral-600 placeholder:text-neutral-500"
+        />
+        <Button type="submit" disabled={!name.trim()} className="h-8 bg-neutral-700 hover:bg-neutral-600">
+          Create
+        </Button>
+        <button
+          type="button"
+          onClick={() => setIsCreating(false)}
+          className="text-sm text-neutral-400 hover:text-white"
+        >
+          Cancel
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <span
+        className="w-3 h-3 rounded-full flex-shrink-0"
+        style={{ backgroundColor: current?.color ?? 'transparent', border: current ? undefined : '1px solid #525252' }}
+      />
+      <select
+        value={projectId ?? ''}
+        onChange={(e) => onChange(e.target.value ? e.target.value as Id<"projects"> : undefined)}
+        className="bg-neutral-800 text-white border border-neutral-700 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-neutral-600"
+      >
+        <option value="">All projects</option>
+        {activeProjects.map(project => (
+          <option key={project._id} value={project._id}>{project.name}</option>
+        ))}
+        {archivedProjects.length > 0 && (
+          <optgroup label="Archived">
+            {archivedProjects.map(project => (
+              <option key={project._id} value={project._id}>{project.name}</option>
+            ))}
+          </optgroup>
+        )}
+      </select>
+      <button
+        onClick={() => setIsCreating(true)}
+        className="w-8 h-8 rounded-lg bg-neutral-800 text-neutral-400 hover:bg-neutral-700 hover:text-white transition-colors"
+        title="New project"
+      >
+        +
+      </button>
+      {current && current.ownerId === viewerId && (
+        <button
+          onClick={toggleArchived}
+          className="text-xs text-neutral-400 hover:text-white transition-colors"
+          title={current.archivedAt === undefined ? 'Hide this project from the switcher; its tasks stay where they are' : 'Show this project in the switcher again'}
+        >
+          {current.archivedAt === undefined ? 'Archive' : 'Unarchive'}
+        </button>
+      )}
+      {canEditWorkflow && (
+        <div className="relative">
+          <button
+            onClick={() => setIsEditingWorkflow(!isEditingWorkflow)}
+            className="text-xs text-neutral-400 hover:text-white transition-colors"
+            title={current ? `Edit the statuses of ${current.name}` : 'Edit the statuses of tasks outside projects'}
+          >
+            Workflow
+          </button>
+          {isEditingWorkflow && (
+            <div className="absolute left-0 mt-2 w-96 bg-neutral-800 border border-neutral-700 rounded-xl shadow-xl z-50 p-4">
+              <StatusWorkflowEditor projectId={current?._id} projectName={current?.name} onError={onError} />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Status picker in the drawer, listing the statuses of the task's workflow
+function StatusSelect({ statusId, statuses, onChange, disabled }: {
+  statusId: Id<"statuses"> | undefined;
+  statuses: Status[];
+  onChange: (statusId: Id<"statuses">) => void;
+  disabled?: boolean;
+}) {
+  const current = statuses.find(status => status._id === statusId);
+  return (
+    <select
+      value={statusId ?? ''}
+      onChange={(e) => onChange(e.target.value as Id<"statuses">)}
+      disabled={disabled}
+      className="bg-transparent disabled:opacity-50 text-sm font-medium rounded cursor-pointer focus:outline-none focus:ring-1 focus:ring-neutral-600"
+      style={{ color: current?.color }}
+      title="Status"
+    >
+      {!current && <option value="" disabled>No status</option>}
+      {statuses.map(status => (
+        <option key={status._id} value={status._id} className="bg-neutral-800 text-white">
+          {status.isDone ? '✓ ' : ''}{status.name}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+const DEFAULT_STATUS_COLOR = '#737373';
+
+// Statuses of one workflow in order, with controls to rename, recolor, reorder, add and
+// delete them. Tasks in a done status count as completed.
+function StatusWorkflowEditor({ projectId, projectName, onError }: {
+  projectId: Id<"projects"> | undefined;
+  projectName: string | undefined;
+  onError: (message: string) => void;
+}) {
+  const statuses = useQuery(api.statuses.listStatuses, { projectId: projectId ?? null });
+  const createStatus = useMutation(api.statuses.createStatus);
+  const updateStatus = useMutation(api.statuses.updateStatus);
+  const moveStatus = useMutation(api.statuses.moveStatus);
+  const deleteStatus = useMutation(api.statuses.deleteStatus);
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(DEFAULT_STATUS_COLOR);
+  const [isDone, setIsDone] = useState(false);
+
+  // The server refuses changes that would leave tasks without a status or a workflow
+  // without an open or a done status; those come back as toasts
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    try {
+      await action();
+    } catch (error) {
+      onError(error instanceof Error ? error.message : fallback);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    await run(async () => {
+      await createStatus({ projectId: projectId ?? null, name, color, isDone });
+      setName('');
+      setColor(DEFAULT_STATUS_COLOR);
+      setIsDone(false);
+    }, 'Failed to add status');
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-neutral-400 mb-3">
+        {projectName ? `${projectName} workflow` : 'Workflow for tasks outside projects'}
+      </h3>
+      {!statuses ? (
+        <div className="text-neutral-500 text-sm">Loading statuses...</div>
+      ) : (
+        <ul className="space-y-2">
+          {statuses.map((status, index) => (
+            <li key={status._id} className="flex items-center gap-2">
+              <input
+                key={status.color}
+                type="color"
+                defaultValue={status.color}
+                onBlur={(e) => {
+                  const value = e.target.value;
+                  if (value.toLowerCase() !== status.color.toLowerCase()) {
+                    void run(() => updateStatus({ id: status._id, color: value }), 'Failed to update status');
+                  }
+                }}
+                className="w-6 h-6 rounded cursor-pointer bg-transparent flex-shrink-0"
+                title="Status color"
+              />
+              <input
+                key={status.name}
+                type="text"
+                defaultValue={status.name}
+                maxLength={30}
+                onBlur={(e) => {
+                  const value = e.target.value.trim();
+                  if (value && value !== status.name) {
+                    void run(() => updateStatus({ id: status._id, name: value }), 'Failed to rename status');
+                  } else {
+                    e.target.value = status.name;
+                  }
+                }}
+                className="flex-1 min-w-0 bg-neutral-900 text-white border border-neutral-700 rounded px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-neutral-600"
+              />
+              <label className="flex items-center gap-1 text-xs text-neutral-400 flex-shrink-0" title="Tasks in this status count as completed">
+                <input
+                  type="checkbox"
+                  checked={status.isDone}
+                  onChange={(e) => void run(() => updateStatus({ id: status._id, isDone: e.target.checked }), 'Failed to update status')}
+                />
+                Done
+              </label>
+              <button
+                onClick={() => void run(() => moveStatus({ id: status._id, direction: 'up' }), 'Failed to move status')}
+                disabled={index === 0}
+                className="text-neutral-500 hover:text-white disabled:opacity-30 disabled:hover:text-neutral-500"
+                title="Move up"
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => void run(() => moveStatus({ id: status._id, direction: 'down' }), 'Failed to move status')}
+                disabled={index === statuses.length - 1}
+                className="text-neutral-500 hover:text-white disabled:opacity-30 disabled:hover:text-neutral-500"
+                title="Move down"
+              >
+                ↓
+              </button>
+              <button
+                onClick={() => void run(() => deleteStatus({ id: status._id }), 'Failed to delete status')}
+                className="text-neutral-500 hover:text-red-400"
+                title={`Delete ${status.name}`}
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <form onSubmit={handleCreate} className="flex items-center gap-2 mt-3">
+        <input
+          type="color"
+          value={color}
+          onChange={(e) => setColor(e.target.value)}
+          className="w-6 h-6 rounded cursor-pointer bg-transparent flex-shrink-0"
+          title="Status color"
+        />
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="New status..."
+          maxLength={30}
+          className="flex-1 min-w-0 bg-neutral-900 text-white border border-neutral-700 rounded px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-neutral-600 placeholder:text-neutral-500"
+        />
+        <label className="flex items-center gap-1 text-xs text-neutral-400 flex-shrink-0">
+          <input type="checkbox" checked={isDone} onChange={(e) => setIsDone(e.target.checked)} />
+          Done
+        </label>
+        <Button type="submit" disabled={!name.trim()} className="h-7 bg-neutral-700 hover:bg-neutral-600">
+          Add
+        </Button>
+      </form>
+    </div>
+  );
+}
+
+const DEFAULT_TAG_COLOR = '#808080';
+
+// Tags on a task, with controls to add existing tags or create new ones
+function TaskTagsEditor({ taskId, tags, allTags, onError }: {
+  taskId: Id<"tasks">;
+  tags: TaskTag[];
+  allTags: TaskTag[] | undefined;
+  onError: (message: string) => void;
+}) {
+  const addTagToTask = useMutation(api.tags.addTagToTask);
+  const removeTagFromTask = useMutation(api.tags.removeTagFromTask);
+  const createTag = useMutation(api.tags.createTag);
+  const [newTagName, setNewTagName] = useState('');
+  const [newTagColor, setNewTagColor] = useState(DEFAULT_TAG_COLOR);
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+    } catch (error) {
+      onError(error instanceof Error ? error.message : failure);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newTagName.trim()) return;
+    run(async () => {
+      const tag = await createTag({ name: newTagName, color: newTagColor });
+      if (tag) await addTagToTask({ taskId, tagId: tag._id });
+      setNewTagName('');
+      setNewTagColor(DEFAULT_TAG_COLOR);
+    }, 'Failed to create tag');
+  };
+
+  const available = allTags?.filter(tag => !tags.some(taskTag => taskTag._id === tag._id)) ?? [];
+
+  return (
+    <div className="flex-shrink-0">
+      <h3 className="text-sm font-medium text-neutral-400 mb-2">Tags</h3>
+      <div className="flex flex-wrap items-center gap-2">
+        {tags.map(tag => (
+          <TagChip
+            key={tag._id}
+            tag={tag}
+            onRemove={() => run(() => removeTagFromTask({ taskId, tagId: tag._id as Id<"tags"> }), 'Failed to remove tag')}
+          />
+        ))}
+        {available.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => {
+              const tagId = e.target.value as Id<"tags">;
+              if (tagId) run(() => addTagToTask({ taskId, tagId }), 'Failed to add tag');
+            }}
+            className="bg-neutral-800 text-white border border-neutral-700 rounded-lg px-2 py-0.5 text-xs focus:outline-none focus:ring-2 focus:ring-neutral-600"
+          >
+            <option value="">+ Add tag</option>
+            {available.map(tag => (
+              <option key={tag._id} value={tag._id}>{tag.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+      <form onSubmit={handleCreate} className="flex items-center gap-2 mt-2">
+        <input
+          type="color"
+          value={newTagColor}
+          onChange={(e) => setNewTagColor(e.target.value)}
+          className="w-8 h-8 rounded cursor-pointer bg-transparent"
+          title="Tag color"
+        />
+        <input
+          type="text"
+          value={newTagName}
+          onChange={(e) => setNewTagName(e.target.value)}
+          placeholder="New tag..."
+          maxLength={30}
+          className="flex-1 bg-neutral-800 text-white border border-neutral-700 rounded-lg px-3 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-neutral-600 placeholder:text-neutral-500"
+        />
+        <Button
+          type="submit"
+          disabled={!newTagName.trim()}
+          className="h-8 bg-neutral-700 hover:bg-neutral-600"
+        >
+          Create
+        </Button>
+      </form>
+    </div>
+  );
+}
+
+// Per-tag task counts on the Stats tab
+function TagStats({ onError }: { onError: (message: string) => void }) {
+  const tagStats = useQuery(api.tags.getTagStats);
+  const deleteTag = useMutation(api.tags.deleteTag);
+
+  if (!tagStats || tagStats.length === 0) return null;
+
+  return (
+    <Card className="bg-neutral-800 border-neutral-700 mt-6">
+      <CardContent className="p-6">
+        <h2 className="text-xl font-bold text-white mb-4">Tags</h2>
+        <div className="space-y-2">
+          {tagStats.map(tag => (
+            <div key={tag._id} className="group flex items-center gap-4 py-2 px-3 bg-neutral-900/50 rounded-lg">
+              <TagChip tag={tag} />
+              <div className="flex-1 h-2 bg-neutral-700 rounded-full overflow-hidden">
+                <div
+                  className="h-full rounded-full"
+                  style={{ width: `${tag.total > 0 ? (tag.completed / tag.total) * 100 : 0}%`, backgroundColor: tag.color }}
+                />
+              </div>
+              <div className="text-sm text-neutral-400 w-40 text-right">
+                <span className="text-white font-medium">{tag.total}</span> tasks · {tag.completed} done
+              </div>
+              <button
+                onClick={async () => {
+                  if (!window.confirm(`Delete the tag "${tag.name}"? It will be removed from all tasks.`)) return;
+                  try {
+                    await deleteTag({ id: tag._id });
+                  } catch (error) {
+                    onError(error instanceof Error ? error.message : 'Failed to delete tag');
+                  }
+                }}
+                className="text-xs text-neutral-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Delete tag"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function TrashView({ users, projectId, timeZone, onRestored, onPurged, onError }: {
+  users: { _id: string; name: string; thumbnailUrl: string | null; imageUrl: string | null }[] | undefined;
+  projectId: Id<"projects"> | undefined;
+  timeZone: string;
+  onRestored: (text: string) => void;
+  onPurged: (text: string) => void;
+  onError: (message: string) => void;
+}) {
+  const deletedTasks = useQuery(api.tasks.listDeleted, { projectId });
+  const restoreTask = useMutation(api.tasks.restoreTask);
+  const purgeTask = useMutation(api.tasks.purgeTask);
+  const [pendingTasks, setPendingTasks] = useState<Set<string>>(new Set());
+
+  const runAction = async (taskId: Id<"tasks">, action: () => Promise<void>) => {
+    setPendingTasks(prev => new Set(prev).add(taskId));
+    try {
+      await action();
+    } catch (error) {
+      onError(error instanceof Error ? error.message : 'Something went wrong');
+    } finally {
+      setPendingTasks(prev => {
+        const next = new Set(prev);
+        next.delete(taskId);
+        return next;
+      });
+    }
+  };
+
+  if (deletedTasks === undefined) {
+    return (
+      <div className="flex justify-center items-center py-20">
+        <div className="text-neutral-500 text-lg">Loading trash...</div>
+      </div>
+    );
+  }
+
+  if (deletedTasks.length === 0) {
+    return (
+      <div className="flex justify-center items-center py-20">
+        <div className="text-neutral-500 text-lg">Trash is empty</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      {deletedTasks.map((task) => {
+        const taskUser = users?.find(u => u._id === task.userId);
+        const isPending = pendingTasks.has(task._id);
+        return (
+          <div
+            key={task._id}
+            className={`flex items-center gap-4 rounded-xl px-5 py-4 bg-neutral-800 ${isPending ? 'opacity-70 animate-pulse' : ''}`}
+          >
+            {taskUser && (
+              <div className="w-10 h-10 rounded-full overflow-hidden border border-neutral-700/50 flex-shrink-0">
+                {taskUser.imageUrl ? (
+                  <img
+                    src={taskUser.thumbnailUrl ?? taskUser.imageUrl}
+                    alt={taskUser.name}
+                    className="w-full h-full object-cover"
+                    title={taskUser.name}
+                  />
+                ) : (
+                  <div className="w-full h-full bg-neutral-700/50 flex items-center justify-center text-neutral-400 text-sm">
+                    {taskUser.name.charAt(0)}
+                  </div>
+                )}
+              </div>
+            )}
+            <div className="flex-1 min-w-0">
+              <h3 className="text-base font-semibold truncate text-neutral-300">{task.text}</h3>
+              <p className="text-sm truncate text-neutral-500">
+                {task.description || "No description"}
+              </p>
+            </div>
+            <div className="hidden md:block text-center flex-shrink-0">
+              <div className="text-xs text-neutral-500">Deleted</div>
+              <div
+                className="text-sm font-medium text-white cursor-help"
+                title={task.deletedAt ? formatDateTime(task.deletedAt, timeZone) : undefined}
+              >
+                {formatRelativeTime(task.deletedAt, timeZone)}
+              </div>
+            </div>
+            <div className="flex gap-2 flex-shrink-0">
+              <Button
+                onClick={() => runAction(task._id, async () => {
+                  await restoreTask({ id: task._id });
+                  onRestored(task.text);
+                })}
+                disabled={isPending}
+                className="bg-neutral-700 hover:bg-neutral-600"
+              >
+                ↺ Restore
+              </Button>
+              <Button
+                onClick={() => {
+                  if (!window.confirm(`Permanently delete "${task.text}" and its history? This cannot be undone.`)) return;
+                  runAction(task._id, async () => {
+                    await purgeTask({ id: task._id });
+                    onPurged(task.text);
+                  });
+                }}
+                disabled={isPending}
+                className="bg-red-600 hover:bg-red-700"
+              >
+                Delete Forever
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+async function uploadFile(uploadUrl: string, file: File): Promise<Id<"_storage">> {
+  const response = await fetch(uploadUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': file.type },
+    body: file,
+  });
+  if (!response.ok) throw new Error('Failed to upload file');
+  const { storageId } = await response.json();
+  return storageId;
+}
+
+function UserRow({ user, onError, onSaved }: {
+  user: { _id: Id<"users">; name: string; imageUrl: string | null; thumbnailUrl: string | null; color?: string; deactivatedAt?: number };
+  onError: (message: string) => void;
+  onSaved: (message: string) => void;
+}) {
+  const updateUser = useMutation(api.users.updateUser);
+  const generateUploadUrl = useMutation(api.users.generateUploadUrl);
+  const setUserImage = useMutation(api.users.setUserImage);
+  const deactivateUser = useMutation(api.users.deactivateUser);
+  const reactivateUser = useMutation(api.users.reactivateUser);
+  const [name, setName] = useState(user.name);
+  const [color, setColor] = useState(user.color ?? '#808080');
+  const [isSaving, setIsSaving] = useState(false);
+  const isDeactivated = user.deactivatedAt !== undefined;
+  const hasChanges = name.trim() !== user.name || color.toUpperCase() !== (user.color ?? '#808080').toUpperCase();
+
+  const run = async (action: () => Promise<unknown>, message: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      onSaved(message);
+    } catch (error) {
+      onError(error instanceof Error ? error.message : 'Failed to update user');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className={`flex flex-wrap items-center gap-4 rounded-xl px-5 py-4 bg-neutral-800 ${isDeactivated ? 'opacity-60' : ''}`}>
+      <label className="w-12 h-12 rounded-full overflow-hidden border-2 flex-shrink-0 cursor-pointer relative group" style={{ borderColor: user.color ?? 'transparent' }} title="Change image">
+        {user.imageUrl ? (
+          <img
+            src={user.thumbnailUrl ?? user.imageUrl}
+            alt={user.name}
+            className="w-full h-full object-cover"
+          />
+        ) : (
+          <div className="w-full h-full bg-neutral-700/50 flex items-center justify-center text-neutral-400">
+            {user.name.charAt(0)}
+          </div>
+        )}
+        <div className="absolute inset-0 bg-black/50 hidden group-hover:flex items-center justify-center text-xs text-white">Edit</div>
+        <input
+          type="file"
+          accept="image/*"
+          className="hidden"
+          disabled={isSaving}
+          onChange={async (e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (!file) return;
+            run(async () => {
+              const storageId = await uploadFile(await generateUploadUrl(), file);
+              const result = await setUserImage({ id: user._id, storageId });
+              if (result) throw new Error(result.error);
+            }, `Updated image for ${user.name}`);
+          }}
+        />
+      </label>
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        maxLength={50}
+        className="flex-1 min-w-[160px] bg-neutral-900 text-white border border-neutral-700 rounded-lg px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-neutral-600"
+      />
+      <div className="flex items-center gap-2">
+        <input
+          type="color"
+          value={color}
+          onChange={(e) => setColor(e.target.value)}
+          className="w-10 h-9 bg-transparent border border-neutral-700 rounded cursor-pointer"
+          title="Color"
+        />
+        <span className="text-neutral-400 text-sm font-mono w-20">{color.toUpperCase()}</span>
+      </div>
+      <div className="flex gap-2 flex-shrink-0">
+        {user.imageUrl && (
+          <Button
+            onClick={() => run(() => setUserImage({ id: user._id }), `Removed image for ${user.name}`)}
+            disabled={isSaving}
+            className="bg-neutral-700 hover:bg-neutral-600"
+          >
+            Remove Image
+          </Button>
+        )}
+        <Button
+          onClick={() => run(() => updateUser({ id: user._id, name, color }), `Saved ${name.trim()}`)}
+          disabled={isSaving || !hasChanges || !name.trim()}
+          className="bg-blue-600 hover:bg-blue-700"
+        >
+          Save
+        </Button>
+        {isDeactivated ? (
+          <Button
+            onClick={() => run(() => reactivateUser({ id: user._id }), `${user.name} reactivated`)}
+            disabled={isSaving}
+            className="bg-green-600 hover:bg-green-700"
+          >
+            Reactivate
+          </Button>
+        ) : (
+          <Button
+            onClick={() => run(() => deactivateUser({ id: user._id }), `${user.name} deactivated`)}
+            disabled={isSaving}
+            className="bg-neutral-700 hover:bg-red-600"
+          >
+            Deactivate
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function UsersAdmin({ users, onError, onSaved }: {
+  users: { _id: Id<"users">; name: string; imageUrl: string | null; thumbnailUrl: string | null; color?: string; deactivatedAt?: number }[] | undefined;
+  onError: (message: string) => void;
+  onSaved: (message: string) => void;
+}) {
+  const createUser = useMutation(api.users.createUser);
+  const generateUploadUrl = useMutation(api.users.generateUploadUrl);
+  const setUserImage = useMutation(api.users.setUserImage);
+  const [name, setName] = useState('');
+  const [color, setColor] = useState('#808080');
+  const [imageFile, setImageFile] = useState<File | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || isSubmitting) return;
+    setIsSubmitting(true);
+    try {
+      const user = await createUser({ name, color });
+      if (user && imageFile) {
+        const storageId = await uploadFile(await generateUploadUrl(), imageFile);
+        const result = await setUserImage({ id: user._id, storageId });
+        if (result) throw new Error(result.error);
+      }
+      onSaved(`User "${name.trim()}" created`);
+      setName('');
+      setColor('#808080');
+      setImageFile(null);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    } catch (error) {
+      onError(error instanceof Error ? error.message : 'Failed to create user');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleSubmit} className="flex flex-wrap items-center gap-3 bg-neutral-800 rounded-xl p-3">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="New user name..."
+          maxLength={50}
+          className="flex-1 min-w-[200px] bg-neutral-900 text-white border border-neutral-700 rounded-lg px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-neutral-600 placeholder:text-neutral-500"
+        />
+        <input
+          type="color"
+          value={color}
+          onChange={(e) => setColor(e.target.value)}
+          className="w-10 h-9 bg-transparent border border-neutral-700 rounded cursor-pointer"
+          title="Color"
+        />
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          onChange={(e) => setImageFile(e.target.files?.[0] ?? null)}
+          className="text-sm text-neutral-400 file:mr-3 file:px-3 file:py-2 file:rounded-lg file:border-0 file:bg-neutral-700 file:text-white"
+        />
+        <Button
+          type="submit"
+          disabled={!name.trim() || isSubmitting}
+          className="bg-blue-600 hover:bg-blue-700"
+        >
+          {isSubmitting ? 'Adding...' : 'Add User'}
+        </Button>
+      </form>
+
+      {users === undefined ? (
+        <div className="flex justify-center items-center py-20">
+          <div className="text-neutral-500 text-lg">Loading users...</div>
+        </div>
+      ) : users.length === 0 ? (
+        <div className="flex justify-center items-center py-20">
+          <div className="text-neutral-500 text-lg">No users found</div>
+        </div>
+      ) : (
+        <div className="flex flex-col gap-3">
+          {users.map((user) => (
+            <UserRow
+              key={`${user._id}-${user.name}-${user.color}`}
+              user={user}
+              onError={onError}
+              onSaved={onSaved}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ActivityChart({ data, users, timeZone, mode, period, onModeChange, onPeriodChange }: {
+  data: { timeZone: string; points: ({ time: number } & Record<string, number>)[] } | undefined;
+  users: { _id: string; name: string; color?: string }[];
+  timeZone: string;
+  mode: ActivityMode;
+  period: ActivityPeriod;
+  onModeChange: (mode: ActivityMode) => void;
+  onPeriodChange: (period: ActivityPeriod) => void;
+}) {
+  // Fill in zeros for users without changes on a day; "total" mode shows running sums
+  const chartData = useMemo(() => {
+    if (!data) return [];
+    const runningTotals: Record<string, number> = {};
+    return data.points.map((day) => {
+      const point: Record<string, number> = { time: day.time };
+      for (const user of users) {
+        const count = day[user._id] ?? 0;
+        runningTotals[user._id] = (runningTotals[user._id] ?? 0) + count;
+        point[user._id] = mode === 'total' ? runningTotals[user._id] : count;
+      }
+      return point;
+    });
+  }, [data, users, mode]);
+
+  // Spread a handful of evenly spaced ticks over the period
+  const ticks = useMemo(() => {
+    if (chartData.length === 0) return [];
+    const intervals = Math.min(calculateIntervalCount(periodToDays(period)), chartData.length);
+    const step = Math.max(1, Math.floor((chartData.length - 1) / Math.max(1, intervals - 1)));
+    return chartData.filter((_, index) => index % step === 0).map((point) => point.time);
+  }, [chartData, period]);
+
+  // Days start at midnight in the zone the server bucketed them in
+  const formatDay = (time: number) => {
+    const date = getZonedParts(time, data?.timeZone ?? timeZone);
+    return `${date.day.toString().padStart(2, '0')}.${date.month.toString().padStart(2, '0')}`;
+  };
+
+  return (
+    <Card className="bg-neutral-800 border-neutral-700 mt-6">
+      <CardContent className="p-6">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-white">Activity</h2>
+            {data && data.timeZone !== timeZone && (
+              <div className="text-xs text-neutral-500 mt-1">
+                Shown in {data.timeZone} while activity for {timeZone} is being counted
+              </div>
+            )}
+          </div>
+          <div className="flex items-center gap-3">
+            <div className="flex items-center gap-1 bg-neutral-900 rounded-lg p-1">
+              {(['delta', 'total'] as ActivityMode[]).map((value) => (
+                <button
+                  key={value}
+                  onClick={() => onModeChange(value)}
+                  className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                    mode === value ? 'bg-neutral-600 text-white' : 'text-neutral-400 hover:text-white'
+                  }`}
+                >
+                  {value === 'delta' ? 'Per Day' : 'Total'}
+                </button>
+              ))}
+            </div>
+            <select
+              value={period}
+              onChange={(e) => onPeriodChange(e.target.value as ActivityPeriod)}
+              className="bg-neutral-900 text-white border border-neutral-700 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-neutral-600"
+            >
+              {ACTIVITY_PERIODS.map((value) => (
+                <option key={value} value={value}>Last {value}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        {data === undefined ? (
+          <div className="h-[300px] bg-neutral-700/30 rounded-lg animate-pulse" />
+        ) : (
+          <ResponsiveContainer width="100%" height={300}>
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#404040" />
+              <XAxis
+                dataKey="time"
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                ticks={ticks}
+                tickFormatter={formatDay}
+                stroke="#737373"
+                fontSize={12}
+              />
+              <YAxis allowDecimals={false} stroke="#737373" fontSize={12} />
+              <Tooltip
+                labelFormatter={(time) => formatDay(Number(time))}
+                contentStyle={{ backgroundColor: '#171717', border: '1px solid #404040', borderRadius: 8 }}
+              />
+              {users.map((user) => (
+                <Line
+                  key={user._id}
+                  type="monotone"
+                  dataKey={user._id}
+                  name={user.name}
+                  stroke={user.color ?? '#a3a3a3'}
+                  strokeWidth={2}
+                  dot={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Actual time over estimated, e.g. 1.5× for a task that took half again as long as planned
+function formatRatio(actual: number, estimated: number): string {
+  return estimated > 0 ? `${(actual / estimated).toFixed(2)}×` : '—';
 }
 
-function HistoryFilterChips({ 
-  showCompleted, 
-  showIncomplete,
-  showImportant,
-  showNotImportant,
-  onToggleCompleted, 
-  onToggleIncomplete,
-  onToggleImportant,
-  onToggleNotImportant
-}: { 
-  showCompleted: boolean; 
-  showIncomplete: boolean;
-  showImportant: boolean;
-  showNotImportant: boolean;
-  onToggleCompleted: () => void; 
-  onToggleIncomplete: () => void;
-  onToggleImportant: () => void;
-  onToggleNotImportant: () => void;
+// Ratios of actual time over estimate that getEstimateStats counts as on target
+type OnTargetBand = { minRatio: number; maxRatio: number };
+
+// Colors ratios by whether the estimate was within the on-target band
+function ratioClassName(actual: number, estimated: number, onTarget: OnTargetBand): string {
+  if (estimated <= 0) return 'text-neutral-500';
+  const ratio = actual / estimated;
+  if (ratio > onTarget.maxRatio) return 'text-red-400';
+  if (ratio < onTarget.minRatio) return 'text-sky-400';
+  return 'text-green-400';
+}
+
+function AccuracySummaryCard({ title, summary, onTarget }: {
+  title: string;
+  summary: { count: number; estimated: number; actual: number; overestimated: number; underestimated: number } | undefined;
+  onTarget: OnTargetBand;
 }) {
   return (
-    <div className="flex flex-wrap gap-2">
-      <button
-        onClick={onToggleCompleted}
-        className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
-          showCompleted 
-            ? "bg-green-600 text-white" 
-            : "bg-neutral-700 text-neutral-400 hover:bg-neutral-600"
-        }`}
-      >
-        ✓ Completed
-      </button>
-      <button
-        onClick={onToggleIncomplete}
-        className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
-          showIncomplete 
-            ? "bg-neutral-500 text-white" 
-            : "bg-neutral-700 text-neutral-400 hover:bg-neutral-600"
-        }`}
-      >
-        ○ Incomplete
-      </button>
-      <button
-        onClick={onToggleImportant}
-        className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
-          showImportant 
-            ? "bg-amber-500 text-white" 
-            : "bg-neutral-700 text-neutral-400 hover:bg-neutral-600"
-        }`}
-      >
-        ★ Important
-      </button>
-      <button
-        onClick={onToggleNotImportant}
-        className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
-          showNotImportant 
-            ? "bg-neutral-500 text-white" 
-            : "bg-neutral-700 text-neutral-400 hover:bg-neutral-600"
-        }`}
-      >
-        ☆ Not Important
-      </button>
+    <div className="bg-neutral-700/30 rounded-lg p-4 border border-neutral-700/50 flex-1 min-w-[200px]">
+      <div className="text-xs mb-1 text-neutral-500">{title}</div>
+      {summary ? (
+        <>
+          <div className={`text-2xl font-bold ${ratioClassName(summary.actual, summary.estimated, onTarget)}`}>
+            {formatRatio(summary.actual, summary.estimated)}
+          </div>
+          <div className="text-xs text-neutral-400 mt-1">
+            {summary.count} task{summary.count === 1 ? '' : 's'} · {formatDuration(summary.actual)} actual of {formatDuration(summary.estimated)} estimated
+          </div>
+          <div className="text-xs text-neutral-400 mt-1">
+            <span className="text-sky-400">{Math.round((summary.overestimated / summary.count) * 100)}% overestimated</span>
+            {' · '}
+            <span className="text-red-400">{Math.round((summary.underestimated / summary.count) * 100)}% underestimated</span>
+          </div>
+        </>
+      ) : (
+        <div className="text-2xl font-bold text-neutral-500">—</div>
+      )}
     </div>
   );
 }
 
-function TaskHistory({ taskId, showCompleted, showIncomplete, showImportant, showNotImportant }: { 
-  taskId: string; 
-  showCompleted: boolean; 
-  showIncomplete: boolean;
-  showImportant: boolean;
-  showNotImportant: boolean;
+// Stats sub-view comparing estimated duration with the actual time of completed tasks
+function EstimateAccuracy({ users, userIds, projectId, onSelectTask }: {
+  users: { _id: string; name: string }[] | undefined;
+  userIds: Id<"users">[];
+  projectId: Id<"projects"> | undefined;
+  onSelectTask: (taskId: string) => void;
 }) {
-  const history = useQuery(api.tasks.getTaskHistory, { taskId: taskId as any });
+  const stats = useQuery(api.tasks.getEstimateStats, {
+    projectId,
+    userIds: userIds.length > 0 ? userIds : undefined,
+  });
 
-  if (!history) {
-    return <div className="text-neutral-500 text-sm">Loading history...</div>;
+  if (stats === undefined) {
+    return (
+      <Card className="bg-neutral-800 border-neutral-700">
+        <CardContent className="p-6">
+          <div className="h-[400px] bg-neutral-700/30 rounded-lg animate-pulse" />
+        </CardContent>
+      </Card>
+    );
   }
 
-  if (history.length === 0) {
-    return <div className="text-neutral-500 text-sm">No status changes recorded yet.</div>;
+  if (stats.tasks.length === 0) {
+    return (
+      <div className="flex justify-center items-center py-20">
+        <div className="text-neutral-500 text-lg">No completed tasks with both an estimate and an actual time yet</div>
+      </div>
+    );
   }
 
-  // Filter history based on selected chips
-  const filteredHistory = history.filter(entry => {
-    const hasAnyFilter = showCompleted || showIncomplete || showImportant || showNotImportant;
-    if (!hasAnyFilter) return true; // Show all
-    
-    const isCompletionChange = !entry.changeType || entry.changeType === "completion";
-    const isImportanceChange = entry.changeType === "importance";
-    
-    if (isCompletionChange) {
-      if (showCompleted && entry.changedTo) return true;
-      if (showIncomplete && !entry.changedTo) return true;
-    }
-    
-    if (isImportanceChange) {
-      if (showImportant && entry.changedTo) return true;
-      if (showNotImportant && !entry.changedTo) return true;
+  const userName = (userId: string | undefined) => users?.find(u => u._id === userId)?.name ?? 'Unassigned';
+
+  return (
+    <>
+      <Card className="bg-neutral-800 border-neutral-700">
+        <CardContent className="p-6">
+          <h2 className="text-xl font-bold text-white mb-1">Estimate Accuracy</h2>
+          <div className="text-xs text-neutral-500 mb-4">
+            Actual time over estimated duration. Tasks that took {stats.onTarget.minRatio}–{stats.onTarget.maxRatio}× their estimate count as on target.
+          </div>
+          <div className="flex gap-4 flex-wrap">
+            <AccuracySummaryCard title="All tasks" summary={stats.overall} onTarget={stats.onTarget} />
+            <AccuracySummaryCard title="Quick (≤15 min)" summary={stats.byBucket.quick} onTarget={stats.onTarget} />
+            <AccuracySummaryCard title="Long (>15 min)" summary={stats.byBucket.long} onTarget={stats.onTarget} />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-neutral-800 border-neutral-700 mt-6">
+        <CardContent className="p-6">
+          <h2 className="text-xl font-bold text-white mb-4">Distribution</h2>
+          <ResponsiveContainer width="100%" height={300}>
+            <BarChart data={stats.distribution}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#404040" />
+              <XAxis dataKey="label" stroke="#737373" fontSize={12} />
+              <YAxis allowDecimals={false} stroke="#737373" fontSize={12} />
+              <Tooltip
+                cursor={{ fill: '#262626' }}
+                contentStyle={{ backgroundColor: '#171717', border: '1px solid #404040', borderRadius: 8 }}
+              />
+              <Legend />
+              <Bar dataKey="quick" name="Quick" stackId="bucket" fill="#38bdf8" />
+              <Bar dataKey="long" name="Long" stackId="bucket" fill="#a78bfa" />
+            </BarChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-neutral-800 border-neutral-700 mt-6">
+        <CardContent className="p-6">
+          <h2 className="text-xl font-bold text-white mb-4">Per User</h2>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-neutral-700">
+                  <th className="text-left py-2 px-2 text-sm font-semibold text-neutral-400">User</th>
+                  <th className="text-center py-2 px-2 text-sm font-semibold text-neutral-400">Tasks</th>
+                  <th className="text-center py-2 px-2 text-sm font-semibold text-neutral-400">Estimated</th>
+                  <th className="text-center py-2 px-2 text-sm font-semibold text-neutral-400">Actual</th>
+                  <th className="text-center py-2 px-2 text-sm font-semibold text-neutral-400">Ratio</th>
+                  <th className="text-center py-2 px-2 text-sm font-semibold text-neutral-400">Overestimated</th>
+                  <th className="text-center py-2 px-2 text-sm font-semibold text-neutral-400">Underestimated</th>
+                </tr>
+              </thead>
+              <tbody>
+                {Object.entries(stats.byUser)
+                  .sort(([a], [b]) => userName(a).localeCompare(userName(b)))
+                  .map(([userId, summary], index) => (
+                    <tr key={userId} className={`border-b border-neutral-800 ${index % 2 === 0 ? 'bg-neutral-800/50' : 'bg-neutral-900/50'}`}>
+                      <td className="py-2 px-2 text-white font-medium">{userName(userId)}</td>
+                      <td className="text-center py-2 px-2 text-white">{summary.count}</td>
+                      <td className="text-center py-2 px-2 text-white">{formatDuration(summary.estimated)}</td>
+                      <td className="text-center py-2 px-2 text-white">{formatDuration(summary.actual)}</td>
+                      <td className={`text-center py-2 px-2 font-medium ${ratioClassName(summary.actual, summary.estimated, stats.onTarget)}`}>
+                        {formatRatio(summary.actual, summary.estimated)}
+                      </td>
+                      <td className="text-center py-2 px-2 text-white">{Math.round((summary.overestimated / summary.count) * 100)}%</td>
+                      <td className="text-center py-2 px-2 text-white">{Math.round((summary.underestimated / summary.count) * 100)}%</td>
+                    </tr>
+                  ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-neutral-800 border-neutral-700 mt-6">
+        <CardContent className="p-6">
+          <h2 className="text-xl font-bold text-white mb-1">Per Task</h2>
+          <div className="text-xs text-neutral-500 mb-4">Furthest off first</div>
+          <div className="max-h-[480px] overflow-y-auto space-y-1">
+            {stats.tasks.map(task => (
+              <button
+                key={task._id}
+                onClick={() => onSelectTask(task._id)}
+                className="w-full flex items-center gap-4 py-2 px-3 bg-neutral-900/50 hover:bg-neutral-700/50 rounded-lg text-left text-sm transition-colors"
+              >
+                <span className="flex-1 text-white truncate">{task.text}</span>
+                <span className="w-28 text-neutral-400 truncate">{userName(task.userId)}</span>
+                <span className="w-36 text-neutral-400 text-right">
+                  {formatDuration(task.actual)} / {formatDuration(task.estimated)}
+                </span>
+                <span className={`w-16 text-right font-medium ${ratioClassName(task.actual, task.estimated, stats.onTarget)}`}>
+                  {formatRatio(task.actual, task.estimated)}
+                </span>
+              </button>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </>
+  );
+}
+
+const LATEST_CHANGES_PAGE_SIZE = 15;
+
+// Feed of changes across all tasks, newest first. Filters are applied on the server,
+// so changing them starts the feed over from the first page.
+function LatestChangesFeed({ userIds, projectId, timeZone, onSelectTask }: {
+  userIds: Id<"users">[];
+  projectId: Id<"projects"> | undefined;
+  timeZone: string;
+  onSelectTask: (taskId: string) => void;
+}) {
+  const [showCompleted, setShowCompleted] = useState(false);
+  const [showIncomplete, setShowIncomplete] = useState(false);
+  const [showPriorityRaised, setShowPriorityRaised] = useState(false);
+  const [showPriorityLowered, setShowPriorityLowered] = useState(false);
+  const [showStatusChanges, setShowStatusChanges] = useState(false);
+
+  const { results: changes, status, loadMore } = usePaginatedQuery(
+    api.tasks.getLatestChanges,
+    {
+      userIds: userIds.length > 0 ? userIds : undefined,
+      showCompleted: showCompleted || undefined,
+      showIncomplete: showIncomplete || undefined,
+      showPriorityRaised: showPriorityRaised || undefined,
+      showPriorityLowered: showPriorityLowered || undefined,
+      showStatusChanges: showStatusChanges || undefined,
+      projectId,
+    },
+    { initialNumItems: LATEST_CHANGES_PAGE_SIZE }
+  );
+
+  const describeChange = (entry: typeof changes[number]) => {
+    switch (entry.changeType) {
+      case "created":
+        return entry.relatedTaskId
+          ? { label: "+ Created from previous occurrence", className: "text-blue-400" }
+          : { label: "+ Created", className: "text-blue-400" };
+      case "recurrence":
+        return { label: "↻ Next occurrence created", className: "text-teal-400" };
+      case "unblocked":
+        return { label: "▶ Unblocked", className: "text-emerald-400" };
+      case "subtask":
+        return entry.changedTo
+          ? { label: `☑ Checked off: ${entry.subtaskText}`, className: "text-green-400" }
+          : { label: `☐ Unchecked: ${entry.subtaskText}`, className: "text-neutral-400" };
+      case "comment":
+        return { label: `💬 Commented: ${entry.commentText}`, className: "text-indigo-300" };
+      case "edit":
+        return { label: "✎ Edited", className: "text-sky-400" };
+      case "assignment":
+        return {
+          label: `⇄ ${entry.fromUser?.name ?? "Unassigned"} → ${entry.toUser?.name ?? "Unassigned"}`,
+          className: "text-violet-400",
+        };
+      case "importance":
+        return entry.changedTo
+          ? { label: "★ Important", className: "text-amber-400" }
+          : { label: "☆ Not Important", className: "text-neutral-400" };
+      case "priority":
+        return {
+          label: `${entry.changedTo ? "↑" : "↓"} Priority ${PRIORITIES[entry.fromPriority ?? DEFAULT_PRIORITY].label} → ${PRIORITIES[entry.toPriority ?? DEFAULT_PRIORITY].label}`,
+          className: entry.changedTo ? "text-amber-400" : "text-neutral-400",
+        };
+      case "status":
+        return { label: `⇢ ${entry.fromStatus ?? "No status"} → ${entry.toStatus}`, className: "text-cyan-400" };
+      default: {
+        const status = entry.toStatus ? ` · ${entry.toStatus}` : "";
+        return entry.changedTo
+          ? { label: `✓ Completed${status}`, className: "text-green-400" }
+          : { label: `○ Incomplete${status}`, className: "text-neutral-400" };
+      }
     }
-    
-    return false;
-  });
+  };
 
-  // Sort by changedAt descending (latest first)
-  const sortedHistory = [...filteredHistory].sort((a, b) => b.changedAt - a.changedAt);
+  return (
+    <Card className="bg-neutral-800 border-neutral-700 mt-6">
+      <CardContent className="p-6">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <h2 className="text-xl font-bold text-white">Latest Changes</h2>
+          <HistoryFilterChips
+            showCompleted={showCompleted}
+            showIncomplete={showIncomplete}
+            showPriorityRaised={showPriorityRaised}
+            showPriorityLowered={showPriorityLowered}
+            showStatusChanges={showStatusChanges}
+            onToggleCompleted={() => setShowCompleted(!showCompleted)}
+            onToggleIncomplete={() => setShowIncomplete(!showIncomplete)}
+            onTogglePriorityRaised={() => setShowPriorityRaised(!showPriorityRaised)}
+            onTogglePriorityLowered={() => setShowPriorityLowered(!showPriorityLowered)}
+            onToggleStatusChanges={() => setShowStatusChanges(!showStatusChanges)}
+          />
+        </div>
+        {status === 'LoadingFirstPage' ? (
+          <div className="space-y-2">
+            {Array.from({ length: 5 }).map((_, i) => (
+              <div key={i} className="h-14 bg-neutral-700/30 rounded-lg animate-pulse" />
+            ))}
+          </div>
+        ) : changes.length === 0 ? (
+          <div className="text-neutral-500 text-sm">No changes found.</div>
+        ) : (
+          <div className="space-y-2">
+            {changes.map((entry) => {
+              const { label, className } = describeChange(entry);
+              return (
+                <button
+                  key={entry._id}
+                  onClick={() => onSelectTask(entry.task._id)}
+                  className="w-full flex items-center gap-3 py-2 px-3 bg-neutral-900/50 hover:bg-neutral-700/50 rounded-lg text-left transition-colors"
+                >
+                  {entry.user?.imageUrl ? (
+                    <img src={entry.user.imageUrl} alt={entry.user.name} className="w-8 h-8 rounded-full object-cover flex-shrink-0" />
+                  ) : (
+                    <div className="w-8 h-8 rounded-full bg-neutral-700 flex items-center justify-center text-xs text-neutral-300 flex-shrink-0">
+                      {entry.user?.name.charAt(0).toUpperCase() ?? '?'}
+                    </div>
+                  )}
+                  <div className="min-w-0 flex-1">
+                    <div className="text-white text-sm truncate">{entry.task.text}</div>
+                    <div className={`text-sm ${className}`}>{label}</div>
+                  </div>
+                  <div className="text-neutral-500 text-xs text-right flex-shrink-0">
+                    {entry.actor && <div>{entry.actor.name}</div>}
+                    <div>{formatDateTime(entry.changedAt, timeZone)}</div>
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+        )}
+        {(status === 'CanLoadMore' || status === 'LoadingMore') && (
+          <div className="flex justify-center mt-4">
+            <Button
+              onClick={() => loadMore(LATEST_CHANGES_PAGE_SIZE)}
+              disabled={status === 'LoadingMore'}
+              className="bg-neutral-700 hover:bg-neutral-600"
+            >
+              {status === 'LoadingMore' ? 'Loading...' : 'Load more'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
 
-  if (sortedHistory.length === 0) {
-    return <div className="text-neutral-500 text-sm">No matching entries.</div>;
-  }
+// Bell in the header listing the signed-in user's notifications, e.g. due date reminders
+function NotificationsMenu({ timeZone, onSelectTask }: {
+  timeZone: string;
+  onSelectTask: (taskId: string) => void;
+}) {
+  const notifications = useQuery(api.notifications.listNotifications);
+  const markRead = useMutation(api.notifications.markNotificationRead);
+  const markAllRead = useMutation(api.notifications.markAllNotificationsRead);
+  const [isOpen, setIsOpen] = useState(false);
+
+  const unreadCount = notifications?.filter(notification => notification.readAt === undefined).length ?? 0;
 
   return (
-    <div className="space-y-2">
-      {sortedHistory.map((entry) => {
-        const isCompletionChange = !entry.changeType || entry.changeType === "completion";
-        const isImportanceChange = entry.changeType === "importance";
-        
-        return (
-          <div
-            key={entry._id}
-            className="flex justify-between items-center py-2 px-3 bg-neutral-800 rounded-lg"
-          >
-            <span className={
-              isImportanceChange 
-                ? (entry.changedTo ? "text-amber-400" : "text-neutral-400")
-                : (entry.changedTo ? "text-green-400" : "text-neutral-400")
-            }>
-              {isImportanceChange 
-                ? (entry.changedTo ? "★ Important" : "☆ Not Important")
-                : (entry.changedTo ? "✓ Completed" : "○ Incomplete")
-              }
-            </span>
-            <span className="text-neutral-500 text-sm">
-              {formatDateTime(entry.changedAt)}
-            </span>
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 rounded-lg text-neutral-400 hover:text-white hover:bg-neutral-800 transition-colors"
+        title="Notifications"
+      >
+        <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <path d="M18 8A6 6 0 0 0 6 8c0 7-3 9-3 9h18s-3-2-3-9" />
+          <path d="M13.73 21a2 2 0 0 1-3.46 0" />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-600 text-white text-[10px] font-bold flex items-center justify-center">
+            {unreadCount}
+          </span>
+        )}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-neutral-800 border border-neutral-700 rounded-xl shadow-xl z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-neutral-700">
+            <span className="text-sm font-semibold text-white">Notifications</span>
+            {unreadCount > 0 && (
+              <button
+                onClick={() => void markAllRead()}
+                className="text-xs text-neutral-400 hover:text-white transition-colors"
+              >
+                Mark all read
+              </button>
+            )}
           </div>
-        );
-      })}
+          <div className="max-h-96 overflow-y-auto">
+            {notifications === undefined ? (
+              <div className="px-4 py-6 text-sm text-neutral-500">Loading...</div>
+            ) : notifications.length === 0 ? (
+              <div className="px-4 py-6 text-sm text-neutral-500">No notifications yet.</div>
+            ) : (
+              notifications.map(notification => (
+                <button
+                  key={notification._id}
+                  onClick={() => {
+                    if (notification.readAt === undefined) void markRead({ id: notification._id });
+                    if (notification.task) onSelectTask(notification.task._id);
+                    setIsOpen(false);
+                  }}
+                  className={`w-full text-left px-4 py-3 border-b border-neutral-700/50 last:border-b-0 hover:bg-neutral-700/50 transition-colors ${
+                    notification.readAt === undefined ? 'bg-neutral-700/20' : ''
+                  }`}
+                >
+                  <div className={`text-sm ${notification.readAt === undefined ? 'text-white' : 'text-neutral-400'}`}>
+                    {notification.type === 'mention' ? (
+                      <>💬 {notification.actor?.name ?? 'Someone'} mentioned you on "{notification.task?.text ?? 'Deleted task'}"</>
+                    ) : (
+                      <>
+                        ⏰ "{notification.task?.text ?? 'Deleted task'}" is due
+                        {notification.dueAt !== undefined && ` at ${formatDueDate(notification.dueAt, timeZone)}`}
+                      </>
+                    )}
+                  </div>
+                  <div className="text-xs text-neutral-500 mt-1">
+                    {formatRelativeTime(notification._creationTime, timeZone)}
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -256,161 +3044,228 @@ function TaskHistory({ taskId, showCompleted, showIncomplete, showImportant, sho
 // Read initial values from URL
 function getInitialParams() {
   const params = new URLSearchParams(window.location.search);
-  const showCompleted = params.get('completed');
-  const showIncomplete = params.get('incomplete');
+  // Status names, one param each since names may contain commas
+  const selectedStatuses = params.getAll('status');
+  // Links from before statuses filter on completion, which is every done or every open status
+  const completionFilter = params.get('completed') === 'false' ? false : params.get('incomplete') === 'false' ? true : undefined;
   const durationFilter = params.get('duration') as DurationFilterType | null;
-  const importanceFilter = params.get('importance') as ImportanceFilterType | null;
+  const priorityParam = params.get('priority');
+  // Links from before priorities filter on importance, which is P0 and P1 now
+  const selectedPriorities = priorityParam !== null
+    ? priorityParam.split(',').map(Number).filter(level => PRIORITIES.some(priority => priority.value === level)) as Priority[]
+    : params.get('importance') === 'important' ? [0, 1] as Priority[] : [];
+  const dueFilter = params.get('due') as DueFilterType | null;
+  const blockedFilter = params.get('blocked') as BlockedFilterType | null;
   const sort = params.get('sort') as SortType | null;
   const view = params.get('view') as ViewMode | null;
   const tab = params.get('tab') as TabType | null;
+  const statsView = params.get('stats') as StatsView | null;
   const usersParam = params.get('users');
   const selectedUsers = usersParam ? usersParam.split(',').filter(Boolean) : [];
+  const tagsParam = params.get('tags');
+  const selectedTags = tagsParam ? tagsParam.split(',').filter(Boolean) : [];
+  const projectId = params.get('project') || undefined;
   
   return {
-    showCompleted: showCompleted === null ? true : showCompleted === 'true',
-    showIncomplete: showIncomplete === null ? true : showIncomplete === 'true',
+    selectedStatuses: new Set(selectedStatuses),
+    completionFilter,
     durationFilter: durationFilter && ['all', 'quick', 'long'].includes(durationFilter) ? durationFilter : 'all',
-    importanceFilter: importanceFilter && ['all', 'important', 'not-important'].includes(importanceFilter) ? importanceFilter : 'all',
-    sort: sort && ['latest', 'inactive', 'newest', 'oldest', 'frequent', 'unfrequent', 'quickest', 'longest'].includes(sort) ? sort : 'latest',
+    dueFilter: dueFilter && ['all', 'overdue', 'today'].includes(dueFilter) ? dueFilter : 'all',
+    blockedFilter: blockedFilter && ['all', 'blocked', 'unblocked'].includes(blockedFilter) ? blockedFilter : 'all',
+    sort: sort && ['latest', 'inactive', 'newest', 'oldest', 'frequent', 'unfrequent', 'quickest', 'longest', 'due', 'priority'].includes(sort) ? sort : 'latest',
     viewMode: view && ['compact', 'extended', 'list'].includes(view) ? view : 'compact',
-    tab: tab && ['tasks', 'stats'].includes(tab) ? tab : 'tasks',
+    tab: tab && ['tasks', 'stats', 'trash', 'users'].includes(tab) ? tab : 'tasks',
+    statsView: statsView && ['overview', 'estimates'].includes(statsView) ? statsView : 'overview',
     selectedUsers: new Set(selectedUsers),
+    selectedTags: new Set(selectedTags),
+    selectedPriorities: new Set(selectedPriorities),
+    projectId: projectId as Id<"projects"> | undefined,
   };
 }
 
 function App() {
   const initialParams = getInitialParams();
-  const [showCompleted, setShowCompleted] = useState(initialParams.showCompleted);
-  const [showIncomplete, setShowIncomplete] = useState(initialParams.showIncomplete);
+  const [selectedStatuses, setSelectedStatuses] = useState<Set<string>>(initialParams.selectedStatuses);
+  const [completionFilter, setCompletionFilter] = useState<boolean | undefined>(initialParams.completionFilter);
   const [durationFilter, setDurationFilter] = useState<DurationFilterType>(initialParams.durationFilter);
-  const [importanceFilter, setImportanceFilter] = useState<ImportanceFilterType>(initialParams.importanceFilter);
+  const [dueFilter, setDueFilter] = useState<DueFilterType>(initialParams.dueFilter);
+  const [blockedFilter, setBlockedFilter] = useState<BlockedFilterType>(initialParams.blockedFilter);
   const [sort, setSort] = useState<SortType>(initialParams.sort);
   const [viewMode, setViewMode] = useState<ViewMode>(initialParams.viewMode);
   const [activeTab, setActiveTab] = useState<TabType>(initialParams.tab);
+  const [statsView, setStatsView] = useState<StatsView>(initialParams.statsView);
   const [statsSortColumn, setStatsSortColumn] = useState<StatsSortColumn>('lastActive');
   const [statsSortDirection, setStatsSortDirection] = useState<SortDirection>('desc');
   const [searchQuery, setSearchQuery] = useState<string>('');
   const [debouncedSearchQuery, setDebouncedSearchQuery] = useState<string>('');
   const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
+  const [isEditingTask, setIsEditingTask] = useState(false);
   const [historyShowCompleted, setHistoryShowCompleted] = useState(false);
   const [historyShowIncomplete, setHistoryShowIncomplete] = useState(false);
-  const [historyShowImportant, setHistoryShowImportant] = useState(false);
-  const [historyShowNotImportant, setHistoryShowNotImportant] = useState(false);
-  const [latestChangesShowCompleted, setLatestChangesShowCompleted] = useState(false);
-  const [latestChangesShowIncomplete, setLatestChangesShowIncomplete] = useState(false);
-  const [latestChangesShowImportant, setLatestChangesShowImportant] = useState(false);
-  const [latestChangesShowNotImportant, setLatestChangesShowNotImportant] = useState(false);
-  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [historyShowPriorityRaised, setHistoryShowPriorityRaised] = useState(false);
+  const [historyShowPriorityLowered, setHistoryShowPriorityLowered] = useState(false);
+  const [historyShowStatusChanges, setHistoryShowStatusChanges] = useState(false);
   const [selectedUsers, setSelectedUsers] = useState<Set<string>>(initialParams.selectedUsers);
-  const [latestChangesCursor, setLatestChangesCursor] = useState<number | null>(null);
-  const [accumulatedChanges, setAccumulatedChanges] = useState<any[]>([]);
-  const [activityMode, setActivityMode] = useState<'delta' | 'total'>('delta');
-  const [activityPeriod, setActivityPeriod] = useState<'5 days' | '10 days' | '15 days' | '1 month' | '2 months' | '3 months' | '6 months' | '1 year'>('5 days');
+  const [selectedTags, setSelectedTags] = useState<Set<string>>(initialParams.selectedTags);
+  const [selectedPriorities, setSelectedPriorities] = useState<Set<Priority>>(initialParams.selectedPriorities);
+  const [projectId, setProjectId] = useState<Id<"projects"> | undefined>(initialParams.projectId);
+  const [activityMode, setActivityMode] = useState<ActivityMode>('delta');
+  const [activityPeriod, setActivityPeriod] = useState<ActivityPeriod>('5 days');
   
   // Fetch all users
   const users = useQuery(api.tasks.getAllUsers);
+  const allTags = useQuery(api.tags.listTags);
+  const projects = useQuery(api.projects.listProjects, { includeArchived: true });
+  const allStatuses = useQuery(api.statuses.listStatuses, {});
   
-  // Fetch latest changes (paginated) - DISABLED FOR PERFORMANCE
-  // const latestChangesPage = useQuery(api.tasks.getLatestChanges, {
-  //   limit: 15,
-  //   cursor: latestChangesCursor ?? undefined,
-  //   userIds: selectedUsers.size > 0 ? Array.from(selectedUsers) as any : undefined,
-  //   showCompleted: latestChangesShowCompleted || undefined,
-  //   showIncomplete: latestChangesShowIncomplete || undefined,
-  //   showImportant: latestChangesShowImportant || undefined,
-  //   showNotImportant: latestChangesShowNotImportant || undefined,
-  // });
-  const latestChangesPage = undefined;
-  
-  // Fetch changes over time for chart - DISABLED FOR PERFORMANCE
-  // const changesOverTime = useQuery(api.tasks.getChangesOverTime, {
-  //   userIds: selectedUsers.size > 0 ? Array.from(selectedUsers) as any : undefined,
-  //   days: periodToDays(activityPeriod),
-  // });
-  const changesOverTime: any[] | undefined = undefined;
-  
-  // DISABLED FOR PERFORMANCE - Related effects and values
-  // Reset accumulated changes when selectedUsers or filters change
-  // useEffect(() => {
-  //   setAccumulatedChanges([]);
-  //   setLatestChangesCursor(null);
-  //   setIsLoadingMore(false);
-  //   lastProcessedPageRef.current = null;
-  // }, [selectedUsers, latestChangesShowCompleted, latestChangesShowIncomplete, latestChangesShowImportant, latestChangesShowNotImportant]);
+  // Status filters go by name, so "In review" picks that status in every project's workflow.
+  // Only the selected project's statuses are offered while one is selected.
+  const filterStatuses = (allStatuses ?? []).filter(status => !projectId || status.projectId === projectId);
+  const statusFilterOptions = filterStatuses.filter((status, index) =>
+    filterStatuses.findIndex(other => other.name === status.name) === index
+  );
+  const selectedStatusNames = completionFilter !== undefined
+    ? new Set(filterStatuses.filter(status => status.isDone === completionFilter).map(status => status.name))
+    : selectedStatuses;
+  const selectedStatusList = filterStatuses.filter(status => selectedStatusNames.has(status.name));
+  const selectedStatusIds = selectedStatusList.map(status => status._id);
+  // Old completion links filter on done-ness alone. Otherwise, when the selected statuses are all
+  // done or all open, tasks not migrated to statuses yet are matched by isCompleted.
+  const selectedIsCompleted = completionFilter ?? (
+    selectedStatusList.length > 0 && selectedStatusList.every(status => status.isDone === selectedStatusList[0].isDone)
+      ? selectedStatusList[0].isDone
+      : undefined
+  );
   
-  // Track the last processed page to avoid duplicate processing
-  const lastProcessedPageRef = useRef<string | null>(null);
+  const toggleStatusFilter = (name: string) => {
+    const next = new Set(selectedStatusNames);
+    if (next.has(name)) next.delete(name);
+    else next.add(name);
+    setSelectedStatuses(next);
+    setCompletionFilter(undefined);
+  };
   
-  // Accumulate changes when new page loads - DISABLED
-  // useEffect(() => { ... }, [latestChangesPage, latestChangesCursor]);
+  // Signed-in user, shown in the header
+  const viewer = useQuery(api.users.viewer);
+  const { signOut } = useAuthActions();
+  const setTimeZone = useMutation(api.users.setTimeZone);
   
-  // Reset last processed page when selectedUsers changes - DISABLED
-  // useEffect(() => { lastProcessedPageRef.current = null; }, [selectedUsers]);
+  // Dates and activity days are shown in the viewer's zone
+  const timeZone = viewer?.timeZone ?? 'UTC';
   
-  // Changes are already filtered on the server, so use accumulatedChanges directly
-  const latestChanges: any[] = [];
-  const hasMoreChanges = false;
-  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // Start users off in their browser's zone the first time they sign in
+  useEffect(() => {
+    if (viewer && viewer.timeZone === undefined) {
+      const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+      if (browserTimeZone) void setTimeZone({ timeZone: browserTimeZone });
+    }
+  }, [viewer, setTimeZone]);
   
-  // Track when new page data arrives to clear loading state - DISABLED
-  // useEffect(() => { ... }, [latestChangesPage, latestChangesCursor, isLoadingMore]);
+  // Fetch per-user hand-off counts for the stats tab
+  const assignmentStats = useQuery(api.tasks.getAssignmentStats, { projectId });
+  const actorStats = useQuery(api.tasks.getActorStats, { projectId });
+  const timeStats = useQuery(api.timeEntries.getTimeStats, { projectId });
   
-  // Load more latest changes button handler - DISABLED
-  const loadMoreLatestChanges = useCallback(() => {}, []);
+  // Fetch changes over time for chart (served from the dailyActivity rollup)
+  const changesOverTime = useQuery(
+    api.tasks.getChangesOverTime,
+    activeTab === 'stats'
+      ? {
+          userIds: selectedUsers.size > 0 ? Array.from(selectedUsers) as Id<"users">[] : undefined,
+          days: periodToDays(activityPeriod),
+          timeZone,
+          projectId,
+        }
+      : 'skip'
+  );
   
   // Debounce search query (400ms delay)
   useEffect(() => {
     const timer = setTimeout(() => {
       setDebouncedSearchQuery(searchQuery);
-      setVisibleCount(PAGE_SIZE);
     }, 400);
     
     return () => clearTimeout(timer);
   }, [searchQuery]);
   
-  // Toggle handlers that ensure at least one is always selected
-  const toggleShowCompleted = () => {
-    if (showCompleted && !showIncomplete) return; // Can't deselect if it's the only one
-    setShowCompleted(!showCompleted);
-    setVisibleCount(PAGE_SIZE);
-  };
-  
-  const toggleShowIncomplete = () => {
-    if (showIncomplete && !showCompleted) return; // Can't deselect if it's the only one
-    setShowIncomplete(!showIncomplete);
-    setVisibleCount(PAGE_SIZE);
-  };
-  
   // Update URL when filters/sort/view/tab change
   useEffect(() => {
     const params = new URLSearchParams();
-    if (!showCompleted) params.set('completed', 'false');
-    if (!showIncomplete) params.set('incomplete', 'false');
+    // Old completion links keep their meaning until a status chip is clicked
+    if (completionFilter === false) params.set('completed', 'false');
+    if (completionFilter === true) params.set('incomplete', 'false');
+    for (const name of selectedStatuses) params.append('status', name);
     if (durationFilter !== 'all') params.set('duration', durationFilter);
-    if (importanceFilter !== 'all') params.set('importance', importanceFilter);
+    if (dueFilter !== 'all') params.set('due', dueFilter);
+    if (blockedFilter !== 'all') params.set('blocked', blockedFilter);
     if (sort !== 'latest') params.set('sort', sort);
     if (viewMode !== 'compact') params.set('view', viewMode);
     if (activeTab !== 'tasks') params.set('tab', activeTab);
+    if (activeTab === 'stats' && statsView !== 'overview') params.set('stats', statsView);
     if (selectedUsers.size > 0) params.set('users', Array.from(selectedUsers).join(','));
+    if (selectedTags.size > 0) params.set('tags', Array.from(selectedTags).join(','));
+    if (selectedPriorities.size > 0) params.set('priority', Array.from(selectedPriorities).sort().join(','));
+    if (projectId) params.set('project', projectId);
     
     const newUrl = params.toString() 
       ? `${window.location.pathname}?${params.toString()}`
       : window.location.pathname;
     
     window.history.replaceState({}, '', newUrl);
-  }, [showCompleted, showIncomplete, durationFilter, importanceFilter, sort, viewMode, activeTab, selectedUsers]);
+  }, [selectedStatuses, completionFilter, durationFilter, dueFilter, blockedFilter, sort, viewMode, activeTab, statsView, selectedUsers, selectedTags, selectedPriorities, projectId]);
   
-  const allTasksQuery = useQuery(api.tasks.listAllWithHistoryCount, { 
-    searchQuery: debouncedSearchQuery.trim() || undefined,
-    userIds: selectedUsers.size > 0 ? Array.from(selectedUsers) as any[] : undefined
-  });
-  const isLoading = allTasksQuery === undefined;
+  // Filtering, sorting and paging all happen on the server
+  const {
+    results: tasks,
+    status: tasksStatus,
+    loadMore,
+  } = usePaginatedQuery(
+    api.tasks.listTasks,
+    // Status names can't be matched to ids until the statuses load
+    selectedStatuses.size > 0 && completionFilter === undefined && allStatuses === undefined ? 'skip' : {
+      filters: {
+        statusIds: completionFilter === undefined && selectedStatusIds.length > 0 ? selectedStatusIds : undefined,
+        isCompleted: selectedIsCompleted,
+        durationFilter,
+        priorities: selectedPriorities.size > 0 ? Array.from(selectedPriorities) : undefined,
+        dueFilter,
+        blockedFilter,
+        userIds: selectedUsers.size > 0 ? Array.from(selectedUsers) as Id<"users">[] : undefined,
+        tagIds: selectedTags.size > 0 ? Array.from(selectedTags) as Id<"tags">[] : undefined,
+        projectId,
+      },
+      sort,
+      searchQuery: debouncedSearchQuery.trim() || undefined,
+    },
+    { initialNumItems: PAGE_SIZE }
+  );
+  const isLoading = tasksStatus === 'LoadingFirstPage';
+  
+  // The stats tab aggregates over every task, so only fetch them all while it's open
+  const allTasksQuery = useQuery(
+    api.tasks.listAllWithHistoryCount,
+    activeTab === 'stats'
+      ? {
+          searchQuery: debouncedSearchQuery.trim() || undefined,
+          userIds: selectedUsers.size > 0 ? Array.from(selectedUsers) as Id<"users">[] : undefined,
+          projectId,
+        }
+      : 'skip'
+  );
+  const isStatsLoading = allTasksQuery === undefined;
   const allTasks = allTasksQuery ?? [];
   
   const toggleCompleted = useMutation(api.tasks.toggleCompleted);
-  const toggleImportant = useMutation(api.tasks.toggleImportant);
+  const setTaskPriority = useMutation(api.tasks.setPriority);
+  const setTaskStatus = useMutation(api.tasks.setStatus);
+  const deleteTask = useMutation(api.tasks.deleteTask);
+  const reassignTask = useMutation(api.tasks.reassignTask);
+  const moveTask = useMutation(api.tasks.updateTask);
+  const [reassigningTasks, setReassigningTasks] = useState<Set<string>>(new Set());
   const [togglingTasks, setTogglingTasks] = useState<Set<string>>(new Set());
-  const [togglingImportance, setTogglingImportance] = useState<Set<string>>(new Set());
+  // Minutes typed into the drawer for the task it was typed for, sent when completing it
+  const [actualMinutes, setActualMinutes] = useState<{ taskId: string; value: string } | null>(null);
+  const [togglingPriority, setTogglingPriority] = useState<Set<string>>(new Set());
   const [toasts, setToasts] = useState<Toast[]>([]);
 
   const addToast = useCallback((message: string, type: ToastType) => {
@@ -423,59 +3278,15 @@ function App() {
   }, []);
   
   // Look up the selected task from fresh query data
-  const selectedTask = selectedTaskId ? allTasks?.find(t => t._id === selectedTaskId) ?? null : null;
+  // (falls back to the row from the list while the task query loads)
+  const selectedTaskQuery = useQuery(
+    api.tasks.getTask,
+    selectedTaskId ? { id: selectedTaskId as Id<"tasks"> } : 'skip'
+  );
+  const selectedTask = selectedTaskId
+    ? (selectedTaskQuery === undefined ? tasks.find(t => t._id === selectedTaskId) ?? null : selectedTaskQuery)
+    : null;
   
-  // Sort and filter tasks
-  const sortedAndFilteredTasks = useMemo(() => {
-    // First filter by status
-    let filtered = allTasks.filter(task => {
-      if (showCompleted && showIncomplete) return true;
-      if (showCompleted && task.isCompleted) return true;
-      if (showIncomplete && !task.isCompleted) return true;
-      return false;
-    });
-    
-    // Then filter by duration
-    filtered = filtered.filter(task => {
-      if (durationFilter === 'all') return true;
-      const duration = task.duration ?? 0;
-      if (durationFilter === 'quick') return duration <= 15;
-      if (durationFilter === 'long') return duration > 15;
-      return true;
-    });
-    
-    // Then filter by importance
-    filtered = filtered.filter(task => {
-      if (importanceFilter === 'all') return true;
-      if (importanceFilter === 'important') return task.isImportant === true;
-      if (importanceFilter === 'not-important') return !task.isImportant;
-      return true;
-    });
-    
-    // Then sort
-    return filtered.sort((a, b) => {
-      switch (sort) {
-        case 'latest':
-          return (b.updatedAt ?? 0) - (a.updatedAt ?? 0);
-        case 'inactive':
-          return (a.updatedAt ?? 0) - (b.updatedAt ?? 0);
-        case 'newest':
-          return (b.createdAt ?? 0) - (a.createdAt ?? 0);
-        case 'oldest':
-          return (a.createdAt ?? 0) - (b.createdAt ?? 0);
-        case 'frequent':
-          return b.historyCount - a.historyCount;
-        case 'unfrequent':
-          return a.historyCount - b.historyCount;
-        case 'quickest':
-          return (a.duration ?? 0) - (b.duration ?? 0);
-        case 'longest':
-          return (b.duration ?? 0) - (a.duration ?? 0);
-        default:
-          return 0;
-      }
-    });
-  }, [allTasks, showCompleted, showIncomplete, durationFilter, importanceFilter, sort]);
   
   // Calculate user statistics
   const userStats = useMemo(() => {
@@ -486,7 +3297,7 @@ function App() {
       
       const completed = userTasks.filter(task => task.isCompleted).length;
       const incomplete = userTasks.filter(task => !task.isCompleted).length;
-      const important = userTasks.filter(task => task.isImportant).length;
+      const important = userTasks.filter(task => isTopPriority(task)).length;
       const changes = userTasks.reduce((sum, task) => sum + task.historyCount, 0);
       
       // Find the most recent updatedAt among user's tasks
@@ -505,6 +3316,17 @@ function App() {
       // Count long tasks (duration > 15 minutes)
       const long = userTasks.filter(task => (task.duration ?? 0) > 15).length;
       
+      // Count tasks handed to and away from this user
+      const received = assignmentStats?.[user._id]?.received ?? 0;
+      const handedOff = assignmentStats?.[user._id]?.handedOff ?? 0;
+      
+      // Count changes this user made, including the ones on other people's tasks
+      const changesMade = actorStats?.[user._id]?.changesMade ?? 0;
+      const onOthersTasks = actorStats?.[user._id]?.onOthersTasks ?? 0;
+      
+      // Time this user tracked, on anyone's tasks
+      const tracked = timeStats?.[user._id]?.trackedMs ?? 0;
+      
       return {
         user,
         completed,
@@ -515,6 +3337,11 @@ function App() {
         inactive,
         short,
         long,
+        received,
+        handedOff,
+        changesMade,
+        onOthersTasks,
+        tracked,
       };
     });
     
@@ -560,6 +3387,26 @@ function App() {
           aValue = a.long;
           bValue = b.long;
           break;
+        case 'received':
+          aValue = a.received;
+          bValue = b.received;
+          break;
+        case 'handedOff':
+          aValue = a.handedOff;
+          bValue = b.handedOff;
+          break;
+        case 'changesMade':
+          aValue = a.changesMade;
+          bValue = b.changesMade;
+          break;
+        case 'onOthersTasks':
+          aValue = a.onOthersTasks;
+          bValue = b.onOthersTasks;
+          break;
+        case 'tracked':
+          aValue = a.tracked;
+          bValue = b.tracked;
+          break;
       }
       
       if (aValue === undefined && bValue === undefined) return 0;
@@ -577,7 +3424,7 @@ function App() {
     });
     
     return sorted;
-  }, [users, allTasks, statsSortColumn, statsSortDirection]);
+  }, [users, allTasks, assignmentStats, actorStats, timeStats, statsSortColumn, statsSortDirection]);
   
   // Filter user stats based on selected users
   const filteredUserStats = useMemo(() => {
@@ -600,15 +3447,15 @@ function App() {
   };
   
   // Paginate for infinite scroll
-  const visibleTasks = sortedAndFilteredTasks.slice(0, visibleCount);
-  const hasMore = visibleCount < sortedAndFilteredTasks.length;
+  const visibleTasks = tasks;
+  const hasMore = tasksStatus === 'CanLoadMore' || tasksStatus === 'LoadingMore';
   const loadMoreRef = useRef<HTMLDivElement>(null);
 
   const handleLoadMore = useCallback(() => {
-    if (hasMore) {
-      setVisibleCount(prev => prev + PAGE_SIZE);
+    if (tasksStatus === 'CanLoadMore') {
+      loadMore(PAGE_SIZE);
     }
-  }, [hasMore]);
+  }, [tasksStatus, loadMore]);
 
   // Infinite scroll with IntersectionObserver
   useEffect(() => {
@@ -644,15 +3491,36 @@ function App() {
     }
   };
 
-  const handleToggleImportant = async (e: React.MouseEvent, task: Task) => {
-    e.stopPropagation();
-    const wasImportant = task.isImportant;
-    setTogglingImportance(prev => new Set(prev).add(task._id));
+  const handleSetPriority = async (task: Task, priority: Priority) => {
+    const wasRaised = priority < getPriority(task);
+    setTogglingPriority(prev => new Set(prev).add(task._id));
+    try {
+      await setTaskPriority({ id: task._id as Id<"tasks">, priority });
+      addToast(`Priority set to ${PRIORITIES[priority].label} ${PRIORITIES[priority].name}`, wasRaised ? 'important' : 'not-important');
+    } catch (error) {
+      addToast(error instanceof Error ? error.message : 'Failed to set priority', 'error');
+    } finally {
+      setTogglingPriority(prev => {
+        const next = new Set(prev);
+        next.delete(task._id);
+        return next;
+      });
+    }
+  };
+
+  const handleSetStatus = async (task: Task, statusId: Id<"statuses">) => {
+    const status = allStatuses?.find(s => s._id === statusId);
+    setTogglingTasks(prev => new Set(prev).add(task._id));
     try {
-      await toggleImportant({ id: task._id as any });
-      addToast(`Task marked as ${wasImportant ? 'not important' : 'important'}`, wasImportant ? 'not-important' : 'important');
+      await setTaskStatus({ id: task._id as Id<"tasks">, statusId });
+      if (status) {
+        const completionChanged = status.isDone !== task.isCompleted;
+        addToast(`Task moved to ${status.name}`, completionChanged ? (status.isDone ? 'completed' : 'incomplete') : 'updated');
+      }
+    } catch (error) {
+      addToast(error instanceof Error ? error.message : 'Failed to set status', 'error');
     } finally {
-      setTogglingImportance(prev => {
+      setTogglingTasks(prev => {
         const next = new Set(prev);
         next.delete(task._id);
         return next;
@@ -669,7 +3537,15 @@ function App() {
     { value: 'unfrequent', label: 'Unfrequent' },
     { value: 'quickest', label: 'Quickest' },
     { value: 'longest', label: 'Longest' },
+    { value: 'due', label: 'Due Soonest' },
+    { value: 'priority', label: 'Priority' },
   ];
+  // Search results and tag-filtered lists come back in an order of their own, so the sort doesn't apply
+  const fixedOrder = debouncedSearchQuery.trim()
+    ? { value: 'relevance', label: 'Relevance', title: 'Search results are sorted by relevance' }
+    : selectedTags.size > 0
+      ? { value: 'tagged', label: 'Recently Tagged', title: 'Tag-filtered tasks are listed by when they were tagged' }
+      : null;
 
   return (
     <div className="min-h-screen w-full bg-neutral-900">
@@ -677,28 +3553,57 @@ function App() {
         {/* Fixed Header with Filters */}
         <div className="sticky top-0 z-10 bg-neutral-900/95 backdrop-blur-sm border-b border-neutral-800 px-6 py-6">
           <div className="flex items-center justify-between mb-4">
-            <h1 className="text-3xl font-bold text-white">Konoha Task Manager</h1>
+            <div className="flex items-center gap-6">
+              <h1 className="text-3xl font-bold text-white">Konoha Task Manager</h1>
+              <ProjectSwitcher
+                projects={projects}
+                projectId={projectId}
+                viewerId={viewer?._id}
+                onChange={setProjectId}
+                onError={(message) => addToast(message, 'error')}
+              />
+            </div>
             {/* Tabs */}
             <div className="flex items-center gap-1 bg-neutral-800 rounded-lg p-1">
               <button
-                onClick={() => setActiveTab('tasks')}
+                onClick={() => setActiveTab('tasks')}
+                className={`px-4 py-2 rounded-md transition-colors font-medium ${
+                  activeTab === 'tasks'
+                    ? 'bg-neutral-600 text-white'
+                    : 'text-neutral-400 hover:text-white'
+                }`}
+              >
+                Tasks
+              </button>
+              <button
+                onClick={() => setActiveTab('stats')}
+                className={`px-4 py-2 rounded-md transition-colors font-medium ${
+                  activeTab === 'stats'
+                    ? 'bg-neutral-600 text-white'
+                    : 'text-neutral-400 hover:text-white'
+                }`}
+              >
+                Stats
+              </button>
+              <button
+                onClick={() => setActiveTab('trash')}
                 className={`px-4 py-2 rounded-md transition-colors font-medium ${
-                  activeTab === 'tasks'
+                  activeTab === 'trash'
                     ? 'bg-neutral-600 text-white'
                     : 'text-neutral-400 hover:text-white'
                 }`}
               >
-                Tasks
+                Trash
               </button>
               <button
-                onClick={() => setActiveTab('stats')}
+                onClick={() => setActiveTab('users')}
                 className={`px-4 py-2 rounded-md transition-colors font-medium ${
-                  activeTab === 'stats'
+                  activeTab === 'users'
                     ? 'bg-neutral-600 text-white'
                     : 'text-neutral-400 hover:text-white'
                 }`}
               >
-                Stats
+                Users
               </button>
             </div>
             {/* User images */}
@@ -717,18 +3622,17 @@ function App() {
                           newSelected.add(user._id);
                         }
                         setSelectedUsers(newSelected);
-                        setVisibleCount(PAGE_SIZE);
                       }}
                       className={`w-8 h-8 rounded-full overflow-hidden flex-shrink-0 transition-all relative ${
                         isSelected 
                           ? '' 
                           : 'border border-neutral-700/50 hover:border-neutral-600'
-                      } ${!user.image ? (isSelected ? 'bg-blue-500/20' : 'bg-neutral-700/50') : 'bg-transparent'}`}
+                      } ${!user.imageUrl ? (isSelected ? 'bg-blue-500/20' : 'bg-neutral-700/50') : 'bg-transparent'}`}
                       title={user.name}
                     >
-                      {user.image ? (
+                      {user.imageUrl ? (
                         <img
-                          src={`data:image/jpeg;base64,${user.image}`}
+                          src={user.thumbnailUrl ?? user.imageUrl}
                           alt={user.name}
                           className={`w-full h-full object-cover absolute inset-0 ${isSelected ? 'opacity-100' : 'opacity-50'}`}
                           style={{ display: 'block' }}
@@ -745,39 +3649,69 @@ function App() {
                 })}
               </div>
             )}
+            {viewer && (
+              <div className="flex items-center gap-3 pl-4 border-l border-neutral-800">
+                <span className="text-sm text-neutral-400">
+                  Signed in as <span className="text-white font-medium">{viewer.name}</span>
+                </span>
+                <RunningTimer onSelectTask={setSelectedTaskId} onError={(message) => addToast(message, 'error')} />
+                <NotificationsMenu timeZone={timeZone} onSelectTask={setSelectedTaskId} />
+                <select
+                  value={timeZone}
+                  onChange={async (e) => {
+                    try {
+                      await setTimeZone({ timeZone: e.target.value });
+                    } catch (error) {
+                      addToast(error instanceof Error ? error.message : 'Failed to change time zone', 'error');
+                    }
+                  }}
+                  title="Time zone"
+                  className="bg-neutral-800 text-white border border-neutral-700 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-neutral-600"
+                >
+                  {(TIME_ZONES.includes(timeZone) ? TIME_ZONES : [timeZone, ...TIME_ZONES]).map((zone) => (
+                    <option key={zone} value={zone}>{zone}</option>
+                  ))}
+                </select>
+                <Button
+                  onClick={() => void signOut()}
+                  className="bg-neutral-700 hover:bg-neutral-600"
+                >
+                  Sign Out
+                </Button>
+              </div>
+            )}
           </div>
           {activeTab === 'tasks' && (
           <div className="flex flex-wrap items-center gap-3">
-            {/* Status filter buttons */}
-            <div className="flex gap-2">
-              <button
-                onClick={toggleShowCompleted}
-                className={`px-5 py-2 rounded-full font-medium transition-all ${
-                  showCompleted
-                    ? "bg-green-600 text-white"
-                    : "bg-neutral-800 text-neutral-400 hover:bg-neutral-700 hover:text-white"
-                } ${showCompleted && !showIncomplete ? 'cursor-not-allowed' : ''}`}
-              >
-                ✓ Completed
-              </button>
-              <button
-                onClick={toggleShowIncomplete}
-                className={`px-5 py-2 rounded-full font-medium transition-all ${
-                  showIncomplete
-                    ? "bg-neutral-600 text-white"
-                    : "bg-neutral-800 text-neutral-400 hover:bg-neutral-700 hover:text-white"
-                } ${showIncomplete && !showCompleted ? 'cursor-not-allowed' : ''}`}
-              >
-                ○ Incomplete
-              </button>
-            </div>
+            {/* Status filters; any number of statuses can be picked, none shows every status */}
+            {statusFilterOptions.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {statusFilterOptions.map(status => {
+                  const isSelected = selectedStatusNames.has(status.name);
+                  return (
+                    <button
+                      key={status._id}
+                      onClick={() => toggleStatusFilter(status.name)}
+                      className={`px-4 py-2 rounded-full font-medium border transition-all ${
+                        isSelected ? "text-white" : "text-neutral-400 hover:text-white"
+                      }`}
+                      style={isSelected
+                        ? { backgroundColor: status.color, borderColor: status.color }
+                        : { backgroundColor: 'transparent', borderColor: `${status.color}80` }}
+                      title={isSelected ? `Stop filtering by ${status.name}` : `Show tasks in ${status.name}`}
+                    >
+                      {status.isDone ? '✓ ' : ''}{status.name}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
             
             {/* Duration filter buttons */}
             <div className="flex gap-2 border-l border-neutral-700 pl-3">
               <button
                 onClick={() => {
                   setDurationFilter(durationFilter === 'quick' ? 'all' : 'quick');
-                  setVisibleCount(PAGE_SIZE);
                 }}
                 className={`px-4 py-2 rounded-full font-medium transition-all ${
                   durationFilter === 'quick'
@@ -790,7 +3724,6 @@ function App() {
               <button
                 onClick={() => {
                   setDurationFilter(durationFilter === 'long' ? 'all' : 'long');
-                  setVisibleCount(PAGE_SIZE);
                 }}
                 className={`px-4 py-2 rounded-full font-medium transition-all ${
                   durationFilter === 'long'
@@ -802,23 +3735,120 @@ function App() {
               </button>
             </div>
             
-            {/* Importance filter */}
+            {/* Priority filters; any number of levels can be picked */}
+            <div className="flex gap-2 border-l border-neutral-700 pl-3">
+              {PRIORITIES.map(level => {
+                const isSelected = selectedPriorities.has(level.value);
+                return (
+                  <button
+                    key={level.value}
+                    onClick={() => {
+                      const next = new Set(selectedPriorities);
+                      if (isSelected) next.delete(level.value);
+                      else next.add(level.value);
+                      setSelectedPriorities(next);
+                    }}
+                    className={`px-3 py-2 rounded-full font-medium transition-all ${
+                      isSelected
+                        ? level.value <= 1 ? "bg-amber-500 text-white" : "bg-neutral-500 text-white"
+                        : "bg-neutral-800 text-neutral-400 hover:bg-neutral-700 hover:text-white"
+                    }`}
+                    title={level.name}
+                  >
+                    {level.label}
+                  </button>
+                );
+              })}
+            </div>
+            
+            {/* Due date filters */}
+            <div className="flex gap-2 border-l border-neutral-700 pl-3">
+              <button
+                onClick={() => {
+                  setDueFilter(dueFilter === 'overdue' ? 'all' : 'overdue');
+                }}
+                className={`px-4 py-2 rounded-full font-medium transition-all ${
+                  dueFilter === 'overdue'
+                    ? "bg-red-600 text-white"
+                    : "bg-neutral-800 text-neutral-400 hover:bg-neutral-700 hover:text-white"
+                }`}
+              >
+                ⏰ Overdue
+              </button>
+              <button
+                onClick={() => {
+                  setDueFilter(dueFilter === 'today' ? 'all' : 'today');
+                }}
+                className={`px-4 py-2 rounded-full font-medium transition-all ${
+                  dueFilter === 'today'
+                    ? "bg-sky-600 text-white"
+                    : "bg-neutral-800 text-neutral-400 hover:bg-neutral-700 hover:text-white"
+                }`}
+              >
+                📅 Due Today
+              </button>
+            </div>
+            
+            {/* Dependency filters */}
             <div className="flex gap-2 border-l border-neutral-700 pl-3">
               <button
                 onClick={() => {
-                  setImportanceFilter(importanceFilter === 'important' ? 'all' : 'important');
-                  setVisibleCount(PAGE_SIZE);
+                  setBlockedFilter(blockedFilter === 'blocked' ? 'all' : 'blocked');
+                }}
+                className={`px-4 py-2 rounded-full font-medium transition-all ${
+                  blockedFilter === 'blocked'
+                    ? "bg-rose-600 text-white"
+                    : "bg-neutral-800 text-neutral-400 hover:bg-neutral-700 hover:text-white"
+                }`}
+              >
+                ⛔ Blocked
+              </button>
+              <button
+                onClick={() => {
+                  setBlockedFilter(blockedFilter === 'unblocked' ? 'all' : 'unblocked');
                 }}
                 className={`px-4 py-2 rounded-full font-medium transition-all ${
-                  importanceFilter === 'important'
-                    ? "bg-amber-500 text-white"
+                  blockedFilter === 'unblocked'
+                    ? "bg-emerald-600 text-white"
                     : "bg-neutral-800 text-neutral-400 hover:bg-neutral-700 hover:text-white"
                 }`}
               >
-                ★ Important
+                ▶ Unblocked
               </button>
             </div>
             
+            {/* Tag filters */}
+            {allTags && allTags.length > 0 && (
+              <div className="flex flex-wrap gap-2 border-l border-neutral-700 pl-3">
+                {allTags.map(tag => {
+                  const isSelected = selectedTags.has(tag._id);
+                  return (
+                    <button
+                      key={tag._id}
+                      onClick={() => {
+                        const next = new Set(selectedTags);
+                        if (isSelected) {
+                          next.delete(tag._id);
+                        } else {
+                          next.add(tag._id);
+                        }
+                        setSelectedTags(next);
+                      }}
+                      className={`px-3 py-2 rounded-full text-sm font-medium border transition-all ${
+                        isSelected ? "text-white" : "text-neutral-400 hover:text-white"
+                      }`}
+                      style={isSelected
+                        ? { backgroundColor: tag.color, borderColor: tag.color }
+                        : { backgroundColor: 'transparent', borderColor: `${tag.color}80` }}
+                      title={isSelected ? `Stop filtering by ${tag.name}` : `Show tasks tagged ${tag.name}`}
+                    >
+                      # {tag.name}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+            
             {/* Search input */}
             <div className="flex-1 border-l border-neutral-700 pl-3 relative">
               <input
@@ -826,7 +3856,6 @@ function App() {
                 value={searchQuery}
                 onChange={(e) => {
                   setSearchQuery(e.target.value);
-                  setVisibleCount(PAGE_SIZE);
                 }}
                 placeholder="Search tasks..."
                 className="w-full bg-neutral-800 text-white border border-neutral-700 rounded-lg px-4 py-2 pr-8 text-sm focus:outline-none focus:ring-2 focus:ring-neutral-600 placeholder:text-neutral-500"
@@ -835,7 +3864,6 @@ function App() {
                 <button
                   onClick={() => {
                     setSearchQuery('');
-                    setVisibleCount(PAGE_SIZE);
                   }}
                   className="absolute right-2 top-1/2 -translate-y-1/2 text-neutral-400 hover:text-white transition-colors p-1"
                   aria-label="Clear search"
@@ -852,13 +3880,15 @@ function App() {
               <div className="flex items-center gap-2">
                 <span className="text-neutral-400 text-sm">Sort:</span>
                 <select
-                  value={sort}
+                  value={fixedOrder?.value ?? sort}
+                  disabled={!!fixedOrder}
+                  title={fixedOrder?.title}
                   onChange={(e) => {
                     setSort(e.target.value as SortType);
-                    setVisibleCount(PAGE_SIZE);
                   }}
                   className="bg-neutral-800 text-white border border-neutral-700 rounded-lg pl-4 pr-8 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-neutral-600 appearance-none bg-[url('data:image/svg+xml;charset=UTF-8,%3Csvg%20xmlns%3D%22http%3A%2F%2Fwww.w3.org%2F2000%2Fsvg%22%20width%3D%2212%22%20height%3D%2212%22%20viewBox%3D%220%200%2012%2012%22%3E%3Cpath%20fill%3D%22%23999%22%20d%3D%22M6%208L1%203h10z%22%2F%3E%3C%2Fsvg%3E')] bg-no-repeat bg-[right_12px_center]"
                 >
+                  {fixedOrder && <option value={fixedOrder.value}>{fixedOrder.label}</option>}
                   {sortOptions.map(option => (
                     <option key={option.value} value={option.value}>
                       {option.label}
@@ -930,6 +3960,13 @@ function App() {
         <div className="px-6 py-8">
         {activeTab === 'tasks' ? (
         <>
+        <QuickAddTask
+          users={users}
+          projectId={projectId}
+          timeZone={timeZone}
+          onCreated={(text) => addToast(`Task "${text}" created`, 'created')}
+          onError={(message) => addToast(message, 'error')}
+        />
         {isLoading ? (
           viewMode === 'list' ? (
             // List view skeleton
@@ -1038,7 +4075,7 @@ function App() {
               gridAutoRows: '1fr'
             } : undefined}>
               {visibleTasks.map((task) => {
-                const isToggling = togglingTasks.has(task._id) || togglingImportance.has(task._id);
+                const isToggling = togglingTasks.has(task._id) || togglingPriority.has(task._id);
                 const taskUser = users?.find(u => u._id === task.userId);
                 
                 // List View
@@ -1048,7 +4085,7 @@ function App() {
                       key={task._id}
                       onClick={() => setSelectedTaskId(task._id)}
                       className={`flex flex-col rounded-xl overflow-hidden transition-all duration-200 bg-neutral-800 cursor-pointer ${
-                        task.isImportant ? 'ring-[1.5px] ring-amber-500 ring-inset' : task.isCompleted ? 'ring-[1.5px] ring-green-500 ring-inset' : ''
+                        isTopPriority(task) ? 'ring-[1.5px] ring-amber-500 ring-inset' : task.isCompleted ? 'ring-[1.5px] ring-green-500 ring-inset' : ''
                       } ${isToggling ? 'opacity-70 animate-pulse' : ''} hover:scale-[1.02] hover:z-10 relative`}
                     >
                       {/* Content */}
@@ -1056,9 +4093,9 @@ function App() {
                         {/* User */}
                         {taskUser && (
                           <div className="w-10 h-10 rounded-full overflow-hidden border border-neutral-700/50 flex-shrink-0">
-                            {taskUser.image ? (
+                            {taskUser.imageUrl ? (
                               <img
-                                src={`data:image/jpeg;base64,${taskUser.image}`}
+                                src={taskUser.thumbnailUrl ?? taskUser.imageUrl}
                                 alt={taskUser.name}
                                 className="w-full h-full object-cover"
                                 title={taskUser.name}
@@ -1079,32 +4116,27 @@ function App() {
                           <p className="text-sm truncate text-neutral-500">
                             {task.description || "No description"}
                           </p>
+                          {!!task.tags?.length && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {task.tags.map(tag => <TagChip key={tag._id} tag={tag} />)}
+                            </div>
+                          )}
                         </div>
                         
-                        {/* Important toggle */}
-                        <span
-                          onClick={(e) => handleToggleImportant(e, task)}
-                          className={`text-xl flex-shrink-0 transition-transform hover:scale-125 select-none ${
-                            task.isImportant ? 'text-amber-400' : 'text-neutral-600'
-                          } ${(togglingTasks.has(task._id) || togglingImportance.has(task._id)) ? 'pointer-events-none opacity-50' : 'cursor-pointer'}`}
-                          title={task.isImportant ? "Remove importance" : "Mark as important"}
-                        >
-                          {togglingImportance.has(task._id) ? (
-                            <svg className="animate-spin h-5 w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                            </svg>
-                          ) : (
-                            task.isImportant ? '★' : '☆'
-                          )}
-                        </span>
+                        {/* Priority */}
+                        <PrioritySelect
+                          priority={getPriority(task)}
+                          onChange={(priority) => handleSetPriority(task, priority)}
+                          disabled={togglingTasks.has(task._id) || togglingPriority.has(task._id)}
+                          className="flex-shrink-0"
+                        />
                         
                         {/* Status toggle */}
                         <span
                           onClick={(e) => handleToggle(e, task)}
                           className={`text-xl flex-shrink-0 transition-transform hover:scale-125 select-none ${
                             task.isCompleted ? 'text-green-500' : 'text-neutral-600'
-                          } ${(togglingTasks.has(task._id) || togglingImportance.has(task._id)) ? 'pointer-events-none opacity-50' : 'cursor-pointer'}`}
+                          } ${(togglingTasks.has(task._id) || togglingPriority.has(task._id)) ? 'pointer-events-none opacity-50' : 'cursor-pointer'}`}
                           title={task.isCompleted ? "Mark as incomplete" : "Mark as complete"}
                         >
                           {togglingTasks.has(task._id) ? (
@@ -1119,13 +4151,19 @@ function App() {
                       
                         {/* Meta info */}
                         <div className="hidden md:flex items-center gap-6 flex-shrink-0">
+                          <StatusBadge task={task} statuses={allStatuses} />
+                          {task.isBlocked && <BlockedBadge />}
+                          {task.dueAt !== undefined && <DueBadge task={task} timeZone={timeZone} />}
+                          <SubtaskProgress task={task} />
+                          <CommentCount task={task} />
                           <div className="text-center">
                             <div className="text-xs text-neutral-500">Duration</div>
                             <div className="text-sm font-medium text-white">{formatDuration(task.duration)}</div>
+                            <TrackedTime task={task} />
                           </div>
                           <div className="text-center">
                             <div className="text-xs text-neutral-500">Updated</div>
-                            <div className="text-sm font-medium text-white">{formatRelativeTime(task.updatedAt)}</div>
+                            <div className="text-sm font-medium text-white">{formatRelativeTime(task.updatedAt, timeZone)}</div>
                           </div>
                           <div className="text-center">
                             <div className="text-xs text-neutral-500">Changes</div>
@@ -1143,7 +4181,7 @@ function App() {
                   key={task._id}
                   onClick={() => setSelectedTaskId(task._id)}
                   className={`group relative flex flex-col rounded-2xl overflow-hidden transition-all duration-200 bg-neutral-800 cursor-pointer ${
-                    task.isImportant ? 'ring-[1.5px] ring-amber-500 ring-inset' : task.isCompleted ? 'ring-[1.5px] ring-green-500 ring-inset' : ''
+                    isTopPriority(task) ? 'ring-[1.5px] ring-amber-500 ring-inset' : task.isCompleted ? 'ring-[1.5px] ring-green-500 ring-inset' : ''
                   } ${isToggling ? 'opacity-70 animate-pulse' : ''} hover:scale-[1.05] hover:z-10`}
                 >
                   <div className={`${viewMode === 'extended' ? 'px-5 pt-5 pb-3' : 'p-5'} flex flex-col flex-1`}>
@@ -1152,9 +4190,9 @@ function App() {
                       {/* User */}
                       {taskUser && (
                         <div className={`${viewMode === 'extended' ? 'w-10 h-10' : 'w-6 h-6'} rounded-full overflow-hidden border border-neutral-700/50 flex-shrink-0`}>
-                          {taskUser.image ? (
+                          {taskUser.imageUrl ? (
                             <img
-                              src={`data:image/jpeg;base64,${taskUser.image}`}
+                              src={taskUser.thumbnailUrl ?? taskUser.imageUrl}
                               alt={taskUser.name}
                               className="w-full h-full object-cover"
                               title={taskUser.name}
@@ -1176,27 +4214,16 @@ function App() {
                       </h3>
                     </div>
                     <div className="flex items-center gap-2 flex-shrink-0">
-                      <span
-                        onClick={(e) => handleToggleImportant(e, task)}
-                        className={`text-xl flex-shrink-0 transition-transform hover:scale-125 select-none ${
-                          task.isImportant ? 'text-amber-400' : 'text-neutral-600'
-                        } ${(togglingTasks.has(task._id) || togglingImportance.has(task._id)) ? 'pointer-events-none opacity-50' : 'cursor-pointer'}`}
-                        title={task.isImportant ? "Remove importance" : "Mark as important"}
-                      >
-                        {togglingImportance.has(task._id) ? (
-                          <svg className="animate-spin h-5 w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                          </svg>
-                        ) : (
-                          task.isImportant ? '★' : '☆'
-                        )}
-                      </span>
+                      <PrioritySelect
+                        priority={getPriority(task)}
+                        onChange={(priority) => handleSetPriority(task, priority)}
+                        disabled={togglingTasks.has(task._id) || togglingPriority.has(task._id)}
+                      />
                       <span
                         onClick={(e) => handleToggle(e, task)}
                         className={`text-xl flex-shrink-0 transition-transform hover:scale-125 select-none ${
                           task.isCompleted ? 'text-green-500' : 'text-neutral-600'
-                        } ${(togglingTasks.has(task._id) || togglingImportance.has(task._id)) ? 'pointer-events-none opacity-50' : 'cursor-pointer'}`}
+                        } ${(togglingTasks.has(task._id) || togglingPriority.has(task._id)) ? 'pointer-events-none opacity-50' : 'cursor-pointer'}`}
                         title={task.isCompleted ? "Mark as incomplete" : "Mark as complete"}
                       >
                         {togglingTasks.has(task._id) ? (
@@ -1210,6 +4237,16 @@ function App() {
                       </span>
                     </div>
                   </div>
+                  {(task.dueAt !== undefined || !!task.subtaskCount || task.isBlocked || !!task.tags?.length || !!task.commentCount || !!getBadgeStatus(task, allStatuses)) && (
+                    <div className="flex flex-wrap gap-2 mb-2">
+                      <StatusBadge task={task} statuses={allStatuses} />
+                      {task.isBlocked && <BlockedBadge />}
+                      {task.dueAt !== undefined && <DueBadge task={task} timeZone={timeZone} />}
+                      <SubtaskProgress task={task} />
+                      <CommentCount task={task} />
+                      {task.tags?.map(tag => <TagChip key={tag._id} tag={tag} />)}
+                    </div>
+                  )}
                   <p 
                     className={`text-sm leading-relaxed ${
                       viewMode === 'compact' ? 'line-clamp-2 mb-2' : 'mb-4 flex-1'
@@ -1231,9 +4268,15 @@ function App() {
                     
                     // Create all info items
                     const allInfo = [
-                      { key: 'created', label: 'Created', value: formatRelativeTime(task.createdAt) },
-                      { key: 'updated', label: 'Updated', value: formatRelativeTime(task.updatedAt) },
-                      { key: 'duration', label: 'Duration', value: formatDuration(task.duration) },
+                      { key: 'created', label: 'Created', value: formatRelativeTime(task.createdAt, timeZone) },
+                      { key: 'updated', label: 'Updated', value: formatRelativeTime(task.updatedAt, timeZone) },
+                      {
+                        key: 'duration',
+                        label: 'Duration',
+                        value: task.trackedMs
+                          ? `${formatDuration(task.duration)} · ⏱ ${formatTrackedTime(task.trackedMs)}`
+                          : formatDuration(task.duration),
+                      },
                       { key: 'changes', label: 'Changes', value: task.historyCount.toString() }
                     ];
                     
@@ -1265,13 +4308,14 @@ function App() {
                     <div className="flex items-center justify-between mt-auto pt-3 border-t border-neutral-700">
                       <span className="text-xs text-neutral-500">
                         {sort === 'newest' || sort === 'oldest' 
-                          ? formatRelativeTime(task.createdAt)
+                          ? formatRelativeTime(task.createdAt, timeZone)
                           : sort === 'quickest' || sort === 'longest'
                           ? formatDuration(task.duration)
                           : sort === 'frequent' || sort === 'unfrequent'
                           ? `${task.historyCount} change${task.historyCount !== 1 ? 's' : ''}`
-                          : formatRelativeTime(task.updatedAt)}
+                          : formatRelativeTime(task.updatedAt, timeZone)}
                       </span>
+                      <TrackedTime task={task} />
                     </div>
                   )}
                   </div>
@@ -1291,10 +4335,45 @@ function App() {
           </>
         )}
         </>
+        ) : activeTab === 'users' ? (
+          <UsersAdmin
+            users={users}
+            onSaved={(message) => addToast(message, 'updated')}
+            onError={(message) => addToast(message, 'error')}
+          />
+        ) : activeTab === 'trash' ? (
+          <TrashView
+            users={users}
+            projectId={projectId}
+            timeZone={timeZone}
+            onRestored={(text) => addToast(`Task "${text}" restored`, 'restored')}
+            onPurged={(text) => addToast(`Task "${text}" permanently deleted`, 'deleted')}
+            onError={(message) => addToast(message, 'error')}
+          />
         ) : (
           /* Stats Tab */
           <div className="pt-4 pb-8">
-            {isLoading ? (
+            <div className="flex items-center gap-1 bg-neutral-800 rounded-lg p-1 mb-4 w-fit">
+              {(['overview', 'estimates'] as StatsView[]).map((value) => (
+                <button
+                  key={value}
+                  onClick={() => setStatsView(value)}
+                  className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                    statsView === value ? 'bg-neutral-600 text-white' : 'text-neutral-400 hover:text-white'
+                  }`}
+                >
+                  {value === 'overview' ? 'Overview' : 'Estimates'}
+                </button>
+              ))}
+            </div>
+            {statsView === 'estimates' ? (
+              <EstimateAccuracy
+                users={users}
+                userIds={Array.from(selectedUsers) as Id<"users">[]}
+                projectId={projectId}
+                onSelectTask={setSelectedTaskId}
+              />
+            ) : isStatsLoading ? (
               <>
                 {selectedUsers.size === 1 ? (
                   /* Single User Card Skeleton */
@@ -1309,7 +4388,7 @@ function App() {
                           </div>
                         </div>
                         <div className="flex gap-4 flex-1 flex-wrap">
-                          {[...Array(7)].map((_, index) => (
+                          {[...Array(9)].map((_, index) => (
                             <div key={index} className="bg-neutral-700/30 rounded-lg p-4 border border-neutral-700/50 flex-1 text-center min-w-[120px]">
                               <div className="h-3 w-16 bg-neutral-700/50 rounded animate-pulse mb-2 mx-auto"></div>
                               <div className="h-8 w-12 bg-neutral-700/50 rounded animate-pulse mx-auto"></div>
@@ -1335,6 +4414,8 @@ function App() {
                               <th className="text-center py-2 px-2 text-sm font-semibold text-neutral-400">Inactive</th>
                               <th className="text-center py-2 px-2 text-sm font-semibold text-neutral-400">Short</th>
                               <th className="text-center py-2 px-2 text-sm font-semibold text-neutral-400">Long</th>
+                              <th className="text-center py-2 px-2 text-sm font-semibold text-neutral-400">Received</th>
+                              <th className="text-center py-2 px-2 text-sm font-semibold text-neutral-400">Handed Off</th>
                               <th className="text-center py-2 px-2 text-sm font-semibold text-neutral-400">Last Active</th>
                             </tr>
                           </thead>
@@ -1368,6 +4449,12 @@ function App() {
                                 <td className="text-center py-2 px-2">
                                   <div className="h-4 w-8 bg-neutral-700/50 rounded animate-pulse mx-auto"></div>
                                 </td>
+                                <td className="text-center py-2 px-2">
+                                  <div className="h-4 w-8 bg-neutral-700/50 rounded animate-pulse mx-auto"></div>
+                                </td>
+                                <td className="text-center py-2 px-2">
+                                  <div className="h-4 w-8 bg-neutral-700/50 rounded animate-pulse mx-auto"></div>
+                                </td>
                                 <td className="text-center py-2 px-2">
                                   <div className="h-4 w-16 bg-neutral-700/50 rounded animate-pulse mx-auto"></div>
                                 </td>
@@ -1380,7 +4467,8 @@ function App() {
                   </Card>
                 )}
                 
-                {/* Chart and Latest Changes Cards Skeleton - DISABLED FOR PERFORMANCE */}
+                <div className="h-[360px] bg-neutral-800 rounded-xl animate-pulse mt-6" />
+
               </>
             ) : filteredUserStats.length === 0 ? (
               <div className="flex justify-center items-center py-20">
@@ -1398,9 +4486,9 @@ function App() {
                       <div className="flex items-center gap-6">
                         <div className="flex items-center gap-4 flex-shrink-0">
                           <div className="w-16 h-16 rounded-full overflow-hidden border border-neutral-700/50 flex-shrink-0">
-                            {stat.user.image ? (
+                            {stat.user.imageUrl ? (
                               <img
-                                src={`data:image/jpeg;base64,${stat.user.image}`}
+                                src={stat.user.thumbnailUrl ?? stat.user.imageUrl}
                                 alt={stat.user.name}
                                 className="w-full h-full object-cover"
                                 title={stat.user.name}
@@ -1414,7 +4502,7 @@ function App() {
                           <div>
                             <h2 className="text-2xl font-bold text-white mb-1">{stat.user.name}</h2>
                             <p className="text-neutral-400 text-sm">
-                              Last Active: {stat.lastActive ? formatRelativeTime(stat.lastActive) : 'Never'}
+                              Last Active: {stat.lastActive ? formatRelativeTime(stat.lastActive, timeZone) : 'Never'}
                             </p>
                           </div>
                         </div>
@@ -1447,6 +4535,26 @@ function App() {
                             <div className="text-xs mb-1 text-neutral-500">Long</div>
                             <div className="text-2xl font-bold text-white">{stat.long}</div>
                           </div>
+                          <div className="bg-neutral-700/30 rounded-lg p-4 border border-neutral-700/50 flex-1 text-center min-w-[120px]">
+                            <div className="text-xs mb-1 text-neutral-500">Received</div>
+                            <div className="text-2xl font-bold text-white">{stat.received}</div>
+                          </div>
+                          <div className="bg-neutral-700/30 rounded-lg p-4 border border-neutral-700/50 flex-1 text-center min-w-[120px]">
+                            <div className="text-xs mb-1 text-neutral-500">Handed Off</div>
+                            <div className="text-2xl font-bold text-white">{stat.handedOff}</div>
+                          </div>
+                          <div className="bg-neutral-700/30 rounded-lg p-4 border border-neutral-700/50 flex-1 text-center min-w-[120px]">
+                            <div className="text-xs mb-1 text-neutral-500">Changes Made</div>
+                            <div className="text-2xl font-bold text-white">{stat.changesMade}</div>
+                          </div>
+                          <div className="bg-neutral-700/30 rounded-lg p-4 border border-neutral-700/50 flex-1 text-center min-w-[120px]">
+                            <div className="text-xs mb-1 text-neutral-500">On Others' Tasks</div>
+                            <div className="text-2xl font-bold text-white">{stat.onOthersTasks}</div>
+                          </div>
+                          <div className="bg-neutral-700/30 rounded-lg p-4 border border-neutral-700/50 flex-1 text-center min-w-[120px]">
+                            <div className="text-xs mb-1 text-neutral-500">Time Tracked</div>
+                            <div className="text-2xl font-bold text-white">{stat.tracked ? formatTrackedTime(stat.tracked) : '—'}</div>
+                          </div>
                         </div>
                       </div>
                     </CardContent>
@@ -1565,6 +4673,71 @@ function App() {
                               )}
                             </div>
                           </th>
+                          <th 
+                            className="text-center py-2 px-2 text-sm font-semibold text-neutral-400 cursor-pointer hover:text-white transition-colors select-none"
+                            onClick={() => handleStatsSort('received')}
+                          >
+                            <div className="flex items-center justify-center gap-2">
+                              Received
+                              {statsSortColumn === 'received' && (
+                                <span className="text-white">
+                                  {statsSortDirection === 'asc' ? '↑' : '↓'}
+                                </span>
+                              )}
+                            </div>
+                          </th>
+                          <th 
+                            className="text-center py-2 px-2 text-sm font-semibold text-neutral-400 cursor-pointer hover:text-white transition-colors select-none"
+                            onClick={() => handleStatsSort('handedOff')}
+                          >
+                            <div className="flex items-center justify-center gap-2">
+                              Handed Off
+                              {statsSortColumn === 'handedOff' && (
+                                <span className="text-white">
+                                  {statsSortDirection === 'asc' ? '↑' : '↓'}
+                                </span>
+                              )}
+                            </div>
+                          </th>
+                          <th 
+                            className="text-center py-2 px-2 text-sm font-semibold text-neutral-400 cursor-pointer hover:text-white transition-colors select-none"
+                            onClick={() => handleStatsSort('changesMade')}
+                          >
+                            <div className="flex items-center justify-center gap-2">
+                              Changes Made
+                              {statsSortColumn === 'changesMade' && (
+                                <span className="text-white">
+                                  {statsSortDirection === 'asc' ? '↑' : '↓'}
+                                </span>
+                              )}
+                            </div>
+                          </th>
+                          <th 
+                            className="text-center py-2 px-2 text-sm font-semibold text-neutral-400 cursor-pointer hover:text-white transition-colors select-none"
+                            onClick={() => handleStatsSort('onOthersTasks')}
+                          >
+                            <div className="flex items-center justify-center gap-2">
+                              On Others' Tasks
+                              {statsSortColumn === 'onOthersTasks' && (
+                                <span className="text-white">
+                                  {statsSortDirection === 'asc' ? '↑' : '↓'}
+                                </span>
+                              )}
+                            </div>
+                          </th>
+                          <th 
+                            className="text-center py-2 px-2 text-sm font-semibold text-neutral-400 cursor-pointer hover:text-white transition-colors select-none"
+                            onClick={() => handleStatsSort('tracked')}
+                          >
+                            <div className="flex items-center justify-center gap-2">
+                              Tracked
+                              {statsSortColumn === 'tracked' && (
+                                <span className="text-white">
+                                  {statsSortDirection === 'asc' ? '↑' : '↓'}
+                                </span>
+                              )}
+                            </div>
+                          </th>
                           <th 
                             className="text-center py-2 px-2 text-sm font-semibold text-neutral-400 cursor-pointer hover:text-white transition-colors select-none"
                             onClick={() => handleStatsSort('lastActive')}
@@ -1586,9 +4759,9 @@ function App() {
                             <td className="py-2 px-2">
                               <div className="flex items-center gap-3">
                                 <div className="w-8 h-8 rounded-full overflow-hidden border border-neutral-700/50 flex-shrink-0">
-                                  {stat.user.image ? (
+                                  {stat.user.imageUrl ? (
                                     <img
-                                      src={`data:image/jpeg;base64,${stat.user.image}`}
+                                      src={stat.user.thumbnailUrl ?? stat.user.imageUrl}
                                       alt={stat.user.name}
                                       className="w-full h-full object-cover"
                                       title={stat.user.name}
@@ -1609,8 +4782,13 @@ function App() {
                             <td className="text-center py-2 px-2 text-white">{stat.inactive}</td>
                             <td className="text-center py-2 px-2 text-white">{stat.short}</td>
                             <td className="text-center py-2 px-2 text-white">{stat.long}</td>
+                            <td className="text-center py-2 px-2 text-white">{stat.received}</td>
+                            <td className="text-center py-2 px-2 text-white">{stat.handedOff}</td>
+                            <td className="text-center py-2 px-2 text-white">{stat.changesMade}</td>
+                            <td className="text-center py-2 px-2 text-white">{stat.onOthersTasks}</td>
+                            <td className="text-center py-2 px-2 text-white">{stat.tracked ? formatTrackedTime(stat.tracked) : '—'}</td>
                             <td className="text-center py-2 px-2 text-neutral-400 text-sm">
-                              {stat.lastActive ? formatRelativeTime(stat.lastActive) : 'Never'}
+                              {stat.lastActive ? formatRelativeTime(stat.lastActive, timeZone) : 'Never'}
                             </td>
                           </tr>
                         ))}
@@ -1624,6 +4802,11 @@ function App() {
                             inactive: acc.inactive + stat.inactive,
                             short: acc.short + stat.short,
                             long: acc.long + stat.long,
+                            received: acc.received + stat.received,
+                            handedOff: acc.handedOff + stat.handedOff,
+                            changesMade: acc.changesMade + stat.changesMade,
+                            onOthersTasks: acc.onOthersTasks + stat.onOthersTasks,
+                            tracked: acc.tracked + stat.tracked,
                           }), {
                             completed: 0,
                             incomplete: 0,
@@ -1632,6 +4815,11 @@ function App() {
                             inactive: 0,
                             short: 0,
                             long: 0,
+                            received: 0,
+                            handedOff: 0,
+                            changesMade: 0,
+                            onOthersTasks: 0,
+                            tracked: 0,
                           });
                           return (
                             <tr className="border-t-2 border-neutral-700 bg-neutral-800/70">
@@ -1645,6 +4833,11 @@ function App() {
                               <td className="text-center py-2 px-2 text-white font-bold">{totals.inactive}</td>
                               <td className="text-center py-2 px-2 text-white font-bold">{totals.short}</td>
                               <td className="text-center py-2 px-2 text-white font-bold">{totals.long}</td>
+                              <td className="text-center py-2 px-2 text-white font-bold">{totals.received}</td>
+                              <td className="text-center py-2 px-2 text-white font-bold">{totals.handedOff}</td>
+                              <td className="text-center py-2 px-2 text-white font-bold">{totals.changesMade}</td>
+                              <td className="text-center py-2 px-2 text-white font-bold">{totals.onOthersTasks}</td>
+                              <td className="text-center py-2 px-2 text-white font-bold">{totals.tracked ? formatTrackedTime(totals.tracked) : '—'}</td>
                               <td className="text-center py-2 px-2 text-neutral-400 text-sm"></td>
                             </tr>
                           );
@@ -1656,7 +4849,24 @@ function App() {
               </Card>
             )}
             
-            {/* Chart and Latest Changes Cards - DISABLED FOR PERFORMANCE */}
+            <ActivityChart
+              data={changesOverTime}
+              users={filteredUserStats.map(stat => stat.user)}
+              timeZone={timeZone}
+              mode={activityMode}
+              period={activityPeriod}
+              onModeChange={setActivityMode}
+              onPeriodChange={setActivityPeriod}
+            />
+            
+            <TagStats onError={(message) => addToast(message, 'error')} />
+            
+            <LatestChangesFeed
+              userIds={Array.from(selectedUsers) as Id<"users">[]}
+              projectId={projectId}
+              timeZone={timeZone}
+              onSelectTask={setSelectedTaskId}
+            />
             </>
             )}
           </div>
@@ -1665,19 +4875,28 @@ function App() {
       </div>
 
       {/* Task Details Sheet */}
-      <Sheet open={!!selectedTask} onOpenChange={(open) => !open && setSelectedTaskId(null)}>
+      <Sheet
+        open={!!selectedTask}
+        onOpenChange={(open) => {
+          if (!open) {
+            setSelectedTaskId(null);
+            setIsEditingTask(false);
+          }
+        }}
+      >
         <SheetContent className="bg-neutral-900 border-neutral-700 text-white flex flex-col h-full w-[510px] sm:max-w-[510px]">
           {selectedTask && (() => {
             const drawerTaskUser = users?.find(u => u._id === selectedTask.userId);
+            const drawerStatuses = allStatuses?.filter(status => status.projectId === selectedTask.projectId) ?? [];
             return (
               <>
                 <SheetHeader className="pr-8">
                   <SheetTitle className="text-white text-xl flex items-center gap-3">
                     {drawerTaskUser && (
                       <div className="w-10 h-10 rounded-full overflow-hidden border border-neutral-700/50 flex-shrink-0">
-                        {drawerTaskUser.image ? (
+                        {drawerTaskUser.imageUrl ? (
                           <img
-                            src={`data:image/jpeg;base64,${drawerTaskUser.image}`}
+                            src={drawerTaskUser.imageUrl}
                             alt={drawerTaskUser.name}
                             className="w-full h-full object-cover"
                             title={drawerTaskUser.name}
@@ -1692,117 +4911,283 @@ function App() {
                     {selectedTask.text}
                   </SheetTitle>
                   <SheetDescription className="text-neutral-400 flex items-center gap-3">
-                    <span className={selectedTask.isCompleted ? "text-green-500" : "text-neutral-400"}>
-                      {selectedTask.isCompleted ? "✓ Completed" : "○ Incomplete"}
-                    </span>
-                    <span className={selectedTask.isImportant ? "text-amber-400" : "text-neutral-400"}>
-                      {selectedTask.isImportant ? "★ Important" : "☆ Not Important"}
-                    </span>
+                    {drawerStatuses.length > 0 ? (
+                      <StatusSelect
+                        statusId={selectedTask.statusId}
+                        statuses={drawerStatuses}
+                        onChange={(statusId) => handleSetStatus(selectedTask, statusId)}
+                        disabled={togglingTasks.has(selectedTask._id)}
+                      />
+                    ) : (
+                      <span className={selectedTask.isCompleted ? "text-green-500" : "text-neutral-400"}>
+                        {selectedTask.isCompleted ? "✓ Completed" : "○ Incomplete"}
+                      </span>
+                    )}
+                    <PrioritySelect
+                      priority={getPriority(selectedTask)}
+                      onChange={(priority) => handleSetPriority(selectedTask, priority)}
+                      disabled={togglingPriority.has(selectedTask._id)}
+                      className="text-sm"
+                    />
+                    {selectedTask.isBlocked && <span className="text-rose-400">⛔ Blocked</span>}
                   </SheetDescription>
                 </SheetHeader>
                 
                 <div className="mt-6 space-y-6 flex flex-col flex-1 min-h-0">
+                {isEditingTask ? (
+                  <TaskEditForm
+                    key={selectedTask._id}
+                    task={selectedTask}
+                    timeZone={timeZone}
+                    onSaved={() => {
+                      setIsEditingTask(false);
+                      addToast('Task updated', 'updated');
+                    }}
+                    onCancel={() => setIsEditingTask(false)}
+                    onError={(message) => addToast(message, 'error')}
+                  />
+                ) : (
                 <div className="flex-shrink-0">
-                  <h3 className="text-sm font-medium text-neutral-400 mb-2">Description</h3>
+                  <div className="flex items-center justify-between mb-2">
+                    <h3 className="text-sm font-medium text-neutral-400">Description</h3>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => setIsEditingTask(true)}
+                        className="px-3 py-1 rounded-full text-xs font-medium bg-neutral-700 text-neutral-300 hover:bg-neutral-600 hover:text-white transition-colors"
+                      >
+                        ✎ Edit
+                      </button>
+                      <button
+                        onClick={async () => {
+                          const text = selectedTask.text;
+                          try {
+                            await deleteTask({ id: selectedTask._id as Id<"tasks"> });
+                            setSelectedTaskId(null);
+                            addToast(`Task "${text}" moved to trash`, 'deleted');
+                          } catch (error) {
+                            addToast(error instanceof Error ? error.message : 'Failed to delete task', 'error');
+                          }
+                        }}
+                        className="px-3 py-1 rounded-full text-xs font-medium bg-neutral-700 text-neutral-300 hover:bg-red-600 hover:text-white transition-colors"
+                      >
+                        🗑 Delete
+                      </button>
+                    </div>
+                  </div>
                   <p className="text-white/90 leading-relaxed">
                     {selectedTask.description || "No description available."}
                   </p>
                 </div>
+                )}
                 
                 <div className="space-y-3 flex-shrink-0">
+                  <div className="flex justify-between items-center py-2 border-b border-neutral-700">
+                    <span className="text-neutral-400">Assignee</span>
+                    <select
+                      value={selectedTask.userId ?? ''}
+                      disabled={reassigningTasks.has(selectedTask._id)}
+                      onChange={async (e) => {
+                        const taskId = selectedTask._id;
+                        const newUser = users?.find(u => u._id === e.target.value);
+                        if (!newUser) return;
+                        setReassigningTasks(prev => new Set(prev).add(taskId));
+                        try {
+                          await reassignTask({ id: taskId as Id<"tasks">, userId: newUser._id });
+                          addToast(`Task reassigned to ${newUser.name}`, 'updated');
+                        } catch (error) {
+                          addToast(error instanceof Error ? error.message : 'Failed to reassign task', 'error');
+                        } finally {
+                          setReassigningTasks(prev => {
+                            const next = new Set(prev);
+                            next.delete(taskId);
+                            return next;
+                          });
+                        }
+                      }}
+                      className="bg-neutral-800 text-white border border-neutral-700 rounded-lg px-3 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-neutral-600 disabled:opacity-50"
+                    >
+                      {!selectedTask.userId && <option value="">Unassigned</option>}
+                      {users?.filter(user => user.deactivatedAt === undefined || user._id === selectedTask.userId).map(user => (
+                        <option key={user._id} value={user._id} disabled={user.deactivatedAt !== undefined}>{user.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex justify-between items-center py-2 border-b border-neutral-700">
+                    <span className="text-neutral-400">Project</span>
+                    <select
+                      value={selectedTask.projectId ?? ''}
+                      onChange={async (e) => {
+                        const newProject = projects?.find(project => project._id === e.target.value);
+                        try {
+                          await moveTask({ id: selectedTask._id as Id<"tasks">, projectId: newProject?._id ?? null });
+                          addToast(newProject ? `Task moved to ${newProject.name}` : 'Task removed from its project', 'updated');
+                        } catch (error) {
+                          addToast(error instanceof Error ? error.message : 'Failed to move task', 'error');
+                        }
+                      }}
+                      className="bg-neutral-800 text-white border border-neutral-700 rounded-lg px-3 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-neutral-600"
+                    >
+                      <option value="">No project</option>
+                      {projects?.filter(project => project.archivedAt === undefined || project._id === selectedTask.projectId).map(project => (
+                        <option key={project._id} value={project._id} disabled={project.archivedAt !== undefined}>{project.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {!isEditingTask && (
                   <div className="flex justify-between items-center py-2 border-b border-neutral-700">
                     <span className="text-neutral-400">Duration</span>
-                    <span className="text-white">{formatDuration(selectedTask.duration)}</span>
+                    <span className="text-white">
+                      {formatDuration(selectedTask.duration)}
+                      {selectedTask.trackedMs ? ` · ⏱ ${formatTrackedTime(selectedTask.trackedMs)} tracked` : ''}
+                      {selectedTask.actualDuration ? ` · took ${formatDuration(selectedTask.actualDuration)}` : ''}
+                    </span>
+                  </div>
+                  )}
+                  {!isEditingTask && (
+                  <div className="flex justify-between items-center py-2 border-b border-neutral-700">
+                    <span className="text-neutral-400">Due</span>
+                    {selectedTask.dueAt !== undefined ? (
+                      <DueBadge task={selectedTask} timeZone={timeZone} />
+                    ) : (
+                      <span className="text-white">None</span>
+                    )}
+                  </div>
+                  )}
+                  {!isEditingTask && selectedTask.recurrence && (
+                  <div className="flex justify-between items-center py-2 border-b border-neutral-700">
+                    <span className="text-neutral-400">Repeats</span>
+                    <span className="text-white text-right" title={selectedTask.recurrence.rule}>
+                      {describeRecurrence(selectedTask.recurrence.rule)}
+                      {selectedTask.nextOccurrenceId && (
+                        <button
+                          onClick={() => setSelectedTaskId(selectedTask.nextOccurrenceId!)}
+                          className="block ml-auto text-xs text-teal-400 hover:text-teal-300"
+                        >
+                          View next occurrence →
+                        </button>
+                      )}
+                    </span>
                   </div>
+                  )}
                   <div className="flex justify-between items-center py-2 border-b border-neutral-700">
                     <span className="text-neutral-400">Created</span>
                     <span 
                       className="text-white cursor-help" 
-                      title={selectedTask.createdAt ? formatDateTime(selectedTask.createdAt) : "Unknown"}
+                      title={selectedTask.createdAt ? formatDateTime(selectedTask.createdAt, timeZone) : "Unknown"}
                     >
-                      {formatRelativeTime(selectedTask.createdAt)}
+                      {formatRelativeTime(selectedTask.createdAt, timeZone)}
                     </span>
                   </div>
                   <div className="flex justify-between items-center py-2 border-b border-neutral-700">
                     <span className="text-neutral-400">Last Updated</span>
                     <span 
                       className="text-white cursor-help" 
-                      title={selectedTask.updatedAt ? formatDateTime(selectedTask.updatedAt) : "Unknown"}
+                      title={selectedTask.updatedAt ? formatDateTime(selectedTask.updatedAt, timeZone) : "Unknown"}
                     >
-                      {formatRelativeTime(selectedTask.updatedAt)}
+                      {formatRelativeTime(selectedTask.updatedAt, timeZone)}
                     </span>
                   </div>
                 </div>
 
+                <TaskTagsEditor
+                  taskId={selectedTask._id as Id<"tasks">}
+                  tags={selectedTask.tags ?? []}
+                  allTags={allTags}
+                  onError={(message) => addToast(message, 'error')}
+                />
+
+                <SubtaskChecklist
+                  taskId={selectedTask._id as Id<"tasks">}
+                  onError={(message) => addToast(message, 'error')}
+                />
+
+                <TaskDependencies
+                  taskId={selectedTask._id as Id<"tasks">}
+                  candidates={tasks}
+                  onSelectTask={setSelectedTaskId}
+                  onError={(message) => addToast(message, 'error')}
+                />
+
+                <TaskComments
+                  taskId={selectedTask._id as Id<"tasks">}
+                  users={users}
+                  viewerId={viewer?._id}
+                  timeZone={timeZone}
+                  onError={(message) => addToast(message, 'error')}
+                />
+
+                <TaskAttachments
+                  taskId={selectedTask._id as Id<"tasks">}
+                  timeZone={timeZone}
+                  onError={(message) => addToast(message, 'error')}
+                />
+
+                <TaskTimeTracking
+                  key={`time-${selectedTask._id}`}
+                  task={selectedTask}
+                  viewerId={viewer?._id}
+                  timeZone={timeZone}
+                  onError={(message) => addToast(message, 'error')}
+                />
+
                 <div className="flex-1 flex flex-col min-h-0">
                   <div className="flex-shrink-0 mb-3">
                     <h3 className="text-sm font-medium text-neutral-400 mb-2">Changes</h3>
                     <HistoryFilterChips
                       showCompleted={historyShowCompleted}
                       showIncomplete={historyShowIncomplete}
-                      showImportant={historyShowImportant}
-                      showNotImportant={historyShowNotImportant}
+                      showPriorityRaised={historyShowPriorityRaised}
+                      showPriorityLowered={historyShowPriorityLowered}
+                      showStatusChanges={historyShowStatusChanges}
                       onToggleCompleted={() => setHistoryShowCompleted(!historyShowCompleted)}
                       onToggleIncomplete={() => setHistoryShowIncomplete(!historyShowIncomplete)}
-                      onToggleImportant={() => setHistoryShowImportant(!historyShowImportant)}
-                      onToggleNotImportant={() => setHistoryShowNotImportant(!historyShowNotImportant)}
+                      onTogglePriorityRaised={() => setHistoryShowPriorityRaised(!historyShowPriorityRaised)}
+                      onTogglePriorityLowered={() => setHistoryShowPriorityLowered(!historyShowPriorityLowered)}
+                      onToggleStatusChanges={() => setHistoryShowStatusChanges(!historyShowStatusChanges)}
                     />
                   </div>
                   <div className="flex-1 overflow-y-auto scrollbar-hide">
                     <TaskHistory 
                       taskId={selectedTask._id} 
+                      users={users}
+                      timeZone={timeZone}
                       showCompleted={historyShowCompleted}
                       showIncomplete={historyShowIncomplete}
-                      showImportant={historyShowImportant}
-                      showNotImportant={historyShowNotImportant}
+                      showPriorityRaised={historyShowPriorityRaised}
+                      showPriorityLowered={historyShowPriorityLowered}
+                      showStatusChanges={historyShowStatusChanges}
+                      onSelectTask={setSelectedTaskId}
                     />
                   </div>
                 </div>
               </div>
 
               <div className="pt-4 pb-2 flex-shrink-0 flex gap-2">
-                <Button
-                  onClick={async () => {
-                    const wasImportant = selectedTask.isImportant;
-                    setTogglingImportance(prev => new Set(prev).add(selectedTask._id));
-                    try {
-                      await toggleImportant({ id: selectedTask._id as any });
-                      addToast(`Task marked as ${wasImportant ? 'not important' : 'important'}`, wasImportant ? 'not-important' : 'important');
-                    } finally {
-                      setTogglingImportance(prev => {
-                        const next = new Set(prev);
-                        next.delete(selectedTask._id);
-                        return next;
-                      });
-                    }
-                  }}
-                  disabled={togglingTasks.has(selectedTask._id) || togglingImportance.has(selectedTask._id)}
-                  className={`flex-1 py-6 text-base font-medium flex items-center justify-center gap-2 ${
-                    togglingImportance.has(selectedTask._id) 
-                      ? "opacity-70 cursor-not-allowed"
-                      : ""
-                  } ${selectedTask.isImportant 
-                    ? "bg-neutral-700 hover:bg-neutral-600" 
-                    : "bg-amber-500 hover:bg-amber-600"
-                  }`}
-                >
-                  {togglingImportance.has(selectedTask._id) ? (
-                    <svg className="animate-spin h-5 w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                    </svg>
-                  ) : (
-                    <span>{selectedTask.isImportant ? "☆" : "★"}</span>
-                  )}
-                  <span>{selectedTask.isImportant ? "Remove Importance" : "Mark as Important"}</span>
-                </Button>
+                {!selectedTask.isCompleted && (
+                  <input
+                    type="number"
+                    min={1}
+                    value={actualMinutes?.taskId === selectedTask._id ? actualMinutes.value : ''}
+                    onChange={(e) => setActualMinutes({ taskId: selectedTask._id, value: e.target.value })}
+                    placeholder="Took (min)"
+                    title="Minutes the task actually took; left empty, it's measured from tracked time or the task's history"
+                    className="w-32 bg-neutral-800 text-white border border-neutral-700 rounded-lg px-4 text-sm focus:outline-none focus:ring-2 focus:ring-neutral-600 placeholder:text-neutral-500"
+                  />
+                )}
                 <Button
                   onClick={async () => {
                     const wasCompleted = selectedTask.isCompleted;
+                    const enteredMinutes = actualMinutes?.taskId === selectedTask._id ? actualMinutes.value : '';
                     setTogglingTasks(prev => new Set(prev).add(selectedTask._id));
                     try {
-                      await toggleCompleted({ id: selectedTask._id as any });
+                      await toggleCompleted({
+                        id: selectedTask._id,
+                        actualDuration: !wasCompleted && enteredMinutes ? parseInt(enteredMinutes, 10) : undefined,
+                      });
+                      setActualMinutes(null);
                       addToast(`Task marked as ${wasCompleted ? 'incomplete' : 'complete'}`, wasCompleted ? 'incomplete' : 'completed');
+                    } catch (error) {
+                      addToast(error instanceof Error ? error.message : 'Failed to update task', 'error');
                     } finally {
                       setTogglingTasks(prev => {
                         const next = new Set(prev);
@@ -1811,7 +5196,7 @@ function App() {
                       });
                     }
                   }}
-                  disabled={togglingTasks.has(selectedTask._id) || togglingImportance.has(selectedTask._id)}
+                  disabled={togglingTasks.has(selectedTask._id) || togglingPriority.has(selectedTask._id)}
                   className={`flex-1 py-6 text-base font-medium flex items-center justify-center gap-2 ${
                     togglingTasks.has(selectedTask._id) 
                       ? "opacity-70 cursor-not-allowed"
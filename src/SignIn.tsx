@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { useAuthActions } from "@convex-dev/auth/react";
+import { api } from "../convex/_generated/api";
+import { Button } from "@/components/ui/button";
+
+type SignInFlow = 'signIn' | 'signUp';
+
+const inputClassName = "w-full bg-neutral-900 text-white border border-neutral-700 rounded-lg px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-neutral-600 placeholder:text-neutral-500";
+
+// Dev login lets you act as any user without a password. The deployment also has
+// to allow it (AUTH_DEV_LOGIN=true), so it is only offered by the Vite dev server.
+function DevLogin({ onError }: { onError: (message: string) => void }) {
+  const { signIn } = useAuthActions();
+  const users = useQuery(api.tasks.getAllUsers);
+  const [name, setName] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSignIn = async (userName: string) => {
+    if (!userName.trim() || isSubmitting) return;
+    setIsSubmitting(true);
+    try {
+      await signIn("dev", { name: userName.trim() });
+    } catch (error) {
+      onError(error instanceof Error ? error.message : 'Dev login failed');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 border-t border-neutral-700 pt-6">
+      <div className="text-xs uppercase tracking-wide text-neutral-500">Dev login</div>
+      <div className="flex flex-wrap gap-2">
+        {users?.filter(user => user.deactivatedAt === undefined).map(user => (
+          <button
+            key={user._id}
+            type="button"
+            disabled={isSubmitting}
+            onClick={() => handleSignIn(user.name)}
+            className="px-3 py-1 rounded-full text-sm bg-neutral-700 text-neutral-200 hover:bg-neutral-600 transition-colors"
+          >
+            {user.name}
+          </button>
+        ))}
+      </div>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleSignIn(name);
+        }}
+        className="flex gap-2"
+      >
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Or sign in as a new user..."
+          maxLength={50}
+          className={inputClassName}
+        />
+        <Button type="submit" disabled={!name.trim() || isSubmitting} className="bg-neutral-700 hover:bg-neutral-600">
+          Go
+        </Button>
+      </form>
+    </div>
+  );
+}
+
+export default function SignIn() {
+  const { signIn } = useAuthActions();
+  const [flow, setFlow] = useState<SignInFlow>('signIn');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    const formData = new FormData(e.currentTarget);
+    formData.set("flow", flow);
+    try {
+      await signIn("password", formData);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Sign in failed');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen w-full bg-neutral-900 flex items-center justify-center px-6">
+      <div className="w-full max-w-sm bg-neutral-800 rounded-xl p-6 space-y-6">
+        <h1 className="text-2xl font-bold text-white">Konoha Task Manager</h1>
+        <form onSubmit={handleSubmit} className="space-y-3">
+          {flow === 'signUp' && (
+            <input name="name" type="text" placeholder="Name" maxLength={50} required className={inputClassName} />
+          )}
+          <input name="email" type="email" placeholder="Email" required className={inputClassName} />
+          <input name="password" type="password" placeholder="Password" required className={inputClassName} />
+          {error && <div className="text-sm text-red-400">{error}</div>}
+          <Button type="submit" disabled={isSubmitting} className="w-full bg-blue-600 hover:bg-blue-700">
+            {flow === 'signIn' ? 'Sign In' : 'Create Account'}
+          </Button>
+        </form>
+        <button
+          type="button"
+          onClick={() => setFlow(flow === 'signIn' ? 'signUp' : 'signIn')}
+          className="text-sm text-neutral-400 hover:text-white transition-colors"
+        >
+          {flow === 'signIn' ? "Don't have an account? Sign up" : 'Already have an account? Sign in'}
+        </button>
+        {import.meta.env.DEV && <DevLogin onError={setError} />}
+      </div>
+    </div>
+  );
+}
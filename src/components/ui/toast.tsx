@@ -1,7 +1,7 @@
 import { useEffect, useState } from 'react';
 import { cn } from '@/lib/utils';
 
-export type ToastType = 'completed' | 'incomplete' | 'important' | 'not-important';
+export type ToastType = 'completed' | 'incomplete' | 'important' | 'not-important' | 'created' | 'updated' | 'deleted' | 'restored' | 'error';
 
 export interface Toast {
   id: string;
@@ -39,6 +39,16 @@ export function Toast({ toast, onRemove }: ToastProps) {
         return <span className="text-amber-400 text-xl">★</span>;
       case 'not-important':
         return <span className="text-neutral-400 text-xl">☆</span>;
+      case 'created':
+        return <span className="text-blue-400 text-xl">+</span>;
+      case 'updated':
+        return <span className="text-sky-400 text-xl">✎</span>;
+      case 'deleted':
+        return <span className="text-red-400 text-xl">🗑</span>;
+      case 'restored':
+        return <span className="text-blue-400 text-xl">↺</span>;
+      case 'error':
+        return <span className="text-red-400 text-xl">!</span>;
       default:
         return null;
     }
@@ -50,6 +60,11 @@ export function Toast({ toast, onRemove }: ToastProps) {
         return 'border border-green-500';
       case 'important':
         return 'border border-amber-500';
+      case 'created':
+      case 'restored':
+        return 'border border-blue-500';
+      case 'error':
+        return 'border border-red-500';
       case 'incomplete':
       case 'not-important':
       default:
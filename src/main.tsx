@@ -1,15 +1,25 @@
 import React from "react";
 import ReactDOM from "react-dom/client";
 import App from "./App";
+import SignIn from "./SignIn";
 import "./index.css";
-import { ConvexProvider, ConvexReactClient } from "convex/react";
+import { Authenticated, AuthLoading, ConvexReactClient, Unauthenticated } from "convex/react";
+import { ConvexAuthProvider } from "@convex-dev/auth/react";
 
 const convex = new ConvexReactClient(import.meta.env.VITE_CONVEX_URL as string);
 
 ReactDOM.createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
-    <ConvexProvider client={convex}>
-      <App />
-    </ConvexProvider>
+    <ConvexAuthProvider client={convex}>
+      <AuthLoading>
+        <div className="min-h-screen w-full bg-neutral-900" />
+      </AuthLoading>
+      <Unauthenticated>
+        <SignIn />
+      </Unauthenticated>
+      <Authenticated>
+        <App />
+      </Authenticated>
+    </ConvexAuthProvider>
   </React.StrictMode>,
-);
\ No newline at end of file
+);